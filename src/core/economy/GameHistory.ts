@@ -0,0 +1,192 @@
+import { GameVariation } from '../game/types';
+
+export interface RoundRecord {
+  round: number;
+  variation: GameVariation;
+  reward: number;
+  success: boolean;
+  averageReactionMs: number | null;
+}
+
+export interface GameRecord {
+  timestamp: number;
+  cost: number;
+  difficulty: string;
+  roundsCompleted: number;
+  totalReward: number;
+  rounds: RoundRecord[];
+}
+
+export interface VariationStats {
+  attempts: number;
+  successes: number;
+  successRate: number;
+  averageReactionMs: number | null;
+}
+
+/**
+ * Log of paid games, oldest first, capped at maxHistory entries.
+ * A game stays open for round results until endGame() or the next startGame().
+ */
+export class GameHistory {
+  private records: GameRecord[] = [];
+  private current: GameRecord | null = null;
+  private maxHistory: number;
+
+  constructor(maxHistory: number) {
+    this.maxHistory = Math.max(0, Math.floor(maxHistory));
+  }
+
+  public startGame(cost: number, difficulty: string, timestamp: number = Date.now()): void {
+    this.current = {
+      timestamp,
+      cost,
+      difficulty,
+      roundsCompleted: 0,
+      totalReward: 0,
+      rounds: []
+    };
+    this.records.push(this.current);
+    this.trim();
+  }
+
+  public recordRound(
+    round: number,
+    variation: GameVariation,
+    reward: number,
+    averageReactionMs: number | null = null
+  ): void {
+    if (!this.current) return;
+
+    this.current.rounds.push({ round, variation, reward, success: true, averageReactionMs });
+    this.current.roundsCompleted++;
+    this.current.totalReward += reward;
+  }
+
+  /**
+   * Log the round that ended the game. The game stays open until endGame().
+   */
+  public recordFailure(round: number, variation: GameVariation, averageReactionMs: number | null = null): void {
+    if (!this.current) return;
+
+    this.current.rounds.push({ round, variation, reward: 0, success: false, averageReactionMs });
+  }
+
+  public endGame(): void {
+    this.current = null;
+  }
+
+  /**
+   * Continue logging into the newest game, unless it already ended in a failure
+   */
+  public reopenLast(): boolean {
+    const last = this.records[this.records.length - 1];
+    if (!last || last.rounds.some(round => !round.success)) return false;
+    this.current = last;
+    return true;
+  }
+
+  public isGameOpen(): boolean {
+    return this.current !== null;
+  }
+
+  public getRecords(): GameRecord[] {
+    return this.records.map(record => ({ ...record, rounds: [...record.rounds] }));
+  }
+
+  public getGameCount(): number {
+    return this.records.length;
+  }
+
+  public getMaxHistory(): number {
+    return this.maxHistory;
+  }
+
+  /**
+   * Number of games per rounds completed, e.g. {0: 12, 1: 30, 2: 41}
+   */
+  public getRoundsCompletedDistribution(): Map<number, number> {
+    const distribution = new Map<number, number>();
+    this.records.forEach(record => {
+      distribution.set(record.roundsCompleted, (distribution.get(record.roundsCompleted) || 0) + 1);
+    });
+    return new Map([...distribution.entries()].sort((a, b) => a[0] - b[0]));
+  }
+
+  /**
+   * Share of games that completed at least the given round
+   */
+  public getRoundCompletionRate(round: number): number {
+    if (this.records.length === 0) return 0;
+    const reached = this.records.filter(record => record.roundsCompleted >= round).length;
+    return reached / this.records.length;
+  }
+
+  public getAverageRoundsCompleted(): number {
+    if (this.records.length === 0) return 0;
+    const total = this.records.reduce((sum, record) => sum + record.roundsCompleted, 0);
+    return total / this.records.length;
+  }
+
+  /**
+   * Attempts, success rate and average reaction time per variation
+   */
+  public getVariationStats(): Map<GameVariation, VariationStats> {
+    const rounds = new Map<GameVariation, RoundRecord[]>();
+    this.records.forEach(record => {
+      record.rounds.forEach(round => {
+        rounds.set(round.variation, [...(rounds.get(round.variation) || []), round]);
+      });
+    });
+
+    const stats = new Map<GameVariation, VariationStats>();
+    rounds.forEach((played, variation) => {
+      const successes = played.filter(round => round.success).length;
+      stats.set(variation, {
+        attempts: played.length,
+        successes,
+        successRate: successes / played.length,
+        averageReactionMs: GameHistory.averageReaction(played)
+      });
+    });
+    return stats;
+  }
+
+  /**
+   * Average time between inputs over every logged round
+   */
+  public getAverageReactionMs(): number | null {
+    return GameHistory.averageReaction(this.records.flatMap(record => record.rounds));
+  }
+
+  /**
+   * Replace the log with saved records, keeping the newest maxHistory
+   */
+  public load(records: GameRecord[]): void {
+    this.records = records.map(record => ({ ...record, rounds: [...record.rounds] }));
+    this.current = null;
+    this.trim();
+  }
+
+  public clear(): void {
+    this.records = [];
+    this.current = null;
+  }
+
+  private static averageReaction(rounds: RoundRecord[]): number | null {
+    const timed = rounds
+      .map(round => round.averageReactionMs)
+      .filter((ms): ms is number => ms !== null);
+    if (timed.length === 0) return null;
+    return timed.reduce((sum, ms) => sum + ms, 0) / timed.length;
+  }
+
+  private trim(): void {
+    if (this.records.length > this.maxHistory) {
+      const removed = this.records.splice(0, this.records.length - this.maxHistory);
+      if (this.current && removed.includes(this.current)) {
+        this.current = null;
+      }
+    }
+  }
+}
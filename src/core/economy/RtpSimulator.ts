@@ -0,0 +1,305 @@
+import { GameVariation } from '../game/types';
+import type { RandomSource, VariationSchedule } from '../game/types';
+import { GAME_CONFIG } from '../game/constants';
+import { SeededRandom } from '../game/SeededRandom';
+import { VariationManager } from '../variations/VariationManager';
+import { TicketManager } from './TicketManager';
+import type { TicketConfig } from '../../utils/yaml-loader';
+
+export interface RtpSimulatorOptions {
+  difficulty?: string;
+  disabledVariations?: GameVariation[];
+  /** Defaults to the built-in schedule */
+  variationSchedule?: VariationSchedule;
+  /**
+   * Round players cash out after, when cash_out is enabled. Without it they
+   * play on until they fail a round or clear max_round.
+   */
+  cashOutAfter?: number;
+}
+
+export interface SimulationOptions {
+  games: number;
+  /** 1 plays like player_distribution, higher survives longer, lower drops out sooner */
+  skill?: number;
+  seed?: number;
+}
+
+export interface RoundExpectation {
+  round: number;
+  reachProbability: number;
+  completionProbability: number;
+  expectedReward: number;
+}
+
+export interface AnalyticRtpResult {
+  expectedPayout: number;
+  rtp: number;
+  rtpTarget: number;
+  rounds: RoundExpectation[];
+}
+
+export interface SimulationResult {
+  games: number;
+  skill: number;
+  seed: number;
+  totalCost: number;
+  totalPayout: number;
+  rtp: number;
+  rtpTarget: number;
+  meanPayout: number;
+  variance: number;
+  standardDeviation: number;
+  percentiles: { p50: number; p90: number; p95: number; p99: number };
+  maxPayout: number;
+  averageRoundsCompleted: number;
+}
+
+/**
+ * Offline return-to-player model for a ticket config.
+ *
+ * Rewards are computed by a sandbox TicketManager, so difficulty, variation
+ * bonuses, disabled-variation penalties and payout limits match the game.
+ * player_distribution gives the chance of reaching each round; beyond the
+ * table it is extrapolated with the last round-to-round ratio. With
+ * cash_out.at_risk_pot, a failed round keeps only the unforfeited share of
+ * the rewards won so far, while cashing out and clearing max_round bank all.
+ */
+export class RtpSimulator {
+  private config: TicketConfig;
+  private ticketManager: TicketManager;
+  private disabledVariations: GameVariation[];
+  private schedule: VariationSchedule;
+  private reachTable: number[];
+  private cashOutAfter: number | null;
+
+  constructor(config: TicketConfig, options: RtpSimulatorOptions = {}) {
+    this.config = config;
+    this.ticketManager = new TicketManager(config);
+    if (options.difficulty) {
+      this.ticketManager.setDifficulty(options.difficulty);
+    }
+    this.disabledVariations = options.disabledVariations || [];
+    this.schedule = options.variationSchedule || GAME_CONFIG.variations;
+    this.disabledVariations.forEach(variation => this.ticketManager.setVariationEnabled(variation, false));
+    this.reachTable = this.buildReachTable();
+    this.cashOutAfter = this.ticketManager.isCashOutEnabled() && options.cashOutAfter !== undefined
+      ? options.cashOutAfter
+      : null;
+  }
+
+  public getMaxRound(): number {
+    return this.config.limits.max_round;
+  }
+
+  /**
+   * Last round a player plays before cashing out, or max_round
+   */
+  public getLastPlayedRound(): number {
+    return Math.min(this.getMaxRound(), this.cashOutAfter ?? this.getMaxRound());
+  }
+
+  /**
+   * Share of the rewards won so far that a failed round leaves the player
+   */
+  private getKeptOnFailure(): number {
+    if (!this.ticketManager.isPotEnabled()) return 1;
+    return 1 - (this.config.cash_out?.forfeit_fraction ?? 1);
+  }
+
+  /**
+   * Chance that an average player gets to play the given round
+   */
+  public getReachProbability(round: number): number {
+    if (round < 1 || round > this.getMaxRound()) return 0;
+    return this.reachTable[round - 1];
+  }
+
+  /**
+   * Chance of completing a round once it has been reached. Skill acts as
+   * an exponent so that 1 reproduces player_distribution exactly.
+   */
+  public getCompletionProbability(round: number, skill: number = 1): number {
+    const reach = this.getReachProbability(round);
+    if (reach === 0) return 0;
+
+    // The table runs one round past max_round, the chance of clearing the last round
+    const base = Math.min(1, this.reachTable[round] / reach);
+    return Math.pow(base, 1 / skill);
+  }
+
+  /**
+   * Variations the game can pick for a round, NONE when there are none
+   */
+  public getVariationPool(round: number): GameVariation[] {
+    const available = round === 1 ? [] : this.createVariationManager().getAvailableVariations(round);
+    return available.length > 0 ? available : [GameVariation.NONE];
+  }
+
+  /**
+   * Reward for completing a round, averaged over its variation pool, or
+   * over the stacks it can pick in stacked mode. Selection avoids repeating
+   * the previous pick, which leaves every one equally likely over many games.
+   */
+  public getExpectedRoundReward(round: number): number {
+    const pool = this.getVariationPool(round);
+    if (pool.includes(GameVariation.STACKED)) {
+      const stacks = this.createVariationManager().getStackCandidates(round);
+      const total = stacks.reduce(
+        (sum, stack) => sum + this.ticketManager.calculateReward(round, GameVariation.STACKED, stack),
+        0
+      );
+      return total / stacks.length;
+    }
+
+    const total = pool.reduce((sum, variation) => sum + this.ticketManager.calculateReward(round, variation), 0);
+    return total / pool.length;
+  }
+
+  private createVariationManager(random?: RandomSource): VariationManager {
+    const variationManager = new VariationManager(random, this.schedule);
+    variationManager.setDisabledVariations(this.disabledVariations);
+    return variationManager;
+  }
+
+  /**
+   * Expected payout of a game. A player who completes round r and fails the
+   * next keeps the kept-on-failure share of the rewards up to r; one who
+   * completes the last round played keeps them all.
+   */
+  public calculateExpectedRtp(): AnalyticRtpResult {
+    const rounds: RoundExpectation[] = [];
+    const lastRound = this.getLastPlayedRound();
+    const kept = this.getKeptOnFailure();
+    let expectedPayout = 0;
+    let wonSoFar = 0;
+    let completedSoFar = 1;
+
+    for (let round = 1; round <= lastRound; round++) {
+      const reachProbability = this.getReachProbability(round);
+      const completionProbability = this.getCompletionProbability(round);
+      const expectedReward = this.getExpectedRoundReward(round);
+      const completed = reachProbability * completionProbability;
+
+      expectedPayout += (completedSoFar - completed) * kept * wonSoFar;
+      wonSoFar += expectedReward;
+      completedSoFar = completed;
+      rounds.push({ round, reachProbability, completionProbability, expectedReward });
+    }
+    expectedPayout += completedSoFar * wonSoFar;
+
+    return {
+      expectedPayout,
+      rtp: expectedPayout / this.ticketManager.getGameCost(),
+      rtpTarget: this.config.rtp_target,
+      rounds
+    };
+  }
+
+  /**
+   * Monte Carlo run of simulated players. Variations are picked by a real
+   * VariationManager, so the schedule matches what players see.
+   */
+  public simulate(options: SimulationOptions): SimulationResult {
+    const skill = options.skill ?? 1;
+    if (skill <= 0) {
+      throw new Error(`Invalid skill: ${skill}`);
+    }
+
+    const random = new SeededRandom(options.seed);
+    const seed = random.getSeed();
+    const cost = this.ticketManager.getGameCost();
+    const completion = Array.from({ length: this.getMaxRound() }, (_, i) =>
+      this.getCompletionProbability(i + 1, skill)
+    );
+    const lastRound = this.getLastPlayedRound();
+    const kept = this.getKeptOnFailure();
+    const payouts: number[] = [];
+    let totalRounds = 0;
+
+    for (let game = 0; game < options.games; game++) {
+      const variationManager = this.createVariationManager(random);
+      let payout = 0;
+      let failed = false;
+
+      for (let round = 1; round <= lastRound; round++) {
+        const variation = round === 1
+          ? GameVariation.NONE
+          : variationManager.selectVariation(round) ?? GameVariation.NONE;
+        if (random.next() >= completion[round - 1]) {
+          failed = true;
+          break;
+        }
+
+        const stack = variation === GameVariation.STACKED ? variationManager.getStack() : [];
+        payout += this.ticketManager.calculateReward(round, variation, stack);
+        totalRounds++;
+      }
+
+      payouts.push(failed ? payout * kept : payout);
+    }
+
+    const games = payouts.length;
+    const totalPayout = payouts.reduce((sum, payout) => sum + payout, 0);
+    const meanPayout = games > 0 ? totalPayout / games : 0;
+    const variance = games > 0
+      ? payouts.reduce((sum, payout) => sum + (payout - meanPayout) ** 2, 0) / games
+      : 0;
+    const sorted = [...payouts].sort((a, b) => a - b);
+
+    return {
+      games,
+      skill,
+      seed,
+      totalCost: games * cost,
+      totalPayout,
+      rtp: games > 0 ? totalPayout / (games * cost) : 0,
+      rtpTarget: this.config.rtp_target,
+      meanPayout,
+      variance,
+      standardDeviation: Math.sqrt(variance),
+      percentiles: {
+        p50: RtpSimulator.percentile(sorted, 0.5),
+        p90: RtpSimulator.percentile(sorted, 0.9),
+        p95: RtpSimulator.percentile(sorted, 0.95),
+        p99: RtpSimulator.percentile(sorted, 0.99)
+      },
+      maxPayout: games > 0 ? sorted[games - 1] : 0,
+      averageRoundsCompleted: games > 0 ? totalRounds / games : 0
+    };
+  }
+
+  private buildReachTable(): number[] {
+    const known = Object.entries(this.config.player_distribution)
+      .map(([round, probability]) => [Number(round), probability] as const)
+      .sort((a, b) => a[0] - b[0]);
+    const lookup = new Map(known);
+    const table: number[] = [];
+
+    for (let round = 1; round <= this.getMaxRound() + 1; round++) {
+      const listed = lookup.get(round);
+      if (listed !== undefined) {
+        table.push(Math.max(0, Math.min(1, listed)));
+      } else if (round === 1) {
+        table.push(1);
+      } else {
+        // Continue the last known drop-off, never rising above the previous round
+        const previous = table[round - 2];
+        const beforePrevious = round >= 3 ? table[round - 3] : 1;
+        const ratio = beforePrevious > 0 ? Math.min(1, previous / beforePrevious) : 0;
+        table.push(previous * ratio);
+      }
+    }
+
+    return table;
+  }
+
+  /**
+   * Nearest-rank percentile of an ascending list
+   */
+  private static percentile(sorted: number[], fraction: number): number {
+    if (sorted.length === 0) return 0;
+    const rank = Math.ceil(fraction * sorted.length);
+    return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+  }
+}
@@ -1,5 +1,45 @@
 import { GameVariation } from '../game/types';
 import type { TicketConfig } from '../../utils/yaml-loader';
+import { getRegisteredVariations, getVariation } from '../variations/VariationRegistry';
+import type { StorageAdapter } from '../storage/StorageAdapter';
+import { GameHistory } from './GameHistory';
+import type { GameRecord } from './GameHistory';
+
+export const WALLET_STORAGE_KEY = 'gemstone-memory.wallet';
+export const HISTORY_STORAGE_KEY = 'gemstone-memory.history';
+export const WALLET_SCHEMA_VERSION = 1;
+
+/**
+ * Persisted player wallet. Statistics are only included when
+ * tracking.save_statistics is enabled.
+ */
+export interface WalletSnapshot {
+  version: number;
+  balance: number;
+  difficulty: string;
+  disabledVariations: GameVariation[];
+  /** Unbanked rewards of the run in progress, with cash_out.at_risk_pot */
+  pot?: number;
+  statistics?: {
+    totalEarned: number;
+    totalSpent: number;
+    gamesPlayed: number;
+    highestRound: number;
+    overflow?: number;
+  };
+  /** Game history of wallets saved before it moved to HISTORY_STORAGE_KEY */
+  history?: GameRecord[];
+}
+
+/**
+ * Persisted game history, saved apart from the wallet so it is only
+ * rewritten when a game is recorded. Kept when tracking.save_statistics
+ * and tracking.track_distribution are both enabled.
+ */
+export interface HistorySnapshot {
+  version: number;
+  records: GameRecord[];
+}
 
 export class TicketManager {
   private config: TicketConfig;
@@ -8,12 +48,20 @@ export class TicketManager {
   private totalSpent: number = 0;
   private gamesPlayed: number = 0;
   private highestRound: number = 0;
+  private overflow: number = 0;
   private currentDifficulty: string;
+  private disabledVariations: Set<GameVariation> = new Set();
+  private storage: StorageAdapter | null;
+  private history: GameHistory;
+  private pot: number = 0;
 
-  constructor(config: TicketConfig) {
+  constructor(config: TicketConfig, storage?: StorageAdapter) {
     this.config = config;
     this.balance = config.demo.starting_balance;
     this.currentDifficulty = config.default_difficulty;
+    this.storage = storage || null;
+    this.history = new GameHistory(config.tracking.max_history);
+    this.restore();
   }
 
   // Balance Management
@@ -29,8 +77,11 @@ export class TicketManager {
     return this.config.game.cost_to_play;
   }
 
+  /**
+   * Whether paying for a game keeps the balance at or above limits.min_balance
+   */
   public canAffordGame(): boolean {
-    return this.balance >= this.config.game.cost_to_play;
+    return this.balance - this.config.game.cost_to_play >= this.config.limits.min_balance;
   }
 
   public deductGameCost(): boolean {
@@ -38,26 +89,108 @@ export class TicketManager {
       return false;
     }
     
+    // A pot left over from an abandoned run is lost like a failed one
+    this.forfeitPot();
+
     this.balance -= this.config.game.cost_to_play;
     this.totalSpent += this.config.game.cost_to_play;
     this.gamesPlayed++;
+    this.persist();
+    if (this.config.tracking.track_distribution) {
+      this.history.startGame(this.config.game.cost_to_play, this.currentDifficulty);
+      this.persistHistory();
+    }
     return true;
   }
 
-  public addReward(amount: number): void {
-    const newBalance = this.balance + amount;
-    this.balance = Math.min(newBalance, this.config.limits.max_balance);
-    this.totalEarned += amount;
+  /**
+   * Credit tickets up to limits.max_balance. Anything above the cap is
+   * tracked as overflow rather than earned. Returns the amount credited.
+   */
+  public addReward(amount: number): number {
+    const previous = this.balance;
+    this.balance = Math.max(previous, Math.min(previous + amount, this.config.limits.max_balance));
+    const credited = this.balance - previous;
+    this.totalEarned += credited;
+    this.overflow += amount - credited;
+    this.persist();
+    return credited;
+  }
+
+  // Cash-Out
+  public isCashOutEnabled(): boolean {
+    return !!this.config.cash_out?.enabled;
+  }
+
+  public isPotEnabled(): boolean {
+    return this.isCashOutEnabled() && !!this.config.cash_out?.at_risk_pot;
+  }
+
+  /**
+   * Rewards of the run in progress that are still at risk
+   */
+  public getPot(): number {
+    return this.pot;
+  }
+
+  /**
+   * Credit a completed round: into the pot in at-risk pot mode, otherwise
+   * straight to the balance
+   */
+  public awardRoundReward(amount: number): void {
+    if (!this.isPotEnabled()) {
+      this.addReward(amount);
+      return;
+    }
+    this.pot = this.roundToTicketPrecision(this.pot + amount);
+    this.persist();
+  }
+
+  /**
+   * Bank the whole pot. Returns the amount banked.
+   */
+  public cashOut(): number {
+    const banked = this.pot;
+    this.pot = 0;
+    if (banked > 0) {
+      this.addReward(banked);
+    } else {
+      this.persist();
+    }
+    return banked;
+  }
+
+  /**
+   * Settle the pot of a lost run: cash_out.forfeit_fraction of it is lost
+   * and the rest banked
+   */
+  public forfeitPot(): { forfeited: number; banked: number } {
+    if (this.pot === 0) return { forfeited: 0, banked: 0 };
+
+    const fraction = this.config.cash_out?.forfeit_fraction ?? 1;
+    const forfeited = this.roundToTicketPrecision(this.pot * fraction);
+    const banked = this.roundToTicketPrecision(this.pot - forfeited);
+    this.pot = 0;
+    if (banked > 0) {
+      this.addReward(banked);
+    } else {
+      this.persist();
+    }
+    return { forfeited, banked };
   }
 
   // Reward Calculation
-  public calculateReward(round: number, variation: GameVariation): number {
+  public calculateReward(round: number, variation: GameVariation, stack: GameVariation[] = []): number {
     const baseReward = this.config.base_reward;
     const roundMultiplier = this.getRoundMultiplier(round);
-    const variationBonus = this.getVariationBonus(variation);
+    // A stack pays every stacked variation's bonus, multiplied
+    const variationBonus = stack.length > 0
+      ? stack.reduce((bonus, stacked) => bonus * this.getVariationBonus(stacked), 1)
+      : this.getVariationBonus(variation);
     const difficultyMultiplier = this.getDifficultyMultiplier();
+    const penaltyMultiplier = 1 - this.getDisabledVariationPenalty();
     
-    let reward = baseReward * roundMultiplier * variationBonus * difficultyMultiplier;
+    let reward = baseReward * roundMultiplier * variationBonus * difficultyMultiplier * penaltyMultiplier;
     
     // Apply max payout limit
     reward = Math.min(reward, this.config.limits.max_single_payout);
@@ -79,17 +212,7 @@ export class TicketManager {
   }
 
   private getVariationBonus(variation: GameVariation): number {
-    const bonusMap: Record<GameVariation, keyof typeof this.config.variation_bonuses> = {
-      [GameVariation.NONE]: 'none',
-      [GameVariation.REVERSE]: 'reverse',
-      [GameVariation.GHOST]: 'ghost',
-      [GameVariation.SPEED_CHAOS]: 'speed_chaos',
-      [GameVariation.COLOR_SHUFFLE]: 'color_shuffle',
-      [GameVariation.SELECTIVE_ATTENTION]: 'selective',
-      [GameVariation.REVERSE_COMBINATION]: 'reverse_combo'
-    };
-    
-    const bonusKey = bonusMap[variation];
+    const bonusKey = getVariation(variation).rewardKey;
     return this.config.variation_bonuses[bonusKey] || 1.00;
   }
 
@@ -104,8 +227,8 @@ export class TicketManager {
     return Math.round(value * multiplier) / multiplier;
   }
 
-  public getNextRoundReward(currentRound: number, variation: GameVariation): number {
-    return this.calculateReward(currentRound + 1, variation);
+  public getNextRoundReward(currentRound: number, variation: GameVariation, stack: GameVariation[] = []): number {
+    return this.calculateReward(currentRound + 1, variation, stack);
   }
 
   // Difficulty Management
@@ -116,6 +239,7 @@ export class TicketManager {
   public setDifficulty(difficulty: string): void {
     if (this.config.difficulty_settings[difficulty]) {
       this.currentDifficulty = difficulty;
+      this.persist();
     }
   }
 
@@ -123,6 +247,45 @@ export class TicketManager {
     return this.config.difficulty_settings[this.currentDifficulty];
   }
 
+  // Variation Settings
+  /**
+   * Disabled variations that are registered. A saved id stays disabled
+   * while its plugin is not registered yet, and counts once it is.
+   */
+  public getDisabledVariations(): GameVariation[] {
+    const known = getRegisteredVariations();
+    return Array.from(this.disabledVariations).filter(v => known.includes(v));
+  }
+
+  public isVariationEnabled(variation: GameVariation): boolean {
+    return !this.disabledVariations.has(variation);
+  }
+
+  public setVariationEnabled(variation: GameVariation, enabled: boolean): void {
+    if (variation === GameVariation.NONE) return;
+
+    if (enabled) {
+      this.disabledVariations.delete(variation);
+    } else {
+      this.disabledVariations.add(variation);
+    }
+    this.persist();
+  }
+
+  /**
+   * Reward reduction for disabled variations:
+   * min(num_disabled × per_variation_penalty, max_penalty)
+   */
+  public getDisabledVariationPenalty(): number {
+    const penalties = this.config.disabled_variation_penalties;
+    if (!penalties) return 0;
+
+    return Math.min(
+      this.getDisabledVariations().length * penalties.per_variation_penalty,
+      penalties.max_penalty
+    );
+  }
+
   // Statistics
   public getTotalEarned(): number {
     return this.totalEarned;
@@ -132,6 +295,13 @@ export class TicketManager {
     return this.totalSpent;
   }
 
+  /**
+   * Rewards lost because the balance was at limits.max_balance
+   */
+  public getOverflow(): number {
+    return this.overflow;
+  }
+
   public getGamesPlayed(): number {
     return this.gamesPlayed;
   }
@@ -143,9 +313,52 @@ export class TicketManager {
   public updateHighestRound(round: number): void {
     if (round > this.highestRound) {
       this.highestRound = round;
+      this.persist();
+    }
+  }
+
+  // Game History
+  public getHistory(): GameHistory {
+    return this.history;
+  }
+
+  /**
+   * Log a completed round against the game paid for by deductGameCost()
+   */
+  public recordRoundResult(
+    round: number,
+    variation: GameVariation,
+    reward: number,
+    averageReactionMs: number | null = null
+  ): void {
+    if (!this.history.isGameOpen()) return;
+    this.history.recordRound(round, variation, reward, averageReactionMs);
+    this.persistHistory();
+  }
+
+  /**
+   * Log the failed round and close the game record
+   */
+  public recordRoundFailure(round: number, variation: GameVariation, averageReactionMs: number | null = null): void {
+    if (!this.history.isGameOpen()) return;
+    this.history.recordFailure(round, variation, averageReactionMs);
+    this.history.endGame();
+    this.persistHistory();
+  }
+
+  /**
+   * Reopen the newest game record for a run resumed from storage
+   */
+  public resumeGameRecord(): void {
+    if (this.config.tracking.track_distribution) {
+      this.history.reopenLast();
     }
   }
 
+  public endGameRecord(): void {
+    this.history.endGame();
+  }
+
   public getRTP(): number {
     if (this.totalSpent === 0) return 0;
     return this.totalEarned / this.totalSpent;
@@ -158,6 +371,11 @@ export class TicketManager {
     this.totalSpent = 0;
     this.gamesPlayed = 0;
     this.highestRound = 0;
+    this.overflow = 0;
+    this.pot = 0;
+    this.history.clear();
+    this.persist();
+    this.persistHistory();
   }
 
   // Reward Feedback
@@ -170,6 +388,139 @@ export class TicketManager {
     return 'small';
   }
 
+  // Persistence
+  public toSnapshot(): WalletSnapshot {
+    const snapshot: WalletSnapshot = {
+      version: WALLET_SCHEMA_VERSION,
+      balance: this.balance,
+      difficulty: this.currentDifficulty,
+      disabledVariations: Array.from(this.disabledVariations)
+    };
+
+    if (this.pot > 0) {
+      snapshot.pot = this.pot;
+    }
+
+    if (this.config.tracking.save_statistics) {
+      snapshot.statistics = {
+        totalEarned: this.totalEarned,
+        totalSpent: this.totalSpent,
+        gamesPlayed: this.gamesPlayed,
+        highestRound: this.highestRound,
+        overflow: this.overflow
+      };
+    }
+
+    return snapshot;
+  }
+
+  private isTrackingHistory(): boolean {
+    return this.config.tracking.save_statistics && this.config.tracking.track_distribution;
+  }
+
+  private persist(): void {
+    if (!this.storage) return;
+    this.storage.setItem(WALLET_STORAGE_KEY, JSON.stringify(this.toSnapshot()));
+  }
+
+  private persistHistory(): void {
+    if (!this.storage || !this.isTrackingHistory()) return;
+    const snapshot: HistorySnapshot = { version: WALLET_SCHEMA_VERSION, records: this.history.getRecords() };
+    this.storage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(snapshot));
+  }
+
+  private restore(): void {
+    if (!this.storage) return;
+
+    const saved = this.storage.getItem(WALLET_STORAGE_KEY);
+    if (saved) {
+      try {
+        this.applySnapshot(JSON.parse(saved) as Partial<WalletSnapshot>);
+      } catch (error) {
+        console.error('Failed to restore saved wallet:', error);
+      }
+    }
+
+    const savedHistory = this.storage.getItem(HISTORY_STORAGE_KEY);
+    if (!savedHistory || !this.isTrackingHistory()) return;
+
+    try {
+      const snapshot = JSON.parse(savedHistory) as Partial<HistorySnapshot>;
+      if (snapshot.version !== WALLET_SCHEMA_VERSION) {
+        console.warn(`Ignoring saved history with schema version ${snapshot.version}`);
+        return;
+      }
+      this.loadHistory(snapshot.records);
+    } catch (error) {
+      console.error('Failed to restore saved history:', error);
+    }
+  }
+
+  /**
+   * Load saved game records, skipping any that are malformed
+   */
+  private loadHistory(records: unknown): void {
+    if (!Array.isArray(records)) return;
+
+    const isAmount = (value: unknown): value is number =>
+      typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+    this.history.load(records.filter((record: Partial<GameRecord> | null) =>
+      record && isAmount(record.timestamp) && isAmount(record.cost) &&
+      isAmount(record.roundsCompleted) && isAmount(record.totalReward) &&
+      typeof record.difficulty === 'string' && Array.isArray(record.rounds)
+    ));
+  }
+
+  /**
+   * Apply a saved wallet, keeping only values that are still valid for the
+   * current configuration. Snapshots from an unknown schema are ignored
+   * rather than guessed at.
+   */
+  private applySnapshot(snapshot: Partial<WalletSnapshot>): void {
+    if (snapshot.version !== WALLET_SCHEMA_VERSION) {
+      console.warn(`Ignoring saved wallet with schema version ${snapshot.version}`);
+      return;
+    }
+
+    const isAmount = (value: unknown): value is number =>
+      typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+    if (isAmount(snapshot.balance)) {
+      this.balance = Math.min(snapshot.balance, this.config.limits.max_balance);
+    }
+
+    if (isAmount(snapshot.pot)) {
+      this.pot = snapshot.pot;
+    }
+
+    if (typeof snapshot.difficulty === 'string' && this.config.difficulty_settings[snapshot.difficulty]) {
+      this.currentDifficulty = snapshot.difficulty;
+    }
+
+    // Ids are checked against the registry when they are read, since a
+    // plugin may register its variation after the wallet is restored
+    if (Array.isArray(snapshot.disabledVariations)) {
+      this.disabledVariations = new Set(
+        snapshot.disabledVariations.filter(v => typeof v === 'string' && v !== GameVariation.NONE)
+      );
+    }
+
+    const statistics = snapshot.statistics;
+    if (this.config.tracking.save_statistics && statistics) {
+      if (isAmount(statistics.totalEarned)) this.totalEarned = statistics.totalEarned;
+      if (isAmount(statistics.totalSpent)) this.totalSpent = statistics.totalSpent;
+      if (isAmount(statistics.gamesPlayed)) this.gamesPlayed = Math.floor(statistics.gamesPlayed);
+      if (isAmount(statistics.highestRound)) this.highestRound = Math.floor(statistics.highestRound);
+      if (isAmount(statistics.overflow)) this.overflow = statistics.overflow;
+    }
+
+    // Older wallets carry the history; HISTORY_STORAGE_KEY replaces it once saved
+    if (this.isTrackingHistory()) {
+      this.loadHistory(snapshot.history);
+    }
+  }
+
   // Configuration Access
   public getConfig(): TicketConfig {
     return this.config;
@@ -1,68 +1,245 @@
-import { GameState, GemstoneType, GameVariation } from './types';
+import { FailureReason, GameState, GemstoneType, GameVariation } from './types';
+import type { GameConfig, GameEngineOptions, GameEventListener, GameEventName, RandomSource, StateTransition, VariationEffects } from './types';
 import { GAME_CONFIG } from './constants';
+import { SeededRandom } from './SeededRandom';
+import { GameEventEmitter } from './GameEventEmitter';
+import { GameStateMachine, PAUSABLE_STATES } from './GameStateMachine';
 import { TicketManager } from '../economy/TicketManager';
 import { VariationManager } from '../variations/VariationManager';
+import type { VariationManagerSnapshot } from '../variations/VariationManager';
+import { createEmptyEffects } from '../variations/types';
+import { isRegisteredVariation } from '../variations/VariationRegistry';
+import { ReplayRecorder } from '../replay/ReplayRecorder';
+import type { Replay, ReplayCommand } from '../replay/types';
+import type { StorageAdapter } from '../storage/StorageAdapter';
+
+export const RUN_STORAGE_KEY = 'gemstone-memory.run';
+export const RUN_SCHEMA_VERSION = 1;
+
+/**
+ * A run saved at its last completed round, so it can be resumed after the
+ * page closes. The random state continues the run's seed where it left off.
+ */
+export interface RunSnapshot {
+  version: number;
+  savedAt: number;
+  seed: number;
+  randomState: number;
+  /** Next round to play */
+  round: number;
+  score: number;
+  lastReward: number;
+  /** Tickets won so far this run */
+  earned: number;
+  currentVariation: GameVariation;
+  previousVariation: GameVariation | null;
+  combinationBase: GameVariation | null;
+  /** Missing in runs saved before stacked mode */
+  stack?: GameVariation[];
+  variationStartRound: number;
+  variationManager: VariationManagerSnapshot;
+  /** Set once the next round starts; resuming then loses that round */
+  roundInProgress?: boolean;
+}
 
 export class GameEngine {
-  private state: GameState = GameState.INITIALIZATION;
+  private machine: GameStateMachine;
   private round: number = 1;
   private pattern: GemstoneType[] = [];
   private playerInput: GemstoneType[] = [];
   private currentVariation: GameVariation = GameVariation.NONE;
   private previousVariation: GameVariation | null = null;
   private currentCombinationBase: GameVariation | null = null;
+  private currentStack: GameVariation[] = [];
   private variationStartRound: number = 0;
-  private timerSeconds: number = GAME_CONFIG.initialTimerSeconds;
-  private displaySpeed: number = GAME_CONFIG.initialDisplaySpeed;
+  private config: GameConfig;
+  private timerSeconds: number;
+  private displaySpeed: number;
   private score: number = 0;
   private ticketManager: TicketManager | null = null;
   private lastReward: number = 0;
   private variationManager: VariationManager;
-
-  constructor(ticketManager?: TicketManager) {
+  private variationEffects: VariationEffects = createEmptyEffects();
+  private random: RandomSource;
+  private clock: () => number;
+  private recorder: ReplayRecorder | null = null;
+  private playback: boolean = false;
+  private liveTicketManager: TicketManager | null = null;
+  private liveConfig: GameConfig | null = null;
+  private lastInputAt: number = 0;
+  private reactionTimes: number[] = [];
+  private inputDeadline: number | null = null;
+  private pausedRemainingMs: number | null = null;
+  private failureReason: FailureReason | null = null;
+  private pausedFrom: GameState | null = null;
+  private pausedAt: number = 0;
+  private events: GameEventEmitter = new GameEventEmitter();
+  private storage: StorageAdapter | null;
+  private runEarned: number = 0;
+
+  constructor(ticketManager?: TicketManager, options: GameEngineOptions = {}) {
     this.ticketManager = ticketManager || null;
-    this.variationManager = new VariationManager();
+    this.random = options.random || new SeededRandom(options.seed);
+    this.clock = options.clock || (() => Date.now());
+    this.storage = options.storage || null;
+    this.machine = new GameStateMachine({
+      strict: options.strictTransitions ?? import.meta.env.DEV,
+      clock: this.clock
+    });
+    this.config = options.gameConfig || GAME_CONFIG;
+    this.timerSeconds = this.config.initialTimerSeconds;
+    this.displaySpeed = this.config.initialDisplaySpeed;
+    this.variationManager = new VariationManager(this.random, this.config.variations);
     this.initialize();
   }
 
   private initialize(): void {
-    this.state = GameState.INITIALIZATION;
     this.round = 1;
     this.pattern = [];
     this.playerInput = [];
     this.score = 0;
+    this.runEarned = 0;
     this.currentVariation = GameVariation.NONE;
     this.previousVariation = null;
     this.currentCombinationBase = null;
+    this.currentStack = [];
     this.variationStartRound = 0;
+    this.variationEffects = createEmptyEffects();
+    this.inputDeadline = null;
+    this.pausedRemainingMs = null;
+    this.pausedFrom = null;
+    this.failureReason = null;
     this.updateDisplaySpeed(); // Initialize speed for round 1
+    this.setState(GameState.INITIALIZATION);
+  }
+
+  /**
+   * Subscribe to an engine event. Returns a function that unsubscribes.
+   */
+  public on<E extends GameEventName>(event: E, listener: GameEventListener<E>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  public off<E extends GameEventName>(event: E, listener: GameEventListener<E>): void {
+    this.events.off(event, listener);
+  }
+
+  private setState(state: GameState): void {
+    const previous = this.machine.getState();
+    if (state === previous) return;
+    const error = this.machine.transition(state, this.round);
+    if (error) {
+      console.error(error.message);
+      return;
+    }
+    // Pausing is not part of the run, so replays never see it
+    if (previous !== GameState.PAUSED && state !== GameState.PAUSED) {
+      this.recorder?.recordState(previous, state, this.round);
+    }
+    this.events.emit('stateChanged', { from: previous, to: state, round: this.round });
+  }
+
+  /**
+   * Whether a command may move the game to the given state. Commands that
+   * arrive out of order, e.g. from a timer that outlived its round, are
+   * ignored rather than applied.
+   */
+  private canEnter(state: GameState, command: ReplayCommand): boolean {
+    if (this.getState() !== GameState.PAUSED && this.machine.canTransition(state)) return true;
+    console.warn(`Ignoring ${command} in ${this.machine.getState()}`);
+    return false;
+  }
+
+  /**
+   * Whether startGame can begin the current round from this state
+   */
+  private canBeginRound(): boolean {
+    return this.canEnter(this.round === 1 ? GameState.CALIBRATION : GameState.PATTERN_DISPLAY, 'startGame');
+  }
+
+  private recordCommand(command: ReplayCommand): void {
+    this.recorder?.recordCommand(command, this.round);
   }
 
   private updateDisplaySpeed(): void {
+    const multiplier = this.getDisplayTimeMultiplier();
+
     if (this.round === 1) {
-      this.displaySpeed = 1000; // Special calibration speed
+      this.displaySpeed = Math.round(this.config.calibration.displaySpeed * multiplier); // Special calibration speed
       return;
     }
     
-    const decrease = this.round * GAME_CONFIG.speedDecreasePerRound;
-    this.displaySpeed = Math.max(
-      GAME_CONFIG.minDisplaySpeed,
-      GAME_CONFIG.initialDisplaySpeed - decrease
-    );
-  }
+    const decrease = this.round * this.config.speedDecreasePerRound;
+    this.displaySpeed = Math.round(Math.max(
+      this.config.minDisplaySpeed,
+      this.config.initialDisplaySpeed - decrease
+    ) * multiplier);
+  }
+
+  /**
+   * Pattern display time multiplier for the active difficulty
+   */
+  private getDisplayTimeMultiplier(): number {
+    const settings = this.ticketManager ? this.ticketManager.getDifficultySettings() : undefined;
+    return settings ? settings.pattern_display_time_multiplier : 1.00;
+  }
+
+  /**
+   * Response time multiplier for the active difficulty
+   */
+  private getResponseTimeMultiplier(): number {
+    const settings = this.ticketManager ? this.ticketManager.getDifficultySettings() : undefined;
+    return settings ? settings.response_time_multiplier : 1.00;
+  }
+
+  public startGame(): boolean {
+    return this.beginRound('startGame');
+  }
+
+  /**
+   * Start the current round. The command says whether the run was paid for,
+   * so a replay charges its sandbox wallet the same entry cost.
+   */
+  private beginRound(command: 'startGame' | 'startGameWithTickets'): boolean {
+    if (!this.canBeginRound()) return false;
+    if (this.round === 1 && this.getState() === GameState.INITIALIZATION && !this.playback) {
+      // A new run begins and replaces any saved one; record it from its first command
+      this.clearSavedRun();
+      this.recorder = new ReplayRecorder(
+        this.random.getSeed(),
+        this.ticketManager ? this.ticketManager.getConfig() : null,
+        this.ticketManager ? this.ticketManager.getCurrentDifficulty() : null,
+        this.ticketManager ? this.ticketManager.getDisabledVariations() : [],
+        this.clock,
+        this.config
+      );
+    }
+    this.recordCommand(command);
+    // Difficulty may have changed since the last round
+    this.updateDisplaySpeed();
 
-  public startGame(): void {
     if (this.round === 1) {
-      this.state = GameState.CALIBRATION;
+      this.setState(GameState.CALIBRATION);
       this.generateCalibrationPattern();
+      this.variationEffects = createEmptyEffects();
     } else {
+      this.markRoundInProgress();
       this.checkForNewVariation();
       this.generatePattern();
+      this.generateVariationEffects();
       // Only set to PATTERN_DISPLAY if not already in VARIATION_INTRO
-      if (this.state !== GameState.VARIATION_INTRO) {
-        this.state = GameState.PATTERN_DISPLAY;
+      if (this.getState() !== GameState.VARIATION_INTRO) {
+        this.setState(GameState.PATTERN_DISPLAY);
       }
     }
+
+    this.events.emit('roundStarted', {
+      round: this.round,
+      variation: this.currentVariation,
+      combinationBase: this.currentCombinationBase
+    });
+    this.events.emit('patternGenerated', { round: this.round, pattern: [...this.pattern] });
+    return true;
   }
 
   private generateCalibrationPattern(): void {
@@ -76,7 +253,7 @@ export class GameEngine {
     
     // Fisher-Yates shuffle for random order
     for (let i = allGems.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
+      const j = Math.floor(this.random.next() * (i + 1));
       [allGems[i], allGems[j]] = [allGems[j], allGems[i]];
     }
     
@@ -89,40 +266,67 @@ export class GameEngine {
     const gemTypes = Object.values(GemstoneType);
     
     for (let i = 0; i < patternLength; i++) {
-      const randomIndex = Math.floor(Math.random() * gemTypes.length);
+      const randomIndex = Math.floor(this.random.next() * gemTypes.length);
       this.pattern.push(gemTypes[randomIndex]);
     }
   }
 
+  /**
+   * Roll the visual effects for this round up front, so every random draw
+   * happens inside engine commands and a seed fully determines a run.
+   */
+  private generateVariationEffects(): void {
+    // A combination base or a stack only adds its display effects
+    this.variationEffects = this.variationManager.rollEffects(
+      [this.currentVariation, ...this.getUnderlyingVariations()],
+      this.pattern,
+      this.round,
+      this.getDisplayTimeMultiplier()
+    );
+  }
+
   private getPatternLength(): number {
     if (this.round === 1) {
       return 4; // Calibration round always has 4 gems
     }
     
-    const baseLength = GAME_CONFIG.initialPatternLength;
-    const additionalLength = Math.floor((this.round - 1) / GAME_CONFIG.lengthIncreaseInterval);
+    const baseLength = this.config.initialPatternLength;
+    const additionalLength = Math.floor((this.round - 1) / this.config.lengthIncreaseInterval);
     return baseLength + additionalLength;
   }
 
   private checkForNewVariation(): void {
     // Use VariationManager to handle variation selection
+    if (this.ticketManager) {
+      this.variationManager.setDisabledVariations(this.ticketManager.getDisabledVariations());
+    }
     const newVariation = this.variationManager.selectVariation(this.round);
+
+    if (newVariation === null) {
+      // Every variation for this round is disabled
+      this.currentVariation = GameVariation.NONE;
+      this.currentCombinationBase = null;
+      this.currentStack = [];
+      return;
+    }
     
     // Check if a new variation was selected (happens every 3 rounds)
     if (newVariation !== null && newVariation !== this.currentVariation) {
       this.currentVariation = newVariation;
       this.currentCombinationBase = this.variationManager.getCombinationBase();
+      this.currentStack = this.variationManager.getStack();
       this.variationStartRound = this.round;
       
       // Show variation intro if it's a new variation and not shown before
       if (!this.variationManager.hasShownTutorial(newVariation)) {
-        this.state = GameState.VARIATION_INTRO;
+        this.setState(GameState.VARIATION_INTRO);
         this.variationManager.markTutorialShown(newVariation);
       }
     } else if (newVariation !== null) {
       // Keep the same variation
       this.currentVariation = newVariation;
       this.currentCombinationBase = this.variationManager.getCombinationBase();
+      this.currentStack = this.variationManager.getStack();
     }
   }
 
@@ -130,55 +334,70 @@ export class GameEngine {
     return this.variationManager.getAvailableVariations(this.round);
   }
 
-  public startPatternDisplay(): void {
-    this.state = GameState.PATTERN_DISPLAY;
+  public startPatternDisplay(): boolean {
+    if (!this.canEnter(GameState.PATTERN_DISPLAY, 'startPatternDisplay')) return false;
+    this.recordCommand('startPatternDisplay');
+    this.setState(GameState.PATTERN_DISPLAY);
     this.playerInput = [];
+    return true;
   }
 
-  public startPlayerInput(): void {
-    this.state = GameState.PLAYER_INPUT;
+  public startPlayerInput(): boolean {
+    if (!this.canEnter(GameState.PLAYER_INPUT, 'startPlayerInput')) return false;
+    this.recordCommand('startPlayerInput');
+    this.setState(GameState.PLAYER_INPUT);
     // Clear any previous input to ensure clean state
     this.playerInput = [];
+    this.reactionTimes = [];
+    this.lastInputAt = this.clock();
     this.updateTimerForRound();
+    this.inputDeadline = this.lastInputAt + this.timerSeconds * 1000;
+    this.pausedRemainingMs = null;
+    return true;
   }
 
   private updateTimerForRound(): void {
+    const multiplier = this.getResponseTimeMultiplier();
+
     if (this.round === 1) {
-      this.timerSeconds = 10; // Special calibration timer
+      this.timerSeconds = this.config.calibration.timerSeconds * multiplier; // Special calibration timer
       return;
     }
     
-    const decrease = this.round * GAME_CONFIG.timerDecreasePerRound;
+    const decrease = this.round * this.config.timerDecreasePerRound;
+    // The timer covers the gems to enter, which a variation may cut or add to
+    const share = this.pattern.length > 0 ? this.getExpectedInput().length / this.pattern.length : 1;
     this.timerSeconds = Math.max(
-      GAME_CONFIG.minTimerSeconds,
-      GAME_CONFIG.initialTimerSeconds - decrease
-    );
+      this.config.minTimerSeconds,
+      (this.config.initialTimerSeconds - decrease) * share
+    ) * multiplier;
   }
 
   public handlePlayerInput(gemstone: GemstoneType): boolean {
-    if (this.state !== GameState.PLAYER_INPUT) return false;
+    if (this.getState() !== GameState.PLAYER_INPUT) return false;
+    this.recorder?.recordInput(gemstone, this.round);
+    const now = this.clock();
+    this.reactionTimes.push(now - this.lastInputAt);
+    this.lastInputAt = now;
 
     // First check what the expected gem should be BEFORE adding to array
     const currentIndex = this.playerInput.length;
-    let expectedGem = this.pattern[currentIndex];
-
-    // Apply variation rules
-    if (this.currentVariation === GameVariation.REVERSE || 
-        this.currentVariation === GameVariation.REVERSE_COMBINATION) {
-      expectedGem = this.pattern[this.pattern.length - 1 - currentIndex];
-    }
+    const expected = this.getExpectedInput();
+    const expectedGem = expected[currentIndex];
 
     // Check if the input would be correct BEFORE adding it
-    if (gemstone !== expectedGem) {
-      this.failRound();
+    if (this.variationManager.resolveInput(gemstone, this.currentVariation, this.getUnderlyingVariations()) !== expectedGem) {
+      this.events.emit('inputRejected', { gem: gemstone, expected: expectedGem, index: currentIndex, round: this.round });
+      this.failRound(FailureReason.WRONG_GEM);
       return false;
     }
 
     // Only add to playerInput if it's correct
     this.playerInput.push(gemstone);
+    this.events.emit('inputAccepted', { gem: gemstone, index: currentIndex, round: this.round });
 
     // Check if pattern is complete
-    if (this.playerInput.length === this.pattern.length) {
+    if (this.playerInput.length === expected.length) {
       this.completeRound();
       return true;
     }
@@ -186,29 +405,362 @@ export class GameEngine {
     return true;
   }
 
+  /**
+   * Fail the round because the input timer ran out
+   */
+  public timeout(): void {
+    if (this.getState() !== GameState.PLAYER_INPUT) return;
+    this.recorder?.recordTimeout(this.round);
+    this.failRound(FailureReason.TIMEOUT);
+  }
+
+  /**
+   * Check the input deadline, failing the round once it has passed.
+   * Replays skip this and fail on their recorded timeouts instead.
+   */
+  public tick(now: number = this.clock()): boolean {
+    if (this.playback || this.getState() !== GameState.PLAYER_INPUT ||
+        this.inputDeadline === null || this.pausedRemainingMs !== null) {
+      return false;
+    }
+    if (now < this.inputDeadline) return false;
+
+    this.timeout();
+    return true;
+  }
+
+  /**
+   * Milliseconds left to enter the pattern, 0 outside player input
+   */
+  public getTimeRemainingMs(now: number = this.clock()): number {
+    if (this.pausedRemainingMs !== null) return this.pausedRemainingMs;
+    if (this.getState() !== GameState.PLAYER_INPUT || this.inputDeadline === null) return 0;
+    return Math.max(0, this.inputDeadline - now);
+  }
+
+  /**
+   * Stop the input deadline from running out, keeping the time left
+   */
+  public pauseInputTimer(now: number = this.clock()): boolean {
+    if (this.getState() !== GameState.PLAYER_INPUT || this.inputDeadline === null ||
+        this.pausedRemainingMs !== null) {
+      return false;
+    }
+    this.pausedRemainingMs = Math.max(0, this.inputDeadline - now);
+    return true;
+  }
+
+  /**
+   * Restart the input deadline with the time that was left when it paused
+   */
+  public resumeInputTimer(now: number = this.clock()): boolean {
+    // A paused game restarts the deadline itself in resume()
+    if (this.pausedRemainingMs === null || this.getState() === GameState.PAUSED) return false;
+    this.inputDeadline = now + this.pausedRemainingMs;
+    this.pausedRemainingMs = null;
+    return true;
+  }
+
+  public isInputTimerPaused(): boolean {
+    return this.pausedRemainingMs !== null;
+  }
+
+  /**
+   * Freeze the run. Input, commands and the deadline wait until resume().
+   * Replays cannot be paused.
+   */
+  public pause(): boolean {
+    const state = this.getState();
+    if (this.playback || !PAUSABLE_STATES.includes(state)) return false;
+
+    this.pausedFrom = state;
+    this.pausedAt = this.clock();
+    this.pauseInputTimer(this.pausedAt);
+    this.setState(GameState.PAUSED);
+    return true;
+  }
+
+  /**
+   * Return to the state the run was paused in, with the time left intact
+   */
+  public resume(): boolean {
+    if (this.getState() !== GameState.PAUSED || this.pausedFrom === null) return false;
+
+    const now = this.clock();
+    const pausedFor = now - this.pausedAt;
+    this.recorder?.skip(pausedFor);
+    this.lastInputAt += pausedFor; // Reaction times leave the pause out
+    const state = this.pausedFrom;
+    this.pausedFrom = null;
+    this.setState(state);
+    this.resumeInputTimer(now);
+    return true;
+  }
+
+  public isPaused(): boolean {
+    return this.getState() === GameState.PAUSED;
+  }
+
+  /**
+   * State the run will resume in, null unless paused
+   */
+  public getPausedState(): GameState | null {
+    return this.pausedFrom;
+  }
+
+  public getInputDeadline(): number | null {
+    return this.inputDeadline;
+  }
+
   private completeRound(): void {
-    this.state = GameState.ROUND_COMPLETE;
-    
+    this.inputDeadline = null;
+    this.pausedRemainingMs = null;
     // Calculate and award tickets if TicketManager is available
     if (this.ticketManager) {
-      this.lastReward = this.ticketManager.calculateReward(this.round, this.currentVariation);
-      this.ticketManager.addReward(this.lastReward);
+      this.lastReward = this.ticketManager.calculateReward(this.round, this.currentVariation, this.currentStack);
+      this.ticketManager.awardRoundReward(this.lastReward);
+      this.ticketManager.recordRoundResult(
+        this.round,
+        this.currentVariation,
+        this.lastReward,
+        this.getAverageReactionMs()
+      );
       this.ticketManager.updateHighestRound(this.round);
+      this.runEarned += this.lastReward;
       this.score += Math.round(this.lastReward * 100); // Convert tickets to score points
     } else {
       // Fallback to simple scoring
       this.score += this.calculateRoundScore();
     }
+
+    // Reward is settled before anyone hears the round is complete
+    this.setState(GameState.ROUND_COMPLETE);
+    this.events.emit('rewardAwarded', { round: this.round, amount: this.lastReward, score: this.score });
     
+    const completed = this.round;
+    const isFinalRound = this.isFinalRound(completed);
     this.round++;
     this.updateDisplaySpeed(); // Update speed for the new round
+    if (!isFinalRound) this.saveRun();
+    this.events.emit('roundCompleted', { round: completed, nextRound: this.round, variation: this.currentVariation });
+
+    if (isFinalRound) {
+      this.winRun(completed);
+    }
+  }
+
+  /**
+   * Last round a run can reach, from limits.max_round. Without a ticket
+   * system runs have no limit.
+   */
+  public getMaxRound(): number | null {
+    return this.ticketManager ? this.ticketManager.getConfig().limits.max_round : null;
+  }
+
+  private isFinalRound(round: number): boolean {
+    const maxRound = this.getMaxRound();
+    return maxRound !== null && round >= maxRound;
   }
 
-  private failRound(): void {
-    this.state = GameState.ROUND_FAILED;
+  /**
+   * End the run as a victory after its final round, banking the pot
+   */
+  private winRun(round: number): void {
+    const banked = this.ticketManager ? this.ticketManager.cashOut() : 0;
+    this.ticketManager?.endGameRecord();
+    this.setState(GameState.VICTORY);
+    if (!this.playback) this.clearSavedRun();
+    this.events.emit('victory', { round, banked, score: this.score });
+  }
+
+  private failRound(reason: FailureReason): void {
+    this.inputDeadline = null;
+    this.pausedRemainingMs = null;
+    this.failureReason = reason;
+    this.setState(GameState.ROUND_FAILED);
+    if (!this.playback) this.clearSavedRun();
     if (this.ticketManager) {
       this.ticketManager.updateHighestRound(this.round);
+      this.ticketManager.recordRoundFailure(this.round, this.currentVariation, this.getAverageReactionMs());
+      this.settlePot();
+    }
+    this.events.emit('gameOver', { round: this.round, score: this.score, reason });
+  }
+
+  public toRunSnapshot(): RunSnapshot {
+    return {
+      version: RUN_SCHEMA_VERSION,
+      savedAt: this.clock(),
+      seed: this.random.getSeed(),
+      randomState: this.random.getState(),
+      round: this.round,
+      score: this.score,
+      lastReward: this.lastReward,
+      earned: this.runEarned,
+      currentVariation: this.currentVariation,
+      previousVariation: this.previousVariation,
+      combinationBase: this.currentCombinationBase,
+      stack: [...this.currentStack],
+      variationStartRound: this.variationStartRound,
+      variationManager: this.variationManager.toSnapshot()
+    };
+  }
+
+  private saveRun(): void {
+    if (!this.storage || this.playback) return;
+    this.storage.setItem(RUN_STORAGE_KEY, JSON.stringify(this.toRunSnapshot()));
+  }
+
+  /**
+   * Flag the saved run once its next round starts, so closing the page
+   * cannot bring back a pattern that has already been shown
+   */
+  private markRoundInProgress(): void {
+    if (!this.storage || this.playback) return;
+    const snapshot = this.getSavedRun();
+    if (!snapshot || snapshot.roundInProgress) return;
+    this.storage.setItem(RUN_STORAGE_KEY, JSON.stringify({ ...snapshot, roundInProgress: true }));
+  }
+
+  public clearSavedRun(): void {
+    this.storage?.removeItem(RUN_STORAGE_KEY);
+  }
+
+  /**
+   * The saved run, or null if there is none or it cannot be resumed
+   */
+  public getSavedRun(): RunSnapshot | null {
+    if (!this.storage) return null;
+
+    const saved = this.storage.getItem(RUN_STORAGE_KEY);
+    if (!saved) return null;
+
+    try {
+      const snapshot = JSON.parse(saved) as Partial<RunSnapshot>;
+      if (snapshot.version !== RUN_SCHEMA_VERSION) {
+        console.warn(`Ignoring saved run with schema version ${snapshot.version}`);
+        return null;
+      }
+      return this.isValidRunSnapshot(snapshot) ? snapshot : null;
+    } catch (error) {
+      console.error('Failed to read saved run:', error);
+      return null;
+    }
+  }
+
+  public hasSavedRun(): boolean {
+    return this.getSavedRun() !== null;
+  }
+
+  private isValidRunSnapshot(snapshot: Partial<RunSnapshot>): snapshot is RunSnapshot {
+    const isCount = (value: unknown): value is number =>
+      typeof value === 'number' && Number.isFinite(value) && value >= 0;
+    const isVariation = isRegisteredVariation;
+    const isOptionalVariation = (value: unknown) => value === null || isVariation(value);
+    const isOptionalStack = (value: unknown) =>
+      value === undefined || (Array.isArray(value) && value.every(isVariation));
+    const manager = snapshot.variationManager;
+
+    return isCount(snapshot.seed) && isCount(snapshot.randomState) &&
+      isCount(snapshot.round) && Number.isInteger(snapshot.round) && snapshot.round > 1 &&
+      isCount(snapshot.score) && isCount(snapshot.lastReward) && isCount(snapshot.earned) &&
+      isVariation(snapshot.currentVariation) &&
+      isOptionalVariation(snapshot.previousVariation) &&
+      isOptionalVariation(snapshot.combinationBase) &&
+      isOptionalStack(snapshot.stack) &&
+      isCount(snapshot.variationStartRound) &&
+      !!manager && typeof manager === 'object' &&
+      isOptionalVariation(manager.currentVariation) &&
+      isOptionalVariation(manager.previousVariation) &&
+      isOptionalVariation(manager.combinationBase) &&
+      isOptionalStack(manager.stack) &&
+      Array.isArray(manager.tutorialsShown) && manager.tutorialsShown.every(isVariation) &&
+      isCount(manager.variationStartRound) &&
+      (snapshot.roundInProgress === undefined || typeof snapshot.roundInProgress === 'boolean');
+  }
+
+  /**
+   * Restore the saved run from the menu. The engine is left in the round it
+   * completed last, so continueToNextRound() picks up without charging.
+   * A run saved while its next round was under way resumes into that round,
+   * lost, and its pot is settled. Resumed runs are not recorded for replay.
+   */
+  public resumeSavedRun(): boolean {
+    if (this.playback || this.getState() !== GameState.INITIALIZATION) return false;
+    const snapshot = this.getSavedRun();
+    if (!snapshot) return false;
+
+    this.random.setSeed(snapshot.seed);
+    this.random.setState(snapshot.randomState);
+    this.recorder = null;
+    this.round = snapshot.round;
+    this.score = snapshot.score;
+    this.lastReward = snapshot.lastReward;
+    this.runEarned = snapshot.earned;
+    this.currentVariation = snapshot.currentVariation;
+    this.previousVariation = snapshot.previousVariation;
+    this.currentCombinationBase = snapshot.combinationBase;
+    this.currentStack = [...(snapshot.stack ?? [])];
+    this.variationStartRound = snapshot.variationStartRound;
+    this.variationManager.applySnapshot(snapshot.variationManager);
+    this.ticketManager?.resumeGameRecord();
+    this.updateDisplaySpeed();
+    if (snapshot.roundInProgress) {
+      this.failRound(FailureReason.INTERRUPTED);
+      return true;
     }
+    this.setState(GameState.ROUND_COMPLETE);
+    return true;
+  }
+
+  /**
+   * Tickets won so far this run
+   */
+  public getRunEarned(): number {
+    return this.runEarned;
+  }
+
+  /**
+   * End the run between rounds instead of continuing, banking the pot.
+   * Only available when cash_out is enabled in the ticket config.
+   */
+  public cashOut(): boolean {
+    if (!this.ticketManager?.isCashOutEnabled()) return false;
+    if (!this.canEnter(GameState.CASHED_OUT, 'cashOut')) return false;
+    this.recordCommand('cashOut');
+
+    const banked = this.ticketManager.cashOut();
+    this.ticketManager.endGameRecord();
+    this.setState(GameState.CASHED_OUT);
+    if (!this.playback) this.clearSavedRun();
+    this.events.emit('cashedOut', { round: this.round - 1, banked, score: this.score });
+    return true;
+  }
+
+  /**
+   * Give up the run in progress, e.g. when the player quits to the menu.
+   * Its pot is settled as if the round had failed.
+   */
+  public abandonRun(): void {
+    if (this.playback) return;
+    this.clearSavedRun();
+    this.settlePot();
+  }
+
+  private settlePot(): void {
+    if (!this.ticketManager) return;
+    const { forfeited, banked } = this.ticketManager.forfeitPot();
+    if (forfeited > 0 || banked > 0) {
+      this.events.emit('potForfeited', { round: this.round, forfeited, banked });
+    }
+  }
+
+  /**
+   * Average time between inputs this round, measured from the start of input
+   */
+  private getAverageReactionMs(): number | null {
+    if (this.reactionTimes.length === 0) return null;
+    return this.reactionTimes.reduce((sum, ms) => sum + ms, 0) / this.reactionTimes.length;
   }
 
   private calculateRoundScore(): number {
@@ -223,12 +775,74 @@ export class GameEngine {
     return baseScore;
   }
 
-  public resetGame(): void {
+  /**
+   * Reset to the main menu. The next run gets its own seed, derived from the
+   * current sequence unless one is given, so every run can be reproduced
+   * from getSeed() alone.
+   */
+  public resetGame(seed?: number): void {
+    this.random.setSeed(seed ?? Math.floor(this.random.next() * 0x100000000));
+    this.recorder = null;
+    this.ticketManager?.endGameRecord();
     this.initialize();
     this.lastReward = 0;
     this.variationManager.reset();
   }
 
+  /**
+   * Switch to replaying a recorded run. Rewards go to the given sandbox
+   * wallet instead of the player's, and nothing is recorded.
+   */
+  public beginPlayback(seed: number, ticketManager: TicketManager | null, gameConfig: GameConfig = this.config): void {
+    if (!this.playback) {
+      this.liveTicketManager = this.ticketManager;
+      this.liveConfig = this.config;
+    }
+    this.playback = true;
+    this.ticketManager = ticketManager;
+    this.setGameConfig(gameConfig);
+    this.resetGame(seed);
+  }
+
+  /**
+   * Leave playback and restore the player's wallet
+   */
+  public endPlayback(): void {
+    if (!this.playback) return;
+    this.playback = false;
+    this.ticketManager = this.liveTicketManager;
+    this.liveTicketManager = null;
+    if (this.liveConfig) {
+      this.setGameConfig(this.liveConfig);
+      this.liveConfig = null;
+    }
+    this.resetGame();
+  }
+
+  public isPlayback(): boolean {
+    return this.playback;
+  }
+
+  /**
+   * Recording of the current or most recent run
+   */
+  public getReplay(): Replay | null {
+    return this.recorder ? this.recorder.getReplay() : null;
+  }
+
+  /**
+   * Replace the pacing and variation schedule, e.g. once game_config.yml loads
+   */
+  public setGameConfig(config: GameConfig): void {
+    this.config = config;
+    this.variationManager.setSchedule(config.variations);
+    this.updateDisplaySpeed();
+  }
+
+  public getGameConfig(): GameConfig {
+    return this.config;
+  }
+
   public setTicketManager(ticketManager: TicketManager): void {
     this.ticketManager = ticketManager;
   }
@@ -248,26 +862,34 @@ export class GameEngine {
 
   public startGameWithTickets(): boolean {
     if (!this.ticketManager) {
-      this.startGame();
-      return true;
+      return this.startGame();
     }
+
+    // Never charge for a game that cannot start from here
+    if (!this.canBeginRound()) return false;
     
     if (this.ticketManager.deductGameCost()) {
-      this.startGame();
-      return true;
+      return this.beginRound('startGameWithTickets');
     }
     
     return false; // Insufficient funds
   }
 
-  public continueToNextRound(): void {
+  public continueToNextRound(): boolean {
     // This method is used to continue to the next round without charging tickets
-    this.startGame();
+    return this.startGame();
   }
 
   // Getters
   public getState(): GameState {
-    return this.state;
+    return this.machine.getState();
+  }
+
+  /**
+   * Recent state transitions, oldest first, for debugging
+   */
+  public getStateHistory(): StateTransition[] {
+    return this.machine.getHistory();
   }
 
   public getRound(): number {
@@ -278,6 +900,38 @@ export class GameEngine {
     return [...this.pattern];
   }
 
+  /**
+   * Gems the player must enter this round, under the variation's rule
+   */
+  public getExpectedInput(): GemstoneType[] {
+    return this.variationManager.getExpectedInput(
+      this.pattern,
+      this.currentVariation,
+      this.variationEffects,
+      this.getUnderlyingVariations()
+    );
+  }
+
+  /**
+   * Gems the player must press this round. Differs from the expected input
+   * when a variation changes what a press counts as.
+   */
+  public getRequiredInput(): GemstoneType[] {
+    return this.variationManager.getRequiredInput(
+      this.pattern,
+      this.currentVariation,
+      this.variationEffects,
+      this.getUnderlyingVariations()
+    );
+  }
+
+  /**
+   * Gems lit up, in order, while the pattern is shown
+   */
+  public getDisplayPattern(): GemstoneType[] {
+    return this.variationManager.getDisplaySequence(this.pattern, this.currentVariation, this.getUnderlyingVariations());
+  }
+
   public getPlayerInput(): GemstoneType[] {
     return [...this.playerInput];
   }
@@ -290,6 +944,22 @@ export class GameEngine {
     return this.currentCombinationBase;
   }
 
+  /**
+   * Variations stacked this round, empty unless the variation is STACKED
+   */
+  public getVariationStack(): GameVariation[] {
+    return [...this.currentStack];
+  }
+
+  /**
+   * Variations whose rules apply under the current one: the stack, or the
+   * Reverse Combo base
+   */
+  private getUnderlyingVariations(): GameVariation[] {
+    if (this.currentStack.length > 0) return [...this.currentStack];
+    return this.currentCombinationBase ? [this.currentCombinationBase] : [];
+  }
+
   public getTimerSeconds(): number {
     return this.timerSeconds;
   }
@@ -302,6 +972,26 @@ export class GameEngine {
     return this.score;
   }
 
+  /**
+   * Why the run ended, null while it is still going
+   */
+  public getFailureReason(): FailureReason | null {
+    return this.failureReason;
+  }
+
+  public getVariationEffects(): VariationEffects {
+    return {
+      ghostIndices: [...this.variationEffects.ghostIndices],
+      shiningIndices: [...this.variationEffects.shiningIndices],
+      chaosTimings: this.variationEffects.chaosTimings ? [...this.variationEffects.chaosTimings] : null,
+      colorMap: this.variationEffects.colorMap ? new Map(this.variationEffects.colorMap) : null
+    };
+  }
+
+  public getSeed(): number {
+    return this.random.getSeed();
+  }
+
   public getVariationManager(): VariationManager {
     return this.variationManager;
   }
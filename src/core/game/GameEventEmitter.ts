@@ -0,0 +1,41 @@
+import type { GameEventListener, GameEventMap, GameEventName } from './types';
+
+/**
+ * Typed publish/subscribe for engine events. A listener that throws is
+ * logged and does not stop the others or the engine.
+ */
+export class GameEventEmitter {
+  private listeners: Map<GameEventName, Set<GameEventListener<never>>> = new Map();
+
+  /**
+   * Subscribe to an event. Returns a function that unsubscribes.
+   */
+  public on<E extends GameEventName>(event: E, listener: GameEventListener<E>): () => void {
+    const listeners = this.listeners.get(event) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(event, listeners);
+    return () => this.off(event, listener);
+  }
+
+  public off<E extends GameEventName>(event: E, listener: GameEventListener<E>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  public emit<E extends GameEventName>(event: E, payload: GameEventMap[E]): void {
+    const listeners = this.listeners.get(event) as Set<GameEventListener<E>> | undefined;
+    if (!listeners) return;
+
+    // Copy so listeners can unsubscribe while being called
+    [...listeners].forEach(listener => {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`Error in ${event} listener:`, error);
+      }
+    });
+  }
+
+  public removeAllListeners(): void {
+    this.listeners.clear();
+  }
+}
@@ -0,0 +1,114 @@
+import { GameState } from './types';
+import type { StateTransition } from './types';
+
+/**
+ * States a run can be paused in. Resuming returns to the paused state.
+ */
+export const PAUSABLE_STATES: readonly GameState[] = [
+  GameState.CALIBRATION,
+  GameState.VARIATION_INTRO,
+  GameState.PATTERN_DISPLAY,
+  GameState.PLAYER_INPUT
+];
+
+/**
+ * Legal moves between game states. Returning to the menu is always allowed.
+ * A saved run resumes from the menu into the round it completed last, or
+ * into the round it lost if the page closed mid-round.
+ */
+export const GAME_STATE_TRANSITIONS: Readonly<Record<GameState, readonly GameState[]>> = {
+  [GameState.INITIALIZATION]: [GameState.CALIBRATION, GameState.ROUND_COMPLETE, GameState.ROUND_FAILED],
+  [GameState.CALIBRATION]: [GameState.PATTERN_DISPLAY, GameState.PLAYER_INPUT, GameState.PAUSED, GameState.INITIALIZATION],
+  [GameState.VARIATION_INTRO]: [GameState.PATTERN_DISPLAY, GameState.PAUSED, GameState.INITIALIZATION],
+  [GameState.PATTERN_DISPLAY]: [GameState.PLAYER_INPUT, GameState.PAUSED, GameState.INITIALIZATION],
+  [GameState.PLAYER_INPUT]: [GameState.ROUND_COMPLETE, GameState.ROUND_FAILED, GameState.PAUSED, GameState.INITIALIZATION],
+  [GameState.ROUND_COMPLETE]: [
+    GameState.VARIATION_INTRO,
+    GameState.PATTERN_DISPLAY,
+    GameState.CASHED_OUT,
+    GameState.VICTORY,
+    GameState.INITIALIZATION
+  ],
+  [GameState.ROUND_FAILED]: [GameState.INITIALIZATION],
+  [GameState.CASHED_OUT]: [GameState.INITIALIZATION],
+  [GameState.VICTORY]: [GameState.INITIALIZATION],
+  [GameState.PAUSED]: [...PAUSABLE_STATES, GameState.INITIALIZATION]
+};
+
+export class IllegalTransitionError extends Error {
+  readonly from: GameState;
+  readonly to: GameState;
+
+  constructor(from: GameState, to: GameState) {
+    super(`Illegal game state transition: ${from} -> ${to}`);
+    this.name = 'IllegalTransitionError';
+    this.from = from;
+    this.to = to;
+  }
+}
+
+export interface GameStateMachineOptions {
+  /** Throw on illegal transitions instead of returning the error */
+  strict?: boolean;
+  /** Number of transitions kept for debugging */
+  maxHistory?: number;
+  clock?: () => number;
+}
+
+/**
+ * Current GameState, guarded by GAME_STATE_TRANSITIONS. Moving to the
+ * current state is a no-op and is not logged.
+ */
+export class GameStateMachine {
+  private state: GameState = GameState.INITIALIZATION;
+  private history: StateTransition[] = [];
+  private strict: boolean;
+  private maxHistory: number;
+  private clock: () => number;
+
+  constructor(options: GameStateMachineOptions = {}) {
+    this.strict = options.strict ?? false;
+    this.maxHistory = options.maxHistory ?? 100;
+    this.clock = options.clock || (() => Date.now());
+  }
+
+  public getState(): GameState {
+    return this.state;
+  }
+
+  public canTransition(to: GameState): boolean {
+    return to === this.state || GAME_STATE_TRANSITIONS[this.state].includes(to);
+  }
+
+  /**
+   * Move to a new state. Returns the error for an illegal move, or throws it
+   * in strict mode; either way the state is left unchanged.
+   */
+  public transition(to: GameState, round: number): IllegalTransitionError | null {
+    if (to === this.state) return null;
+
+    if (!this.canTransition(to)) {
+      const error = new IllegalTransitionError(this.state, to);
+      if (this.strict) throw error;
+      return error;
+    }
+
+    this.history.push({ from: this.state, to, round, timestamp: this.clock() });
+    if (this.history.length > this.maxHistory) {
+      this.history.splice(0, this.history.length - this.maxHistory);
+    }
+    this.state = to;
+    return null;
+  }
+
+  /**
+   * Most recent transitions, oldest first
+   */
+  public getHistory(): StateTransition[] {
+    return this.history.map(transition => ({ ...transition }));
+  }
+
+  public clearHistory(): void {
+    this.history = [];
+  }
+}
@@ -0,0 +1,50 @@
+import { GemstoneType } from './types';
+import type { GemSlot, InputBindings } from './types';
+import { GEMSTONES } from './constants';
+
+/**
+ * What a bound key or button asks for
+ */
+export type InputAction =
+  | { type: 'gem'; gem: GemstoneType }
+  | { type: 'confirm' };
+
+const SLOTS: GemSlot[] = ['top', 'right', 'bottom', 'left'];
+
+/**
+ * Board position of a gem, from the direction of GEMSTONES[gem].position
+ */
+export const getGemSlot = (gem: GemstoneType): GemSlot => {
+  const { x, y } = GEMSTONES[gem].position;
+  if (Math.abs(y) >= Math.abs(x)) {
+    return y < 0 ? 'top' : 'bottom';
+  }
+  return x > 0 ? 'right' : 'left';
+};
+
+/**
+ * Gem shown at a board position
+ */
+export const getSlotGem = (slot: GemSlot): GemstoneType | null =>
+  Object.values(GemstoneType).find(gem => getGemSlot(gem) === slot) ?? null;
+
+const resolve = <T>(slots: Record<GemSlot, T[]>, confirm: T[], binding: T): InputAction[] => {
+  const actions: InputAction[] = [];
+  const slot = SLOTS.find(candidate => slots[candidate].includes(binding));
+  const gem = slot ? getSlotGem(slot) : null;
+  if (gem) actions.push({ type: 'gem', gem });
+  if (confirm.includes(binding)) actions.push({ type: 'confirm' });
+  return actions;
+};
+
+/**
+ * Actions bound to a KeyboardEvent.code, empty if the key is unbound
+ */
+export const resolveKey = (bindings: InputBindings, code: string): InputAction[] =>
+  resolve(bindings.keys, bindings.confirmKeys, code);
+
+/**
+ * Actions bound to a standard-mapping gamepad button index
+ */
+export const resolveButton = (bindings: InputBindings, button: number): InputAction[] =>
+  resolve(bindings.buttons, bindings.confirmButtons, button);
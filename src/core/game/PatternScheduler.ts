@@ -0,0 +1,159 @@
+import type { GemstoneType, PatternStep, TimerSource } from './types';
+
+export interface PatternTiming {
+  /** Display time per gem in ms */
+  speed: number;
+  /** Per-gem display times for Speed Chaos, replacing speed */
+  chaosTimings: number[] | null;
+}
+
+// Wait between the last gem and player input
+const COMPLETION_DELAY_MS = 500;
+
+const browserTimers: TimerSource = {
+  now: () => performance.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>)
+};
+
+/**
+ * Timeline for showing a pattern: each gem for its display time, with a
+ * brief "off" gap between repeated gems so they read as two, then a
+ * completion step once the last gem has faded.
+ */
+export function buildPatternTimeline(pattern: GemstoneType[], timing: PatternTiming): PatternStep[] {
+  const steps: PatternStep[] = [];
+  let at = 0;
+
+  pattern.forEach((gem, index) => {
+    const duration = timing.chaosTimings ? timing.chaosTimings[index] : timing.speed;
+    steps.push({ at, type: 'show', index, gem });
+
+    if (pattern[index + 1] === gem) {
+      // 30% of the display time, capped at 150ms for Speed Chaos
+      const gap = timing.chaosTimings ? Math.min(duration * 0.3, 150) : duration * 0.3;
+      steps.push({ at: at + duration - gap, type: 'hide', index });
+      at += duration + gap;
+    } else {
+      at += duration;
+    }
+  });
+
+  steps.push({ at: at + COMPLETION_DELAY_MS, type: 'complete' });
+  return steps;
+}
+
+/**
+ * Plays a timeline, one timer at a time so it can be paused, rewound and
+ * cancelled without leaving callbacks behind.
+ */
+export class PatternScheduler {
+  private steps: PatternStep[];
+  private onStep: (step: PatternStep) => void;
+  private timers: TimerSource;
+  private position: number = 0;
+  private startedAt: number = 0;
+  private next: number = 0;
+  private handle: unknown = null;
+  private running: boolean = false;
+  private cancelled: boolean = false;
+
+  constructor(steps: PatternStep[], onStep: (step: PatternStep) => void, timers: TimerSource = browserTimers) {
+    this.steps = [...steps].sort((a, b) => a.at - b.at);
+    this.onStep = onStep;
+    this.timers = timers;
+  }
+
+  public start(): void {
+    this.stopTimer();
+    this.position = 0;
+    this.next = 0;
+    this.cancelled = false;
+    this.run();
+  }
+
+  /**
+   * Stop the clock; nothing fires until resume()
+   */
+  public pause(): void {
+    if (!this.running) return;
+    this.position = this.getElapsed();
+    this.stopTimer();
+    this.running = false;
+  }
+
+  public resume(): void {
+    if (this.running || this.cancelled || this.isFinished()) return;
+    this.run();
+  }
+
+  /**
+   * Move a stopped schedule to a point in the timeline. Steps from there
+   * on fire again on resume().
+   */
+  public rewindTo(at: number): void {
+    if (this.running) return;
+    this.position = Math.max(0, at);
+    const index = this.steps.findIndex(step => step.at >= this.position);
+    this.next = index === -1 ? this.steps.length : index;
+  }
+
+  /**
+   * Drop every pending step for good
+   */
+  public cancel(): void {
+    this.stopTimer();
+    this.running = false;
+    this.cancelled = true;
+  }
+
+  public isRunning(): boolean {
+    return this.running;
+  }
+
+  public isFinished(): boolean {
+    return this.next >= this.steps.length;
+  }
+
+  /**
+   * Milliseconds into the timeline
+   */
+  public getElapsed(): number {
+    return this.running ? this.position + this.timers.now() - this.startedAt : this.position;
+  }
+
+  public getSteps(): PatternStep[] {
+    return [...this.steps];
+  }
+
+  private run(): void {
+    this.startedAt = this.timers.now();
+    this.running = true;
+    this.scheduleNext();
+  }
+
+  private scheduleNext(): void {
+    if (this.isFinished()) {
+      this.running = false;
+      return;
+    }
+
+    const delay = Math.max(0, this.steps[this.next].at - this.getElapsed());
+    this.handle = this.timers.setTimeout(() => {
+      this.handle = null;
+      const elapsed = this.getElapsed();
+      // Fire everything that is due, stopping if a step pauses or cancels
+      while (this.running && !this.isFinished() && this.steps[this.next].at <= elapsed) {
+        this.onStep(this.steps[this.next++]);
+      }
+      if (this.running) this.scheduleNext();
+    }, delay);
+  }
+
+  private stopTimer(): void {
+    if (this.handle !== null) {
+      this.timers.clearTimeout(this.handle);
+      this.handle = null;
+    }
+  }
+}
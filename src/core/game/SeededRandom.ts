@@ -0,0 +1,56 @@
+import type { RandomSource } from './types';
+
+/**
+ * Deterministic pseudo-random number generator (mulberry32).
+ * The same seed always produces the same sequence of values.
+ */
+export class SeededRandom implements RandomSource {
+  private seed: number;
+  private state: number;
+
+  constructor(seed: number = SeededRandom.generateSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Create a fresh 32-bit seed from the platform random source
+   */
+  static generateSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0;
+  }
+
+  /**
+   * Next value in the range [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  getState(): number {
+    return this.state;
+  }
+
+  /**
+   * Continue the sequence of the current seed from a saved position
+   */
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+
+  /**
+   * Restart the sequence from a new seed
+   */
+  setSeed(seed: number): void {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+}
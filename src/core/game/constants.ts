@@ -1,6 +1,10 @@
 import type { GameConfig, GemstoneConfig } from './types';
-import { GemstoneType } from './types';
+import { GemstoneType, GameVariation } from './types';
 
+/**
+ * Built-in pacing and variation schedule, used until public/game_config.yml
+ * is loaded. Keep the two in sync.
+ */
 export const GAME_CONFIG: GameConfig = {
   initialPatternLength: 4,
   initialTimerSeconds: 8,
@@ -9,7 +13,72 @@ export const GAME_CONFIG: GameConfig = {
   minDisplaySpeed: 300,
   timerDecreasePerRound: 0.25,
   speedDecreasePerRound: 25,
-  lengthIncreaseInterval: 3
+  lengthIncreaseInterval: 3,
+  calibration: {
+    displaySpeed: 1000,
+    timerSeconds: 10
+  },
+  variations: {
+    firstRound: 2,
+    roundsPerVariation: 3,
+    unlocks: [
+      { fromRound: 2, variations: [GameVariation.GHOST] },
+      { fromRound: 5, variations: [GameVariation.GHOST, GameVariation.SELECTIVE_ATTENTION] },
+      { fromRound: 8, variations: [GameVariation.GHOST, GameVariation.SELECTIVE_ATTENTION, GameVariation.SPEED_CHAOS] },
+      { fromRound: 11, variations: [GameVariation.GHOST, GameVariation.SELECTIVE_ATTENTION, GameVariation.SPEED_CHAOS, GameVariation.COLOR_SHUFFLE] },
+      { fromRound: 14, variations: [GameVariation.GHOST, GameVariation.SELECTIVE_ATTENTION, GameVariation.SPEED_CHAOS, GameVariation.COLOR_SHUFFLE, GameVariation.REVERSE, GameVariation.MIRROR] }
+    ],
+    combination: {
+      fromRound: 17,
+      bases: [GameVariation.GHOST, GameVariation.SPEED_CHAOS, GameVariation.COLOR_SHUFFLE, GameVariation.SELECTIVE_ATTENTION]
+    },
+    stacking: {
+      fromRound: 26,
+      pool: [GameVariation.GHOST, GameVariation.SPEED_CHAOS, GameVariation.COLOR_SHUFFLE, GameVariation.SELECTIVE_ATTENTION, GameVariation.REVERSE],
+      size: [
+        { fromRound: 26, value: 2 },
+        { fromRound: 38, value: 3 }
+      ]
+    },
+    ghostOpacity: [
+      { fromRound: 2, value: 0.4 },
+      { fromRound: 3, value: 0.35 },
+      { fromRound: 4, value: 0.3 },
+      { fromRound: 5, value: 0.4 },
+      { fromRound: 17, value: 0.2 }
+    ],
+    chaosTimings: [
+      { fromRound: 1, value: { min: 300, max: 900 } },
+      { fromRound: 9, value: { min: 250, max: 950 } },
+      { fromRound: 10, value: { min: 200, max: 1000 } },
+      { fromRound: 11, value: { min: 300, max: 900 } },
+      { fromRound: 17, value: { min: 150, max: 1200 } }
+    ],
+    shiningPercentage: [
+      { fromRound: 1, value: 0.6 },
+      { fromRound: 6, value: 0.5 },
+      { fromRound: 7, value: 0.4 },
+      { fromRound: 8, value: 0.6 },
+      { fromRound: 17, value: 0.3 }
+    ]
+  },
+  controls: {
+    keys: {
+      top: ['ArrowUp', 'KeyW', 'Digit1', 'Numpad1'],
+      right: ['ArrowRight', 'KeyD', 'Digit2', 'Numpad2'],
+      bottom: ['ArrowDown', 'KeyS', 'Digit3', 'Numpad3'],
+      left: ['ArrowLeft', 'KeyA', 'Digit4', 'Numpad4']
+    },
+    confirmKeys: ['Space', 'Enter', 'NumpadEnter'],
+    // Standard mapping: 12-15 d-pad, 0-3 face buttons A/B/X/Y, 8 Back, 9 Start
+    buttons: {
+      top: [12, 3],
+      right: [15, 1],
+      bottom: [13, 0],
+      left: [14, 2]
+    },
+    confirmButtons: [9, 8]
+  }
 };
 
 export const GEMSTONES: Record<GemstoneType, GemstoneConfig> = {
@@ -41,4 +110,4 @@ export const GEMSTONES: Record<GemstoneType, GemstoneConfig> = {
     position: { x: -140, y: 0 }, // Left - adjusted for visual balance
     sound: 250
   }
-};
\ No newline at end of file
+};
@@ -1,3 +1,5 @@
+import type { StorageAdapter } from '../storage/StorageAdapter';
+
 export enum GameState {
   INITIALIZATION = 'INITIALIZATION',
   CALIBRATION = 'CALIBRATION',
@@ -5,7 +7,17 @@ export enum GameState {
   PATTERN_DISPLAY = 'PATTERN_DISPLAY',
   PLAYER_INPUT = 'PLAYER_INPUT',
   ROUND_COMPLETE = 'ROUND_COMPLETE',
-  ROUND_FAILED = 'ROUND_FAILED'
+  ROUND_FAILED = 'ROUND_FAILED',
+  CASHED_OUT = 'CASHED_OUT',
+  VICTORY = 'VICTORY',
+  PAUSED = 'PAUSED'
+}
+
+export enum FailureReason {
+  TIMEOUT = 'TIMEOUT',
+  WRONG_GEM = 'WRONG_GEM',
+  /** The page closed mid-round; the resumed run loses that round */
+  INTERRUPTED = 'INTERRUPTED'
 }
 
 export enum GemstoneType {
@@ -15,15 +27,25 @@ export enum GemstoneType {
   CUSHION = 'CUSHION'
 }
 
-export enum GameVariation {
-  NONE = 'NONE',
-  REVERSE = 'REVERSE',
-  GHOST = 'GHOST',
-  SPEED_CHAOS = 'SPEED_CHAOS',
-  COLOR_SHUFFLE = 'COLOR_SHUFFLE',
-  SELECTIVE_ATTENTION = 'SELECTIVE_ATTENTION',
-  REVERSE_COMBINATION = 'REVERSE_COMBINATION'
-}
+/**
+ * Built-in variations. Further ones are added at runtime with
+ * registerVariation, so a variation is any registered id.
+ */
+export const GameVariation = {
+  NONE: 'NONE',
+  REVERSE: 'REVERSE',
+  GHOST: 'GHOST',
+  SPEED_CHAOS: 'SPEED_CHAOS',
+  COLOR_SHUFFLE: 'COLOR_SHUFFLE',
+  SELECTIVE_ATTENTION: 'SELECTIVE_ATTENTION',
+  MIRROR: 'MIRROR',
+  REVERSE_COMBINATION: 'REVERSE_COMBINATION',
+  STACKED: 'STACKED'
+} as const;
+
+export type BuiltInVariation = typeof GameVariation[keyof typeof GameVariation];
+// `string & {}` keeps editor completion for the built-in ids
+export type GameVariation = BuiltInVariation | (string & {});
 
 export interface GameConfig {
   initialPatternLength: number;
@@ -34,6 +56,75 @@ export interface GameConfig {
   timerDecreasePerRound: number;
   speedDecreasePerRound: number;
   lengthIncreaseInterval: number;
+  calibration: CalibrationConfig;
+  variations: VariationSchedule;
+  controls: InputBindings;
+}
+
+/**
+ * Board positions of the four gems, from GEMSTONES[*].position
+ */
+export type GemSlot = 'top' | 'right' | 'bottom' | 'left';
+
+/**
+ * Keyboard and gamepad controls. Keys are KeyboardEvent.code values,
+ * buttons are indices in the standard gamepad mapping.
+ */
+export interface InputBindings {
+  keys: Record<GemSlot, string[]>;
+  /** Start a game from the menu, or play again after a run */
+  confirmKeys: string[];
+  buttons: Record<GemSlot, number[]>;
+  confirmButtons: number[];
+}
+
+/**
+ * Round 1 pacing, overriding the regular curves
+ */
+export interface CalibrationConfig {
+  displaySpeed: number;
+  timerSeconds: number;
+}
+
+/**
+ * A value that applies from a round until the next band starts
+ */
+export interface RoundBand<T> {
+  fromRound: number;
+  value: T;
+}
+
+export interface TimingRange {
+  min: number;
+  max: number;
+}
+
+export interface VariationUnlock {
+  fromRound: number;
+  variations: GameVariation[];
+}
+
+/**
+ * When variations unlock and how intense their effects are per round
+ */
+export interface VariationSchedule {
+  firstRound: number;
+  roundsPerVariation: number;
+  unlocks: VariationUnlock[];
+  combination: {
+    fromRound: number;
+    bases: GameVariation[];
+  };
+  /** Endless escalation past combination mode: several compatible variations at once */
+  stacking: {
+    fromRound: number;
+    pool: GameVariation[];
+    /** Variations per stack */
+    size: RoundBand<number>[];
+  };
+  ghostOpacity: RoundBand<number>[];
+  chaosTimings: RoundBand<TimingRange>[];
+  shiningPercentage: RoundBand<number>[];
 }
 
 export interface GemstoneConfig {
@@ -42,4 +133,79 @@ export interface GemstoneConfig {
   inactiveColor: string;
   position: { x: number; y: number };
   sound: number;
-}
\ No newline at end of file
+}
+
+export interface RandomSource {
+  next(): number;
+  getSeed(): number;
+  setSeed(seed: number): void;
+  /** Position in the sequence, to continue it later with setState() */
+  getState(): number;
+  setState(state: number): void;
+}
+
+export interface GameEngineOptions {
+  seed?: number;
+  random?: RandomSource;
+  clock?: () => number;
+  gameConfig?: GameConfig;
+  /** Where an interrupted run is saved at each completed round */
+  storage?: StorageAdapter;
+  /** Throw on illegal state transitions, on by default in development */
+  strictTransitions?: boolean;
+}
+
+/**
+ * One step of a pattern display timeline, at ms from its start
+ */
+export type PatternStep =
+  | { at: number; type: 'show'; index: number; gem: GemstoneType }
+  | { at: number; type: 'hide'; index: number }
+  | { at: number; type: 'complete' };
+
+/**
+ * Time and timers, injectable so schedules can run on a fake clock
+ */
+export interface TimerSource {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+export interface StateTransition {
+  from: GameState;
+  to: GameState;
+  round: number;
+  timestamp: number;
+}
+
+export interface VariationEffects {
+  ghostIndices: number[];
+  shiningIndices: number[];
+  chaosTimings: number[] | null;
+  colorMap: Map<GemstoneType, GemstoneType> | null;
+}
+
+/**
+ * Payloads of the events a GameEngine emits, keyed by event name
+ */
+export interface GameEventMap {
+  stateChanged: { from: GameState; to: GameState; round: number };
+  roundStarted: { round: number; variation: GameVariation; combinationBase: GameVariation | null };
+  patternGenerated: { round: number; pattern: GemstoneType[] };
+  inputAccepted: { gem: GemstoneType; index: number; round: number };
+  inputRejected: { gem: GemstoneType; expected: GemstoneType; index: number; round: number };
+  roundCompleted: { round: number; nextRound: number; variation: GameVariation };
+  rewardAwarded: { round: number; amount: number; score: number };
+  gameOver: { round: number; score: number; reason: FailureReason };
+  /** The run ended by choice after `round`, banking the pot */
+  cashedOut: { round: number; banked: number; score: number };
+  /** The run cleared limits.max_round; `round` is the last round played */
+  victory: { round: number; banked: number; score: number };
+  /** A lost run gave up part of its pot; the rest was banked */
+  potForfeited: { round: number; forfeited: number; banked: number };
+}
+
+export type GameEventName = keyof GameEventMap;
+
+export type GameEventListener<E extends GameEventName> = (payload: GameEventMap[E]) => void;
@@ -0,0 +1,127 @@
+import { GameEngine } from '../game/GameEngine';
+import { TicketManager } from '../economy/TicketManager';
+import type { Replay, ReplayEvent, ReplayInputEvent } from './types';
+
+/**
+ * Drives a GameEngine from a recorded run. The engine is reseeded with the
+ * recording's seed and given a sandbox wallet built from the recorded
+ * ticket configuration, so playback never touches the player's balance.
+ */
+export class ReplayPlayer {
+  private replay: Replay;
+  private engine: GameEngine;
+  private cursor: number = 0;
+  private divergence: string | null = null;
+
+  constructor(replay: Replay, engine: GameEngine = new GameEngine()) {
+    this.replay = replay;
+    this.engine = engine;
+    this.engine.beginPlayback(replay.seed, this.createSandboxTicketManager(), replay.gameConfig);
+  }
+
+  private createSandboxTicketManager(): TicketManager | null {
+    if (!this.replay.ticketConfig) return null;
+
+    const ticketManager = new TicketManager(this.replay.ticketConfig);
+    if (this.replay.difficulty) {
+      ticketManager.setDifficulty(this.replay.difficulty);
+    }
+    this.replay.disabledVariations.forEach(variation => {
+      ticketManager.setVariationEnabled(variation, false);
+    });
+    return ticketManager;
+  }
+
+  public getEngine(): GameEngine {
+    return this.engine;
+  }
+
+  public getReplay(): Replay {
+    return this.replay;
+  }
+
+  /**
+   * Player inputs and timeouts recorded for a round, in order
+   */
+  public getRoundInputs(round: number): ReplayInputEvent[] {
+    return this.replay.events.filter(
+      (event): event is ReplayInputEvent =>
+        (event.type === 'input' || event.type === 'timeout') && event.round === round
+    );
+  }
+
+  /**
+   * Whether the recorded run cashed out instead of playing the given round
+   */
+  public cashesOutBefore(round: number): boolean {
+    return this.replay.events.some(
+      event => event.type === 'command' && event.command === 'cashOut' && event.round === round
+    );
+  }
+
+  public hasNext(): boolean {
+    return this.cursor < this.replay.events.length;
+  }
+
+  /**
+   * Apply the next recorded event to the engine. State events are checked
+   * against the engine rather than applied, and the first mismatch is kept
+   * as the divergence.
+   */
+  public step(): ReplayEvent | null {
+    if (!this.hasNext()) return null;
+
+    const event = this.replay.events[this.cursor++];
+
+    switch (event.type) {
+      case 'command':
+        if (event.command === 'startGame') this.engine.startGame();
+        if (event.command === 'startGameWithTickets') this.engine.startGameWithTickets();
+        if (event.command === 'startPatternDisplay') this.engine.startPatternDisplay();
+        if (event.command === 'startPlayerInput') this.engine.startPlayerInput();
+        if (event.command === 'cashOut') this.engine.cashOut();
+        break;
+      case 'input':
+        this.engine.handlePlayerInput(event.gem);
+        break;
+      case 'timeout':
+        this.engine.timeout();
+        break;
+      case 'state': {
+        // One command can pass through several states; compare the last one
+        const next = this.replay.events[this.cursor];
+        const settled = !next || next.type !== 'state';
+        if (settled && this.divergence === null && this.engine.getState() !== event.to) {
+          this.divergence = `Round ${event.round}: expected ${event.to}, got ${this.engine.getState()}`;
+        }
+        break;
+      }
+    }
+
+    return event;
+  }
+
+  /**
+   * Apply every remaining event
+   */
+  public runToEnd(): GameEngine {
+    while (this.hasNext()) {
+      this.step();
+    }
+    return this.engine;
+  }
+
+  /**
+   * First point where playback disagreed with the recording, if any
+   */
+  public getDivergence(): string | null {
+    return this.divergence;
+  }
+
+  /**
+   * Leave playback mode on the engine
+   */
+  public stop(): void {
+    this.engine.endPlayback();
+  }
+}
@@ -0,0 +1,110 @@
+import { GameState, GameVariation, GemstoneType } from '../game/types';
+import type { GameConfig } from '../game/types';
+import { GAME_CONFIG } from '../game/constants';
+import type { TicketConfig } from '../../utils/yaml-loader';
+import { REPLAY_VERSION } from './types';
+import type { Replay, ReplayCommand, ReplayEvent } from './types';
+
+export class ReplayRecorder {
+  private replay: Replay;
+  private clock: () => number;
+  private startTime: number;
+  private inputStartTime: number;
+
+  constructor(
+    seed: number,
+    ticketConfig: TicketConfig | null,
+    difficulty: string | null,
+    disabledVariations: GameVariation[],
+    clock: () => number,
+    gameConfig: GameConfig = GAME_CONFIG
+  ) {
+    this.clock = clock;
+    this.startTime = clock();
+    this.inputStartTime = this.startTime;
+    this.replay = {
+      version: REPLAY_VERSION,
+      seed,
+      recordedAt: Date.now(),
+      gameConfig: structuredClone(gameConfig),
+      ticketConfig: ticketConfig ? structuredClone(ticketConfig) : null,
+      difficulty,
+      disabledVariations: [...disabledVariations],
+      events: []
+    };
+  }
+
+  recordCommand(command: ReplayCommand, round: number): void {
+    const at = this.elapsed();
+    if (command === 'startPlayerInput') {
+      this.inputStartTime = this.clock();
+    }
+    this.push({ type: 'command', command, round, at });
+  }
+
+  recordState(from: GameState, to: GameState, round: number): void {
+    this.push({ type: 'state', from, to, round, at: this.elapsed() });
+  }
+
+  recordInput(gem: GemstoneType, round: number): void {
+    this.push({ type: 'input', gem, round, at: this.elapsed(), offset: this.inputOffset() });
+  }
+
+  recordTimeout(round: number): void {
+    this.push({ type: 'timeout', round, at: this.elapsed(), offset: this.inputOffset() });
+  }
+
+  /**
+   * Leave time spent paused out of the recording
+   */
+  skip(ms: number): void {
+    this.startTime += ms;
+    this.inputStartTime += ms;
+  }
+
+  /**
+   * Snapshot of the recording so far, safe to serialize
+   */
+  getReplay(): Replay {
+    return structuredClone(this.replay);
+  }
+
+  private push(event: ReplayEvent): void {
+    this.replay.events.push(event);
+  }
+
+  private elapsed(): number {
+    return this.clock() - this.startTime;
+  }
+
+  private inputOffset(): number {
+    return this.clock() - this.inputStartTime;
+  }
+}
+
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay);
+}
+
+export function parseReplay(json: string): Replay {
+  const replay = JSON.parse(json) as Replay;
+
+  if (!replay || typeof replay !== 'object' || !Array.isArray(replay.events)) {
+    throw new Error('Invalid replay: missing events');
+  }
+  if (typeof replay.seed !== 'number') {
+    throw new Error('Invalid replay: missing seed');
+  }
+  if (replay.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${replay.version}`);
+  }
+  replay.disabledVariations = replay.disabledVariations ?? [];
+  // Recordings made before the schedule was configurable used the built-in one
+  replay.gameConfig = { ...structuredClone(GAME_CONFIG), ...replay.gameConfig };
+  // Recordings made before stacked mode never stacked
+  if (!replay.gameConfig.variations.stacking) {
+    replay.gameConfig.variations.stacking = { ...GAME_CONFIG.variations.stacking, fromRound: Number.MAX_SAFE_INTEGER };
+  }
+
+  return replay;
+}
@@ -0,0 +1,37 @@
+import type { GameConfig, GameState, GameVariation, GemstoneType } from '../game/types';
+import type { TicketConfig } from '../../utils/yaml-loader';
+
+export const REPLAY_VERSION = 1;
+
+/**
+ * Engine calls that drive a run forward
+ */
+export type ReplayCommand =
+  | 'startGame'
+  | 'startGameWithTickets'
+  | 'startPatternDisplay'
+  | 'startPlayerInput'
+  | 'cashOut';
+
+/**
+ * A single recorded moment of a run. `at` is milliseconds since the run
+ * started; `offset` is milliseconds since the round's startPlayerInput.
+ */
+export type ReplayEvent =
+  | { type: 'command'; command: ReplayCommand; round: number; at: number }
+  | { type: 'input'; gem: GemstoneType; round: number; at: number; offset: number }
+  | { type: 'timeout'; round: number; at: number; offset: number }
+  | { type: 'state'; from: GameState; to: GameState; round: number; at: number };
+
+export type ReplayInputEvent = Extract<ReplayEvent, { type: 'input' | 'timeout' }>;
+
+export interface Replay {
+  version: number;
+  seed: number;
+  recordedAt: number;
+  gameConfig: GameConfig;
+  ticketConfig: TicketConfig | null;
+  difficulty: string | null;
+  disabledVariations: GameVariation[];
+  events: ReplayEvent[];
+}
@@ -0,0 +1,32 @@
+import type { StorageAdapter } from './StorageAdapter';
+
+/**
+ * Browser localStorage. Failures (private mode, quota) are logged and
+ * treated as missing data rather than crashing the game.
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  getItem(key: string): string | null {
+    try {
+      return window.localStorage.getItem(key);
+    } catch (error) {
+      console.error(`Failed to read ${key} from storage:`, error);
+      return null;
+    }
+  }
+
+  setItem(key: string, value: string): void {
+    try {
+      window.localStorage.setItem(key, value);
+    } catch (error) {
+      console.error(`Failed to write ${key} to storage:`, error);
+    }
+  }
+
+  removeItem(key: string): void {
+    try {
+      window.localStorage.removeItem(key);
+    } catch (error) {
+      console.error(`Failed to remove ${key} from storage:`, error);
+    }
+  }
+}
@@ -0,0 +1,20 @@
+import type { StorageAdapter } from './StorageAdapter';
+
+/**
+ * In-memory storage for tests and environments without localStorage
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  private items: Map<string, string> = new Map();
+
+  getItem(key: string): string | null {
+    return this.items.has(key) ? this.items.get(key)! : null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * Minimal key-value storage used to persist player data.
+ * Mirrors the synchronous Web Storage API so localStorage fits directly.
+ */
+export interface StorageAdapter {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
@@ -1,55 +1,192 @@
 import { GameVariation, GemstoneType } from '../game/types';
+import type { RandomSource, RoundBand, VariationEffects, VariationSchedule } from '../game/types';
+import { SeededRandom } from '../game/SeededRandom';
+import { GAME_CONFIG } from '../game/constants';
+import { getPluginVariations, getVariation } from './VariationRegistry';
+import { createEmptyEffects } from './types';
+import type { VariationDefinition } from './types';
+
+/**
+ * Value of the last band starting at or before the round.
+ * Rounds before the first band use the first band.
+ */
+const valueForRound = <T>(bands: RoundBand<T>[], round: number): T => {
+  let value = bands[0].value;
+  for (const band of bands) {
+    if (band.fromRound > round) break;
+    value = band.value;
+  }
+  return value;
+};
+
+/**
+ * Every way to pick `size` items from the list, keeping their order
+ */
+const subsetsOfSize = <T>(items: T[], size: number): T[][] => {
+  if (size === 0) return [[]];
+  return items.flatMap((item, index) =>
+    subsetsOfSize(items.slice(index + 1), size - 1).map(rest => [item, ...rest])
+  );
+};
+
+/**
+ * Selection state of a run in progress, saved so it can be resumed
+ */
+export interface VariationManagerSnapshot {
+  currentVariation: GameVariation | null;
+  previousVariation: GameVariation | null;
+  combinationBase: GameVariation | null;
+  /** Missing in snapshots saved before stacked mode */
+  stack?: GameVariation[];
+  tutorialsShown: GameVariation[];
+  variationStartRound: number;
+}
 
 export class VariationManager {
   private currentVariation: GameVariation | null = null;
   private previousVariation: GameVariation | null = null;
   private combinationBase: GameVariation | null = null;
+  private stack: GameVariation[] = [];
   private tutorialsShown: Set<GameVariation> = new Set();
   private variationStartRound: number = 0;
+  private disabledVariations: Set<GameVariation> = new Set();
+  private random: RandomSource;
+  private schedule: VariationSchedule;
+
+  constructor(random: RandomSource = new SeededRandom(), schedule: VariationSchedule = GAME_CONFIG.variations) {
+    this.random = random;
+    this.schedule = schedule;
+  }
 
   /**
-   * Get available variations for a given round
+   * Replace the unlock and intensity schedule, e.g. from game_config.yml
+   */
+  setSchedule(schedule: VariationSchedule): void {
+    this.schedule = schedule;
+  }
+
+  getSchedule(): VariationSchedule {
+    return this.schedule;
+  }
+
+  /**
+   * Get available variations for a given round, excluding disabled ones
    */
   getAvailableVariations(round: number): GameVariation[] {
-    if (round === 1) return [];
-    if (round <= 4) return [GameVariation.GHOST];
-    if (round <= 7) return [GameVariation.GHOST, GameVariation.SELECTIVE_ATTENTION];
-    if (round <= 10) return [GameVariation.GHOST, GameVariation.SELECTIVE_ATTENTION, GameVariation.SPEED_CHAOS];
-    if (round <= 13) return [GameVariation.GHOST, GameVariation.SELECTIVE_ATTENTION, GameVariation.SPEED_CHAOS, GameVariation.COLOR_SHUFFLE];
-    if (round <= 16) return [GameVariation.GHOST, GameVariation.SELECTIVE_ATTENTION, GameVariation.SPEED_CHAOS, GameVariation.COLOR_SHUFFLE, GameVariation.REVERSE];
-    // Round 17+: Combination mode
-    return [GameVariation.REVERSE_COMBINATION];
+    if (round < this.schedule.firstRound) return [];
+
+    const unlocked = this.schedule.unlocks.filter(unlock => unlock.fromRound <= round);
+    const scheduled = unlocked.length > 0 ? unlocked[unlocked.length - 1].variations : [];
+    // Registered variations join the pool from their own unlock round
+    const plugins = getPluginVariations()
+      .filter(definition => definition.unlockRound <= round && !scheduled.includes(definition.id))
+      .map(definition => definition.id);
+    const pool = [...scheduled, ...plugins].filter(v => !this.disabledVariations.has(v));
+
+    // Stacked mode, if it is enabled and a compatible stack is left
+    if (round >= this.schedule.stacking.fromRound &&
+        !this.disabledVariations.has(GameVariation.STACKED) &&
+        this.getStackCandidates(round).length > 0) {
+      return [GameVariation.STACKED];
+    }
+
+    // Combination mode, if it and at least one base are enabled
+    if (round >= this.schedule.combination.fromRound &&
+        !this.disabledVariations.has(GameVariation.REVERSE_COMBINATION) &&
+        this.getCombinationBases().length > 0) {
+      return [GameVariation.REVERSE_COMBINATION];
+    }
+    return pool;
+  }
+
+  /**
+   * Enabled variations that can be combined with Reverse
+   */
+  private getCombinationBases(): GameVariation[] {
+    const plugins = getPluginVariations()
+      .filter(definition => definition.combinable && !this.schedule.combination.bases.includes(definition.id))
+      .map(definition => definition.id);
+    return [...this.schedule.combination.bases, ...plugins].filter(v => !this.disabledVariations.has(v));
+  }
+
+  /**
+   * Whether two variations can be active in the same round
+   */
+  areCompatible(a: GameVariation, b: GameVariation): boolean {
+    return a !== b &&
+      !this.getRule(a).conflictsWith?.includes(b) &&
+      !this.getRule(b).conflictsWith?.includes(a);
+  }
+
+  /**
+   * Stacks of enabled, mutually compatible variations for a round, sized by
+   * the stacking schedule. Reverse goes last, as in Reverse Combo, so it
+   * reverses whatever the others expect.
+   */
+  getStackCandidates(round: number): GameVariation[][] {
+    const { pool, size } = this.schedule.stacking;
+    const plugins = getPluginVariations()
+      .filter(definition => definition.combinable && !pool.includes(definition.id))
+      .map(definition => definition.id);
+    const enabled = [...pool, ...plugins].filter(v => !this.disabledVariations.has(v));
+    const ordered = [
+      ...enabled.filter(v => v !== GameVariation.REVERSE),
+      ...enabled.filter(v => v === GameVariation.REVERSE)
+    ];
+
+    return subsetsOfSize(ordered, valueForRound(size, round))
+      .filter(stack => stack.every((a, i) => stack.slice(i + 1).every(b => this.areCompatible(a, b))));
+  }
+
+  /**
+   * Set which variations the player has turned off
+   */
+  setDisabledVariations(variations: Iterable<GameVariation>): void {
+    this.disabledVariations = new Set(variations);
+  }
+
+  getDisabledVariations(): GameVariation[] {
+    return Array.from(this.disabledVariations);
   }
 
   /**
    * Select a variation for the given round
-   * Variations persist for 3 rounds
+   * Variations persist for the schedule's roundsPerVariation (3 by default)
    */
   selectVariation(round: number): GameVariation | null {
     const available = this.getAvailableVariations(round);
     if (available.length === 0) return null;
 
-    // Check if we need to select a new variation (every 3 rounds starting from round 2)
-    const shouldSelectNew = round === 2 || (round > 2 && (round - 2) % 3 === 0);
+    // Check if we need to select a new variation (every few rounds from the first variation round)
+    const { firstRound, roundsPerVariation } = this.schedule;
+    const shouldSelectNew = round === firstRound ||
+      (round > firstRound && (round - firstRound) % roundsPerVariation === 0);
     
     if (shouldSelectNew || this.currentVariation === null) {
       this.variationStartRound = round;
       
-      if (round >= 17) {
+      if (available.includes(GameVariation.STACKED)) {
+        // Stacked mode: a new set of compatible variations, avoiding the previous one
+        const candidates = this.getStackCandidates(round);
+        const previous = this.stack.join();
+        const filtered = candidates.filter(stack => stack.join() !== previous);
+        const stackPool = filtered.length > 0 ? filtered : candidates;
+        this.stack = stackPool[Math.floor(this.random.next() * stackPool.length)];
+        this.combinationBase = null;
+        this.currentVariation = GameVariation.STACKED;
+      } else if (available.includes(GameVariation.REVERSE_COMBINATION)) {
         // Combination mode: pick random variation 2-5 to combine with Reverse
-        const baseVariations = [
-          GameVariation.GHOST,
-          GameVariation.SPEED_CHAOS,
-          GameVariation.COLOR_SHUFFLE,
-          GameVariation.SELECTIVE_ATTENTION
-        ];
+        const baseVariations = this.getCombinationBases();
         
         // Filter out the previous combination base if applicable
         const filtered = this.combinationBase 
           ? baseVariations.filter(v => v !== this.combinationBase)
           : baseVariations;
         
-        this.combinationBase = filtered[Math.floor(Math.random() * filtered.length)];
+        // Only one base enabled: it has to repeat
+        const basePool = filtered.length > 0 ? filtered : baseVariations;
+        this.combinationBase = basePool[Math.floor(this.random.next() * basePool.length)];
+        this.stack = [];
         this.currentVariation = GameVariation.REVERSE_COMBINATION;
       } else {
         // Regular mode: pick from available pool, avoiding previous
@@ -59,7 +196,9 @@ export class VariationManager {
         
         // If all variations were filtered out (shouldn't happen), use all available
         const pool = filtered.length > 0 ? filtered : available;
-        this.currentVariation = pool[Math.floor(Math.random() * pool.length)];
+        this.combinationBase = null;
+        this.stack = [];
+        this.currentVariation = pool[Math.floor(this.random.next() * pool.length)];
       }
       
       this.previousVariation = this.currentVariation;
@@ -75,25 +214,115 @@ export class VariationManager {
     return this.combinationBase;
   }
 
+  /**
+   * Variations stacked in the current round, empty outside stacked mode
+   */
+  getStack(): GameVariation[] {
+    return [...this.stack];
+  }
+
+  /**
+   * Gameplay rule of a variation, from its registered definition
+   */
+  getRule(variation: GameVariation): VariationDefinition {
+    return getVariation(variation);
+  }
+
+  /**
+   * Rules in the order they apply: the underlying variations (a combination
+   * base, or a stack) before the variation itself
+   */
+  private getActiveRules(variation: GameVariation, underlying: GameVariation[]): VariationDefinition[] {
+    return [...underlying, variation].map(v => this.getRule(v));
+  }
+
   /**
    * Get expected input pattern based on variation
    */
-  getExpectedInput(pattern: GemstoneType[], variation: GameVariation): GemstoneType[] {
-    if (variation === GameVariation.REVERSE || variation === GameVariation.REVERSE_COMBINATION) {
-      return [...pattern].reverse();
-    }
-    return pattern;
+  getExpectedInput(
+    pattern: GemstoneType[],
+    variation: GameVariation,
+    effects: VariationEffects = createEmptyEffects(),
+    underlying: GameVariation[] = []
+  ): GemstoneType[] {
+    return this.getActiveRules(variation, underlying)
+      .reduce((sequence, rule) => rule.expectedSequence(sequence, effects), pattern);
+  }
+
+  /**
+   * Gems to light up, in order, when showing the pattern
+   */
+  getDisplaySequence(
+    pattern: GemstoneType[],
+    variation: GameVariation,
+    underlying: GameVariation[] = []
+  ): GemstoneType[] {
+    return this.getActiveRules(variation, underlying)
+      .reduce((sequence, rule) => rule.displaySequence(sequence), pattern);
+  }
+
+  /**
+   * Gem a press counts as under the variation
+   */
+  resolveInput(gem: GemstoneType, variation: GameVariation, underlying: GameVariation[] = []): GemstoneType {
+    return this.getActiveRules(variation, underlying)
+      .reduce((resolved, rule) => rule.transformInput(resolved), gem);
+  }
+
+  /**
+   * Gems to press, in order, to enter the expected input. Each is the gem
+   * that resolves to the expected one, so under Mirror the left and right
+   * gems trade places.
+   */
+  getRequiredInput(
+    pattern: GemstoneType[],
+    variation: GameVariation,
+    effects: VariationEffects = createEmptyEffects(),
+    underlying: GameVariation[] = []
+  ): GemstoneType[] {
+    return this.getExpectedInput(pattern, variation, effects, underlying).map(expected =>
+      Object.values(GemstoneType).find(gem => this.resolveInput(gem, variation, underlying) === expected) ?? expected
+    );
   }
 
   /**
    * Validate input against pattern with variation rules
    */
-  validateInput(input: GemstoneType[], pattern: GemstoneType[], variation: GameVariation): boolean {
-    const expected = this.getExpectedInput(pattern, variation);
+  validateInput(
+    input: GemstoneType[],
+    pattern: GemstoneType[],
+    variation: GameVariation,
+    effects: VariationEffects = createEmptyEffects(),
+    underlying: GameVariation[] = []
+  ): boolean {
+    const expected = this.getExpectedInput(pattern, variation, effects, underlying);
     
     if (input.length !== expected.length) return false;
     
-    return input.every((gem, index) => gem === expected[index]);
+    return input.every((gem, index) => this.resolveInput(gem, variation, underlying) === expected[index]);
+  }
+
+  /**
+   * Roll the display effects of the active variations for a round
+   */
+  rollEffects(
+    variations: GameVariation[],
+    pattern: GemstoneType[],
+    round: number,
+    displayTimeMultiplier: number = 1
+  ): VariationEffects {
+    const effects = createEmptyEffects();
+    variations.forEach(variation => {
+      const rolled = this.getRule(variation).rollEffects?.({
+        pattern,
+        round,
+        random: this.random,
+        manager: this,
+        displayTimeMultiplier
+      });
+      Object.assign(effects, rolled);
+    });
+    return effects;
   }
 
   /**
@@ -101,7 +330,7 @@ export class VariationManager {
    */
   getGhostIndices(pattern: GemstoneType[], round: number): { indices: number[] } {
     // One random gem becomes a ghost
-    const ghostIndex = Math.floor(Math.random() * pattern.length);
+    const ghostIndex = Math.floor(this.random.next() * pattern.length);
     return { indices: [ghostIndex] };
   }
 
@@ -109,34 +338,17 @@ export class VariationManager {
    * Get ghost opacity based on round
    */
   getGhostOpacity(round: number): number {
-    if (round >= 17) return 0.2; // Combination mode
-    if (round === 4) return 0.3;
-    if (round === 3) return 0.35;
-    return 0.4; // Round 2
+    return valueForRound(this.schedule.ghostOpacity, round);
   }
 
   /**
    * Get random timings for Speed Chaos variation
    */
   getChaosTimings(pattern: GemstoneType[], round: number): number[] {
-    let minTime: number, maxTime: number;
-    
-    if (round >= 17) {
-      minTime = 150;
-      maxTime = 1200;
-    } else if (round === 10) {
-      minTime = 200;
-      maxTime = 1000;
-    } else if (round === 9) {
-      minTime = 250;
-      maxTime = 950;
-    } else {
-      minTime = 300;
-      maxTime = 900;
-    }
-    
+    const { min: minTime, max: maxTime } = valueForRound(this.schedule.chaosTimings, round);
+
     return pattern.map(() => 
-      Math.floor(Math.random() * (maxTime - minTime + 1)) + minTime
+      Math.floor(this.random.next() * (maxTime - minTime + 1)) + minTime
     );
   }
 
@@ -156,7 +368,7 @@ export class VariationManager {
     
     // Fisher-Yates shuffle
     for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
+      const j = Math.floor(this.random.next() * (i + 1));
       [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
     }
     
@@ -173,18 +385,7 @@ export class VariationManager {
    * Get indices of "shining" gems for Selective Attention variation
    */
   getShiningIndices(pattern: GemstoneType[], round: number): number[] {
-    let percentage: number;
-    
-    if (round >= 17) {
-      percentage = 0.3; // Combination mode: 30%
-    } else if (round === 7) {
-      percentage = 0.4;
-    } else if (round === 6) {
-      percentage = 0.5;
-    } else {
-      percentage = 0.6; // Round 5
-    }
-    
+    const percentage = valueForRound(this.schedule.shiningPercentage, round);
     const count = Math.max(1, Math.round(pattern.length * percentage));
     
     // Create array of all indices
@@ -192,7 +393,7 @@ export class VariationManager {
     
     // Shuffle and take first 'count' indices
     for (let i = allIndices.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
+      const j = Math.floor(this.random.next() * (i + 1));
       [allIndices[i], allIndices[j]] = [allIndices[j], allIndices[i]];
     }
     
@@ -215,11 +416,12 @@ export class VariationManager {
     // Rounds 5-7: GHOST or REVERSE (difficulty 1, 2, 3)
     // etc.
     
-    // Calculate which 3-round block we're in (starting from round 2)
-    if (round === 1) return 1;
+    // Calculate which variation block we're in (starting from the first variation round)
+    const { firstRound, roundsPerVariation } = this.schedule;
+    if (round < firstRound) return 1;
     
-    // Find position within current 3-round block
-    const blockPosition = ((round - 2) % 3) + 1; // Will be 1, 2, or 3
+    // Find position within current block
+    const blockPosition = ((round - firstRound) % roundsPerVariation) + 1; // 1, 2, 3 by default
     return Math.min(3, blockPosition);
   }
 
@@ -237,6 +439,33 @@ export class VariationManager {
     this.tutorialsShown.add(variation);
   }
 
+  /**
+   * Seed of the random source driving variation selection and effects
+   */
+  getSeed(): number {
+    return this.random.getSeed();
+  }
+
+  public toSnapshot(): VariationManagerSnapshot {
+    return {
+      currentVariation: this.currentVariation,
+      previousVariation: this.previousVariation,
+      combinationBase: this.combinationBase,
+      stack: [...this.stack],
+      tutorialsShown: Array.from(this.tutorialsShown),
+      variationStartRound: this.variationStartRound
+    };
+  }
+
+  public applySnapshot(snapshot: VariationManagerSnapshot): void {
+    this.currentVariation = snapshot.currentVariation;
+    this.previousVariation = snapshot.previousVariation;
+    this.combinationBase = snapshot.combinationBase;
+    this.stack = [...(snapshot.stack ?? [])];
+    this.tutorialsShown = new Set(snapshot.tutorialsShown);
+    this.variationStartRound = snapshot.variationStartRound;
+  }
+
   /**
    * Reset the manager state
    */
@@ -244,6 +473,7 @@ export class VariationManager {
     this.currentVariation = null;
     this.previousVariation = null;
     this.combinationBase = null;
+    this.stack = [];
     this.tutorialsShown.clear();
     this.variationStartRound = 0;
   }
@@ -0,0 +1,45 @@
+import { GameVariation } from '../game/types';
+import type { PluginVariationDefinition, VariationDefinition } from './types';
+import { BUILT_IN_VARIATIONS } from './builtin';
+
+const variations = new Map<GameVariation, VariationDefinition>(
+  BUILT_IN_VARIATIONS.map(definition => [definition.id, definition])
+);
+
+/**
+ * Add a variation, or replace the one with the same id
+ */
+export const registerVariation = (definition: VariationDefinition): void => {
+  variations.set(definition.id, definition);
+};
+
+/**
+ * Remove a registered variation. Built-ins stay.
+ */
+export const unregisterVariation = (id: GameVariation): boolean => {
+  if (BUILT_IN_VARIATIONS.some(definition => definition.id === id)) return false;
+  return variations.delete(id);
+};
+
+/**
+ * Definition of a variation, falling back to the plain pattern for
+ * unknown ids
+ */
+export const getVariation = (id: GameVariation): VariationDefinition =>
+  variations.get(id) ?? variations.get(GameVariation.NONE)!;
+
+export const isRegisteredVariation = (id: unknown): id is GameVariation =>
+  typeof id === 'string' && variations.has(id);
+
+/**
+ * Ids of every registered variation, built-ins first
+ */
+export const getRegisteredVariations = (): GameVariation[] => Array.from(variations.keys());
+
+/**
+ * Registered variations with their own unlock round
+ */
+export const getPluginVariations = (): PluginVariationDefinition[] =>
+  Array.from(variations.values()).filter(
+    (definition): definition is PluginVariationDefinition => definition.unlockRound !== undefined
+  );
@@ -0,0 +1,13 @@
+import { GameVariation } from '../../game/types';
+import { plainRule } from '../types';
+import type { VariationDefinition } from '../types';
+
+export const colorShuffleVariation: VariationDefinition = {
+  ...plainRule('color_shuffle'),
+  id: GameVariation.COLOR_SHUFFLE,
+  name: 'Color Shuffle',
+  tutorial: 'The colors are now wrong! Remember the Gems!',
+  rollEffects: ({ manager }) => ({
+    colorMap: manager.getShuffledColors()
+  })
+};
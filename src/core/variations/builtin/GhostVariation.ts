@@ -0,0 +1,15 @@
+import { GameVariation } from '../../game/types';
+import { plainRule } from '../types';
+import type { VariationDefinition } from '../types';
+
+export const ghostVariation: VariationDefinition = {
+  ...plainRule('ghost'),
+  id: GameVariation.GHOST,
+  name: 'Ghost',
+  tutorial: 'Some Gems are fainter than usual',
+  // Both dim gems; stacked, a faded shining gem would be unreadable
+  conflictsWith: [GameVariation.SELECTIVE_ATTENTION],
+  rollEffects: ({ pattern, round, manager }) => ({
+    ghostIndices: manager.getGhostIndices(pattern, round).indices
+  })
+};
@@ -0,0 +1,26 @@
+import { GameVariation, GemstoneType } from '../../game/types';
+import { GEMSTONES } from '../../game/constants';
+import { plainRule } from '../types';
+import type { VariationDefinition } from '../types';
+
+/**
+ * Gem on the other side of the board, left and right swapped.
+ * Gems on the vertical axis mirror onto themselves.
+ */
+const mirrorGem = (gem: GemstoneType): GemstoneType => {
+  const { x, y } = GEMSTONES[gem].position;
+  return Object.values(GemstoneType).find(candidate =>
+    GEMSTONES[candidate].position.x === -x && GEMSTONES[candidate].position.y === y
+  ) ?? gem;
+};
+
+/**
+ * The pattern is shown as is, but each gem is entered on its mirror image
+ */
+export const mirrorVariation: VariationDefinition = {
+  ...plainRule('mirror'),
+  id: GameVariation.MIRROR,
+  name: 'Mirror',
+  tutorial: 'Mirror. Left is right and right is left!',
+  transformInput: mirrorGem
+};
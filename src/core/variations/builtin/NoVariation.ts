@@ -0,0 +1,10 @@
+import { GameVariation } from '../../game/types';
+import { plainRule } from '../types';
+import type { VariationDefinition } from '../types';
+
+export const noVariation: VariationDefinition = {
+  ...plainRule('none'),
+  id: GameVariation.NONE,
+  name: 'None',
+  tutorial: 'Repeat the pattern'
+};
@@ -0,0 +1,14 @@
+import { GameVariation } from '../../game/types';
+import { plainRule } from '../types';
+import type { VariationDefinition } from '../types';
+
+/**
+ * Reverse on top of a base variation, whose rule and display effects apply first
+ */
+export const reverseCombinationVariation: VariationDefinition = {
+  ...plainRule('reverse_combo'),
+  id: GameVariation.REVERSE_COMBINATION,
+  name: 'Reverse Combo',
+  tutorial: 'Reverse Combo. Remember to do it in Reverse!',
+  expectedSequence: pattern => [...pattern].reverse()
+};
@@ -0,0 +1,11 @@
+import { GameVariation } from '../../game/types';
+import { plainRule } from '../types';
+import type { VariationDefinition } from '../types';
+
+export const reverseVariation: VariationDefinition = {
+  ...plainRule('reverse'),
+  id: GameVariation.REVERSE,
+  name: 'Reverse',
+  tutorial: 'Enter the pattern in reverse',
+  expectedSequence: pattern => [...pattern].reverse()
+};
@@ -0,0 +1,16 @@
+import { GameVariation } from '../../game/types';
+import { plainRule } from '../types';
+import type { VariationDefinition } from '../types';
+
+export const selectiveAttentionVariation: VariationDefinition = {
+  ...plainRule('selective'),
+  id: GameVariation.SELECTIVE_ATTENTION,
+  name: 'Selective Attention',
+  tutorial: 'Life is not Monochrome',
+  // Only the shining gems are entered; without rolled effects the whole pattern is
+  expectedSequence: (pattern, { shiningIndices }) =>
+    shiningIndices.length > 0 ? shiningIndices.map(index => pattern[index]) : pattern,
+  rollEffects: ({ pattern, round, manager }) => ({
+    shiningIndices: manager.getShiningIndices(pattern, round)
+  })
+};
@@ -0,0 +1,15 @@
+import { GameVariation } from '../../game/types';
+import { plainRule } from '../types';
+import type { VariationDefinition } from '../types';
+
+export const speedChaosVariation: VariationDefinition = {
+  ...plainRule('speed_chaos'),
+  id: GameVariation.SPEED_CHAOS,
+  name: 'Speed Chaos',
+  tutorial: 'Something is wierd about the gems...',
+  rollEffects: ({ pattern, round, manager, displayTimeMultiplier }) => ({
+    chaosTimings: manager
+      .getChaosTimings(pattern, round)
+      .map(timing => Math.round(timing * displayTimeMultiplier))
+  })
+};
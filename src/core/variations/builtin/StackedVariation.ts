@@ -0,0 +1,14 @@
+import { GameVariation } from '../../game/types';
+import { plainRule } from '../types';
+import type { VariationDefinition } from '../types';
+
+/**
+ * Several variations at once. The stacked variations' rules and effects
+ * apply in stack order; the bonus is their bonuses multiplied.
+ */
+export const stackedVariation: VariationDefinition = {
+  ...plainRule('none'),
+  id: GameVariation.STACKED,
+  name: 'Stacked',
+  tutorial: 'Stacked. Several variations at once!'
+};
@@ -0,0 +1,25 @@
+import type { VariationDefinition } from '../types';
+import { noVariation } from './NoVariation';
+import { reverseVariation } from './ReverseVariation';
+import { ghostVariation } from './GhostVariation';
+import { speedChaosVariation } from './SpeedChaosVariation';
+import { colorShuffleVariation } from './ColorShuffleVariation';
+import { selectiveAttentionVariation } from './SelectiveAttentionVariation';
+import { mirrorVariation } from './MirrorVariation';
+import { reverseCombinationVariation } from './ReverseCombinationVariation';
+import { stackedVariation } from './StackedVariation';
+
+/**
+ * Variations that ship with the game, in GameVariation order
+ */
+export const BUILT_IN_VARIATIONS: VariationDefinition[] = [
+  noVariation,
+  reverseVariation,
+  ghostVariation,
+  speedChaosVariation,
+  colorShuffleVariation,
+  selectiveAttentionVariation,
+  mirrorVariation,
+  reverseCombinationVariation,
+  stackedVariation
+];
@@ -0,0 +1,84 @@
+import type { GameVariation, GemstoneType, RandomSource, VariationEffects } from '../game/types';
+import type { VariationManager } from './VariationManager';
+
+/**
+ * What a round's display effects are rolled from
+ */
+export interface VariationEffectContext {
+  pattern: GemstoneType[];
+  round: number;
+  /** Seeded source for any random draw, so a seed replays the same effects */
+  random: RandomSource;
+  manager: VariationManager;
+  /** Pattern display time multiplier of the active difficulty */
+  displayTimeMultiplier: number;
+}
+
+/**
+ * How a variation changes what is shown, what must be entered and what it
+ * pays. The engine, the click handler and the pattern display all read the
+ * rule, so a variation's gameplay lives in one place.
+ */
+export interface VariationRule {
+  /** Gems the player must enter, in order */
+  expectedSequence: (pattern: GemstoneType[], effects: VariationEffects) => GemstoneType[];
+  /** Gems lit up during pattern display, in order */
+  displaySequence: (pattern: GemstoneType[]) => GemstoneType[];
+  /** Gem a press counts as, before it is checked against the expected sequence */
+  transformInput: (gem: GemstoneType) => GemstoneType;
+  /** Reward multiplier under variation_bonuses in ticket_config.yml */
+  rewardKey: string;
+}
+
+/**
+ * A self-contained variation: everything the engine, economy and UI need
+ * to know about it
+ */
+export interface VariationDefinition extends VariationRule {
+  id: GameVariation;
+  /** Short name for settings and statistics */
+  name: string;
+  /** Shown on the variation intro and as the hint while it is active */
+  tutorial: string;
+  /**
+   * Joins the random pool from this round. Built-ins leave it out and are
+   * placed by the unlock schedule in game_config.yml instead.
+   */
+  unlockRound?: number;
+  /** With unlockRound, also a Reverse Combo base and a stack member in the later modes */
+  combinable?: boolean;
+  /** Variations it cannot be stacked with; the conflict applies both ways */
+  conflictsWith?: GameVariation[];
+  /**
+   * Display effects rolled when a round under the variation starts. Only the
+   * fields of VariationEffects are drawn by the pattern display, so a
+   * variation can reuse ghosts, shining gems, chaos timings and color swaps
+   * but cannot add a display behaviour of its own.
+   */
+  rollEffects?: (context: VariationEffectContext) => Partial<VariationEffects>;
+}
+
+/**
+ * A registered variation that joins the pool on its own
+ */
+export type PluginVariationDefinition = VariationDefinition & { unlockRound: number };
+
+export const createEmptyEffects = (): VariationEffects => ({
+  ghostIndices: [],
+  shiningIndices: [],
+  chaosTimings: null,
+  colorMap: null
+});
+
+const identity = <T>(value: T): T => value;
+
+/**
+ * Rule fields of a variation that shows and takes the pattern as is,
+ * for definitions to spread and override
+ */
+export const plainRule = (rewardKey: string): VariationRule => ({
+  expectedSequence: identity,
+  displaySequence: identity,
+  transformInput: identity,
+  rewardKey
+});
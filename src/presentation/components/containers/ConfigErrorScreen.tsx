@@ -0,0 +1,44 @@
+import React from 'react';
+import { ConfigValidationError } from '@/utils/config-validator';
+
+interface ConfigErrorScreenProps {
+  error: Error;
+}
+
+export const ConfigErrorScreen: React.FC<ConfigErrorScreenProps> = ({ error }) => {
+  const validationError = error instanceof ConfigValidationError ? error : null;
+
+  return (
+    <div className="flex flex-col items-center justify-center relative z-20 w-full h-full p-4">
+      <div className="rounded-lg p-4 md:p-8 shadow-2xl w-full max-w-[520px] max-h-[90vh] overflow-y-auto" style={{ backgroundColor: 'rgba(245, 230, 207, 0.95)' }}>
+        <h1 className="text-2xl md:text-3xl font-bold text-center mb-4" style={{ color: '#DB5461' }}>
+          CONFIGURATION ERROR
+        </h1>
+        <p className="mb-4" style={{ color: '#4A4A4A' }}>
+          {validationError ? (
+            <>The game can't start because <span className="font-mono">{validationError.source}</span> has invalid settings.</>
+          ) : (
+            <>The game can't start because its configuration could not be loaded.</>
+          )}
+        </p>
+
+        {validationError ? (
+          <ul className="space-y-2 mb-4">
+            {validationError.issues.map(issue => (
+              <li key={`${issue.path}: ${issue.message}`} className="text-sm" style={{ color: '#2C2C2C' }}>
+                <span className="font-mono font-semibold" style={{ color: '#6461A0' }}>{issue.path}</span>
+                {' '}{issue.message}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm font-mono mb-4" style={{ color: '#2C2C2C' }}>{error.message}</p>
+        )}
+
+        <p className="text-sm" style={{ color: '#4A4A4A' }}>
+          Fix the file and reload the page.
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -6,17 +6,20 @@ interface GameFooterProps {
   ticketManager: TicketManager | null;
   round: number;
   currentVariation: GameVariation | null;
+  /** Variations stacked this round, each adding its bonus */
+  variationStack: GameVariation[];
 }
 
 export const GameFooter: React.FC<GameFooterProps> = ({
   ticketManager,
   round,
-  currentVariation
+  currentVariation,
+  variationStack
 }) => {
   return (
     <div className="bg-black/20 text-white flex items-center justify-center" style={{ height: '10vh' }}>
       <div className="text-center text-lg font-mono">
-        Current Round Reward: {ticketManager ? ticketManager.calculateReward(round, currentVariation || GameVariation.NONE).toFixed(2) : '0.00'}
+        Current Round Reward: {ticketManager ? ticketManager.calculateReward(round, currentVariation || GameVariation.NONE, variationStack).toFixed(2) : '0.00'}
       </div>
     </div>
   );
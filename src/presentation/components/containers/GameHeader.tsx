@@ -1,6 +1,7 @@
 import React from 'react';
 import { GameState, GameVariation } from '@/core/game/types';
 import { TicketManager } from '@/core/economy/TicketManager';
+import { PAUSABLE_STATES } from '@/core/game/GameStateMachine';
 import { cn } from '@/lib/utils';
 
 interface GameHeaderProps {
@@ -8,10 +9,14 @@ interface GameHeaderProps {
   round: number;
   totalEarned: number;
   currentVariation: GameVariation | null;
+  /** Variations stacked this round, each adding its bonus */
+  variationStack: GameVariation[];
   gameState: GameState;
   timeLeft: number;
   timerSeconds: number;
   getTimerState: (totalDuration: number) => 'normal' | 'warning' | 'critical';
+  isReplay?: boolean;
+  onPause?: () => void;
 }
 
 export const GameHeader: React.FC<GameHeaderProps> = ({
@@ -19,23 +24,36 @@ export const GameHeader: React.FC<GameHeaderProps> = ({
   round,
   totalEarned,
   currentVariation,
+  variationStack,
   gameState,
   timeLeft,
   timerSeconds,
-  getTimerState
+  getTimerState,
+  isReplay = false,
+  onPause
 }) => {
   return (
     <div className="bg-black/20 text-white px-6 flex flex-col justify-center" style={{ height: '20vh' }}>
       {/* Row 1: Balance and Round */}
       <div className="flex justify-between w-full text-lg font-mono">
         <div>Balance: {ticketManager ? ticketManager.getBalance().toFixed(2) : '0.00'}</div>
+        {isReplay && <div className="font-bold text-yellow-300">REPLAY</div>}
+        {onPause && PAUSABLE_STATES.includes(gameState) && (
+          <button
+            onClick={onPause}
+            className="px-3 rounded border border-white/60 text-sm hover:bg-white/20 transition-colors"
+            aria-label="Pause game"
+          >
+            PAUSE
+          </button>
+        )}
         <div>Round: {String(round).padStart(2, '0')}</div>
       </div>
       
       {/* Row 2: Earned and Next */}
       <div className="flex justify-between w-full text-lg font-mono mt-2">
         <div>Earned: {totalEarned.toFixed(2)}</div>
-        <div>Next: {ticketManager ? ticketManager.calculateReward(round, currentVariation || GameVariation.NONE).toFixed(2) : '0.00'}</div>
+        <div>Next: {ticketManager ? ticketManager.calculateReward(round, currentVariation || GameVariation.NONE, variationStack).toFixed(2) : '0.00'}</div>
       </div>
       
       {/* Timer Bar */}
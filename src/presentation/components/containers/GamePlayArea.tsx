@@ -1,35 +1,29 @@
 import React from 'react';
 import { GameState, GemstoneType, GameVariation } from '@/core/game/types';
 import { GameEngine } from '@/core/game/GameEngine';
+import { getVariation } from '@/core/variations/VariationRegistry';
 import { Gemstone } from '../game/Gemstone';
 import type { LayoutType } from '@/presentation/hooks';
 
 // Helper function to format variation names for display
-const formatVariationName = (variation: GameVariation | null): string => {
+const formatVariationName = (variation: GameVariation | null, stack: GameVariation[]): string => {
   if (!variation || variation === GameVariation.NONE) return '';
-  
-  switch(variation) {
-    case GameVariation.REVERSE:
-      return 'Enter the pattern in reverse';
-    case GameVariation.GHOST:
-      return 'Some Gems are fainter than usual';
-    case GameVariation.SPEED_CHAOS:
-      return 'Something is wierd about the gems...';
-    case GameVariation.COLOR_SHUFFLE:
-      return 'The colors are now wrong! Remember the Gems!';
-    case GameVariation.SELECTIVE_ATTENTION:
-      return 'Life is not Monochrome';
-    case GameVariation.REVERSE_COMBINATION:
-      return 'Reverse Combo. Remember to do it in Reverse!';
+  // A stack is described by what is in it
+  if (stack.length > 0) {
+    return `${stack.map(stacked => getVariation(stacked).name).join(' + ')} at once!`;
   }
+  return getVariation(variation).tutorial;
 };
 
 interface GamePlayAreaProps {
   gameState: GameState;
   currentVariation: GameVariation | null;
+  /** Variations stacked this round, empty outside stacked mode */
+  variationStack: GameVariation[];
   game: GameEngine;
   layout: LayoutType;
   pattern: GemstoneType[];
+  inputProgress: { entered: number; total: number };
   displayIndex: number;
   ghostIndices: number[];
   shiningIndices: number[];
@@ -41,9 +35,11 @@ interface GamePlayAreaProps {
 export const GamePlayArea: React.FC<GamePlayAreaProps> = ({
   gameState,
   currentVariation,
+  variationStack,
   game: _game, // Prefixed with _ to indicate it's intentionally unused
   layout,
   pattern,
+  inputProgress,
   displayIndex,
   ghostIndices,
   shiningIndices,
@@ -66,7 +62,7 @@ export const GamePlayArea: React.FC<GamePlayAreaProps> = ({
           {gameState === GameState.VARIATION_INTRO && (
             <div className="text-center bg-purple-900/30 backdrop-blur-sm rounded-xl p-3 border border-purple-500/30">
               <div className="text-lg font-bold text-purple-400">New Variation!</div>
-              <div className="text-sm text-purple-300 mt-1">{formatVariationName(currentVariation)}</div>
+              <div className="text-sm text-purple-300 mt-1">{formatVariationName(currentVariation, variationStack)}</div>
             </div>
           )}
           {gameState === GameState.PATTERN_DISPLAY && (
@@ -74,7 +70,7 @@ export const GamePlayArea: React.FC<GamePlayAreaProps> = ({
               <div className="text-lg font-bold text-blue-400">Watch the Pattern!</div>
               {currentVariation && currentVariation !== GameVariation.NONE && (
                 <div className="text-sm text-blue-300 mt-1">
-                  {formatVariationName(currentVariation)}
+                  {formatVariationName(currentVariation, variationStack)}
                 </div>
               )}
             </div>
@@ -84,9 +80,12 @@ export const GamePlayArea: React.FC<GamePlayAreaProps> = ({
               <div className="text-lg font-bold text-green-400">Your Turn!</div>
               <div className="text-sm text-green-300 mt-1">
                 {currentVariation && currentVariation !== GameVariation.NONE 
-                  ? formatVariationName(currentVariation)
+                  ? formatVariationName(currentVariation, variationStack)
                   : 'Repeat the pattern'}
               </div>
+              <div className="text-xs text-green-300 mt-1 font-mono">
+                {inputProgress.entered} / {inputProgress.total} gems
+              </div>
             </div>
           )}
         </div>
@@ -1,28 +1,56 @@
-import React from 'react';
+import React, { useRef } from 'react';
 import { GemstoneType } from '@/core/game/types';
 import { TicketManager } from '@/core/economy/TicketManager';
 import { Gemstone } from '../game/Gemstone';
+import { DifficultySelector } from '../game/DifficultySelector';
 import { cn } from '@/lib/utils';
 
 interface MenuContainerProps {
   ticketManager: TicketManager | null;
   menuGemSize: number;
   onStartGame: () => void;
+  onResumeRun?: () => void;
+  /** Round the saved run continues at */
+  savedRunRound?: number;
+  /** The saved run was left mid-round, which counts as a lost round */
+  savedRunInterrupted?: boolean;
   onShowHowToPlay: () => void;
   onShowSettings: () => void;
   onShowAbout: () => void;
+  onShowStatistics?: () => void;
   onResetTickets: () => void;
+  onLoadReplay?: (file: File) => void;
+  difficulty?: string | null;
+  onDifficultyChange?: (difficulty: string) => void;
 }
 
 export const MenuContainer: React.FC<MenuContainerProps> = ({
   ticketManager,
   menuGemSize,
   onStartGame,
+  onResumeRun,
+  savedRunRound,
+  savedRunInterrupted = false,
   onShowHowToPlay,
   onShowSettings,
   onShowAbout,
-  onResetTickets
+  onShowStatistics,
+  onResetTickets,
+  onLoadReplay,
+  difficulty = null,
+  onDifficultyChange
 }) => {
+  const replayInputRef = useRef<HTMLInputElement>(null);
+
+  const handleReplayFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file && onLoadReplay) {
+      onLoadReplay(file);
+    }
+    // Allow the same file to be picked again
+    e.target.value = '';
+  };
+
   return (
     <div className="flex flex-col items-center justify-center relative z-20 w-full h-full p-4">
       <div className="rounded-lg p-4 md:p-8 shadow-2xl w-full max-w-[400px] max-h-[90vh] overflow-y-auto" style={{ backgroundColor: 'rgba(245, 230, 207, 0.95)' }}>
@@ -46,6 +74,25 @@ export const MenuContainer: React.FC<MenuContainerProps> = ({
 
         {/* Menu Buttons */}
         <div className="space-y-2 md:space-y-4 flex flex-col items-center">
+          {/* Resume Run Button */}
+          {onResumeRun && (
+            <div className="text-center w-full">
+              <button
+                onClick={onResumeRun}
+                className="w-3/4 md:w-1/2 px-4 md:px-6 py-2 md:py-3 rounded-lg font-bold text-base md:text-lg border-2 play-button-pulse"
+              >
+                RESUME RUN
+              </button>
+              {savedRunRound !== undefined && (
+                <p className="text-sm mt-2" style={{ color: '#4A4A4A' }}>
+                  {savedRunInterrupted
+                    ? `Round ${savedRunRound} was interrupted and counts as lost`
+                    : `Continues at round ${savedRunRound}, no cost`}
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Play Game Button */}
           <div className="text-center w-full">
             <button
@@ -65,6 +112,16 @@ export const MenuContainer: React.FC<MenuContainerProps> = ({
                 Cost: {ticketManager.getGameCost().toFixed(2)} tickets
               </p>
             )}
+            {ticketManager && onDifficultyChange && (
+              <div className="mt-2">
+                <DifficultySelector
+                  ticketManager={ticketManager}
+                  difficulty={difficulty}
+                  onChange={onDifficultyChange}
+                  showDescription={false}
+                />
+              </div>
+            )}
           </div>
 
           {/* How to Play Button */}
@@ -83,6 +140,16 @@ export const MenuContainer: React.FC<MenuContainerProps> = ({
             SETTINGS
           </button>
 
+          {/* Statistics Button */}
+          {onShowStatistics && (
+            <button
+              onClick={onShowStatistics}
+              className="w-3/4 md:w-1/2 px-4 md:px-6 py-2 md:py-3 rounded-lg font-bold text-base md:text-lg border-2 border-gray-600 text-gray-600 hover:bg-gray-600 hover:text-white transition-all hover:scale-[1.02]"
+            >
+              STATISTICS
+            </button>
+          )}
+
           {/* About Button */}
           <button
             onClick={onShowAbout}
@@ -90,6 +157,25 @@ export const MenuContainer: React.FC<MenuContainerProps> = ({
           >
             ABOUT
           </button>
+
+          {/* Load Replay Button */}
+          {onLoadReplay && (
+            <>
+              <button
+                onClick={() => replayInputRef.current?.click()}
+                className="w-3/4 md:w-1/2 px-4 md:px-6 py-2 md:py-3 rounded-lg font-bold text-base md:text-lg border-2 border-gray-600 text-gray-600 hover:bg-gray-600 hover:text-white transition-all hover:scale-[1.02]"
+              >
+                LOAD REPLAY
+              </button>
+              <input
+                ref={replayInputRef}
+                type="file"
+                accept="application/json,.json"
+                onChange={handleReplayFile}
+                className="hidden"
+              />
+            </>
+          )}
         </div>
 
         {/* Balance Section */}
@@ -1,4 +1,5 @@
 export { MenuContainer } from './MenuContainer';
 export { GameHeader } from './GameHeader';
 export { GamePlayArea } from './GamePlayArea';
-export { GameFooter } from './GameFooter';
\ No newline at end of file
+export { GameFooter } from './GameFooter';
+export { ConfigErrorScreen } from './ConfigErrorScreen';
\ No newline at end of file
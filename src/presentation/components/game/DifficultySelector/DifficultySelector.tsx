@@ -0,0 +1,48 @@
+import React from 'react';
+import { TicketManager } from '@/core/economy/TicketManager';
+import { cn } from '@/lib/utils';
+
+interface DifficultySelectorProps {
+  ticketManager: TicketManager | null;
+  difficulty: string | null;
+  onChange: (difficulty: string) => void;
+  showDescription?: boolean;
+}
+
+export const DifficultySelector: React.FC<DifficultySelectorProps> = ({
+  ticketManager,
+  difficulty,
+  onChange,
+  showDescription = true
+}) => {
+  if (!ticketManager) return null;
+
+  const settings = ticketManager.getConfig().difficulty_settings;
+  const selected = difficulty ? settings[difficulty] : undefined;
+
+  return (
+    <div className="w-full">
+      <div className="flex justify-center gap-2">
+        {Object.entries(settings).map(([key, setting]) => (
+          <button
+            key={key}
+            onClick={() => onChange(key)}
+            className={cn(
+              "px-3 py-1.5 rounded-lg font-semibold text-sm border-2 transition-colors",
+              key === difficulty
+                ? "border-gray-600 bg-gray-600 text-white"
+                : "border-gray-500 text-gray-600 hover:bg-gray-600 hover:text-white"
+            )}
+          >
+            {setting.name}
+          </button>
+        ))}
+      </div>
+      {showDescription && selected && (
+        <p className="text-xs text-center mt-2" style={{ color: '#4A4A4A' }}>
+          {selected.description} ({selected.reward_multiplier.toFixed(2)}x rewards)
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { DifficultySelector } from './DifficultySelector';
\ No newline at end of file
@@ -1,14 +1,22 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { GameState, GemstoneType } from '@/core/game/types';
+import { GAME_CONFIG } from '@/core/game/constants';
+import { parseReplay, serializeReplay } from '@/core/replay/ReplayRecorder';
+import type { Replay } from '@/core/replay/types';
 import { 
   AboutModal, 
   HowToPlayModal, 
   SettingsModal, 
+  StatisticsModal,
   GameOverModal, 
-  RoundCompleteOverlay 
+  VictoryModal,
+  PauseOverlay,
+  RoundCompleteOverlay,
+  ReplayErrorModal
 } from '../../modals';
 import { 
   MenuContainer,
+  ConfigErrorScreen,
   GameHeader,
   GamePlayArea,
   GameFooter
@@ -17,80 +25,133 @@ import {
   useResponsiveLayout,
   useGameEngine,
   useTicketManager,
+  useGameConfig,
   useGameTimer,
   useVariationEffects,
   usePatternDisplay,
   useGemClickHandler,
   useMenuGemSize,
-  useGameSounds
+  useGameSounds,
+  useReplayPlayback,
+  useGameInput
 } from '@/presentation/hooks';
 
 export const GameBoard: React.FC = () => {
   // Custom hooks
   const layout = useResponsiveLayout();
-  const { ticketManager, resetTickets } = useTicketManager();
+  const {
+    ticketManager,
+    configError: ticketConfigError,
+    resetTickets,
+    difficulty,
+    setDifficulty,
+    disabledVariations,
+    setVariationEnabled
+  } = useTicketManager();
+  const { gameConfig, configError: gameConfigError } = useGameConfig();
+  const configError = ticketConfigError ?? gameConfigError;
   const { 
     game, 
     gameState, 
     round, 
     pattern, 
+    inputProgress,
     totalEarned,
+    failureReason,
+    forfeited,
+    savedRun,
     startGame: startGameBase,
     continueToNextRound,
+    resumeRun: resumeRunBase,
+    cashOut,
+    abandonRun,
     handleGemClick: handleGemClickBase,
-    resetGame: resetGameBase,
-    updateGameState
-  } = useGameEngine(ticketManager);
-  const { timeLeft, startTimer, getTimerState } = useGameTimer();
+    resetGame: resetGameBase
+  } = useGameEngine(ticketManager, gameConfig);
+  const { timeLeft, startTimer, pauseTimer, resumeTimer, getTimerState } = useGameTimer();
   const {
     ghostIndices,
     shiningIndices,
     colorMap,
-    chaosTimings,
     applyVariationEffects,
     resetEffects,
     setColorMap
   } = useVariationEffects();
-  const { displayIndex, canInput, displayPattern: displayPatternBase, resetDisplay } = usePatternDisplay();
-  const { handleGemClick: handleGemClickWrapper } = useGemClickHandler();
+  const {
+    displayIndex,
+    canInput,
+    displayPattern: displayPatternBase,
+    pauseDisplay,
+    resumeDisplay,
+    resetDisplay
+  } = usePatternDisplay();
+  const { handleGemClick: handleGemClickWrapper, cancelPendingAdvance } = useGemClickHandler();
   const menuGemSize = useMenuGemSize();
   const { playGemSound, startBackgroundMusic, stopBackgroundMusic, getIsMusicPlaying } = useGameSounds();
+  const { isReplaying, startReplay, scheduleRoundInputs, stopReplay, cashesOutBefore } = useReplayPlayback();
   
   // Component state
   const [showHowToPlay, setShowHowToPlay] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [showAbout, setShowAbout] = useState(false);
+  const [showStatistics, setShowStatistics] = useState(false);
+  const [activeReplay, setActiveReplay] = useState<Replay | null>(null);
+  const [replayError, setReplayError] = useState<Error | null>(null);
+  const replayInputRef = useRef<(gemType: GemstoneType) => void>(() => {});
+  const introTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Keep music playing as long as we're not on the main menu
   // Music continues during game over screen
 
 
 
-  const handleTimeout = useCallback(() => {
-    game.handlePlayerInput(GemstoneType.EMERALD); // Force fail
-    updateGameState();
-  }, [game, updateGameState]);
+  const handleReplayTimeout = useCallback(() => {
+    game.timeout();
+  }, [game]);
 
+  // The engine owns the deadline; during a replay the recorded timeout fails the round instead
   const startTimerWithTimeout = useCallback(() => {
-    const timerDuration = game.getTimerSeconds();
-    startTimer(timerDuration, handleTimeout);
-  }, [game, startTimer, handleTimeout]);
+    startTimer(game);
+  }, [game, startTimer]);
 
   const displayPattern = useCallback(() => {
     displayPatternBase(
       game,
-      round,
       applyVariationEffects,
       setColorMap,
-      chaosTimings,
       () => {
-        game.startPlayerInput();
-        updateGameState();
+        // The run may have been reset or paused meanwhile
+        if (!game.startPlayerInput()) return;
+        if (game.isPlayback()) {
+          scheduleRoundInputs(
+            game.getRound(),
+            (gemType) => replayInputRef.current(gemType),
+            handleReplayTimeout
+          );
+        }
         startTimerWithTimeout();
       },
       playGemSound // Pass the sound playing function
     );
-  }, [game, round, applyVariationEffects, setColorMap, chaosTimings, displayPatternBase, updateGameState, startTimerWithTimeout, playGemSound]);
+  }, [game, applyVariationEffects, setColorMap, displayPatternBase, startTimerWithTimeout, playGemSound, scheduleRoundInputs, handleReplayTimeout]);
+
+  const clearVariationIntro = useCallback(() => {
+    if (introTimeoutRef.current) {
+      clearTimeout(introTimeoutRef.current);
+      introTimeoutRef.current = null;
+    }
+  }, []);
+
+  // Show variation intro for 3 seconds, then start pattern display
+  const playVariationIntro = useCallback(() => {
+    clearVariationIntro();
+    introTimeoutRef.current = setTimeout(() => {
+      introTimeoutRef.current = null;
+      if (game.startPatternDisplay()) {
+        displayPattern();
+      }
+    }, 3000);
+  }, [game, displayPattern, clearVariationIntro]);
 
   const startGame = useCallback(async () => {
     startGameBase();
@@ -106,14 +167,9 @@ export const GameBoard: React.FC = () => {
         currentState === GameState.PATTERN_DISPLAY) {
       displayPattern();
     } else if (currentState === GameState.VARIATION_INTRO) {
-      // Show variation intro for 3 seconds, then start pattern display
-      setTimeout(() => {
-        game.startPatternDisplay();
-        updateGameState();
-        displayPattern();
-      }, 3000);
+      playVariationIntro();
     }
-  }, [game, startGameBase, updateGameState, startBackgroundMusic, getIsMusicPlaying, displayPattern]);
+  }, [game, startGameBase, startBackgroundMusic, getIsMusicPlaying, displayPattern, playVariationIntro]);
 
   const continueNextRound = useCallback(() => {
     continueToNextRound();
@@ -124,46 +180,172 @@ export const GameBoard: React.FC = () => {
         currentState === GameState.PATTERN_DISPLAY) {
       displayPattern();
     } else if (currentState === GameState.VARIATION_INTRO) {
-      // Show variation intro for 3 seconds, then start pattern display
-      setTimeout(() => {
-        game.startPatternDisplay();
-        updateGameState();
-        displayPattern();
-      }, 3000);
+      playVariationIntro();
     }
-  }, [game, continueToNextRound, updateGameState, displayPattern]);
+  }, [game, continueToNextRound, displayPattern, playVariationIntro]);
+
+  // A saved run picks up at its next round, already paid for. One left
+  // mid-round ends there, on the game over screen.
+  const resumeRun = useCallback(async () => {
+    if (!resumeRunBase() || game.getState() !== GameState.ROUND_COMPLETE) return;
+
+    if (!getIsMusicPlaying()) {
+      await startBackgroundMusic();
+    }
+
+    continueNextRound();
+  }, [game, resumeRunBase, getIsMusicPlaying, startBackgroundMusic, continueNextRound]);
+
+  const processGemInput = useCallback((gemType: GemstoneType, inputAllowed: boolean, fromReplay = false) => {
+    // Only a gem the game takes makes a sound, not one pressed on the menu
+    // or while the pattern plays
+    if (inputAllowed) playGemSound(gemType);
 
-  const handleGemClick = useCallback((gemType: GemstoneType) => {
-    // Play sound when gem is clicked
-    playGemSound(gemType);
-    
     handleGemClickWrapper(
       gemType,
       game,
-      canInput,
+      inputAllowed,
       handleGemClickBase,
       (value) => { /* setCanInput is managed by usePatternDisplay hook */ },
       () => { // onRoundComplete
-        // Update state first to capture ROUND_COMPLETE and award tickets
-        updateGameState();
-        // Then continue to the next round without charging tickets
+        // With cash-out the player decides on the round complete overlay;
+        // replays follow the recorded decision
+        if (game.getTicketManager()?.isCashOutEnabled()) {
+          if (!isReplaying) return;
+          if (cashesOutBefore(game.getRound())) {
+            cashOut();
+            return;
+          }
+        }
+        // Continue to the next round without charging tickets
         continueNextRound();
       },
       () => { // onVariationIntro
-        game.startPatternDisplay();
-        updateGameState();
-        displayPattern();
-      }
+        if (game.startPatternDisplay()) {
+          displayPattern();
+        }
+      },
+      fromReplay
     );
-  }, [game, canInput, handleGemClickBase, handleGemClickWrapper, continueNextRound, updateGameState, displayPattern, playGemSound]);
+  }, [game, isReplaying, handleGemClickBase, handleGemClickWrapper, continueNextRound, cashOut, cashesOutBefore, displayPattern, playGemSound]);
+
+  // Recorded inputs are replayed as if the player had clicked, minus the debounce
+  useEffect(() => {
+    replayInputRef.current = (gemType: GemstoneType) => processGemInput(gemType, true, true);
+  }, [processGemInput]);
+
+  const handleGemClick = useCallback((gemType: GemstoneType) => {
+    if (isReplaying) return;
+    // Pausing keeps canInput for the resume, but the engine takes nothing meanwhile
+    processGemInput(gemType, canInput && gameState !== GameState.PAUSED);
+  }, [isReplaying, processGemInput, canInput, gameState]);
+
+  const pauseGame = useCallback(() => {
+    if (isReplaying || !game.pause()) return;
+    clearVariationIntro();
+    cancelPendingAdvance();
+    pauseDisplay();
+    pauseTimer();
+  }, [game, isReplaying, clearVariationIntro, cancelPendingAdvance, pauseDisplay, pauseTimer]);
+
+  const resumeGame = useCallback(() => {
+    const pausedState = game.getPausedState();
+    if (!game.resume()) return;
+
+    if (pausedState === GameState.PLAYER_INPUT) {
+      resumeTimer();
+    } else if (pausedState === GameState.VARIATION_INTRO) {
+      playVariationIntro();
+    } else {
+      // Calibration and pattern display pick up from the gem that was showing
+      resumeDisplay();
+    }
+  }, [game, resumeTimer, playVariationIntro, resumeDisplay]);
+
+  // Leaving the tab pauses the run
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        pauseGame();
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [pauseGame]);
 
   const resetGame = useCallback(() => {
+    // Quitting a run gives it up; watching a replay leaves the saved run alone
+    if (!isReplaying) abandonRun();
+    stopReplay();
+    setActiveReplay(null);
+    clearVariationIntro();
+    cancelPendingAdvance();
     resetGameBase();
     resetDisplay();
     resetEffects();
     // Stop music when returning to main menu
     stopBackgroundMusic();
-  }, [resetGameBase, resetDisplay, resetEffects, stopBackgroundMusic]);
+  }, [isReplaying, abandonRun, stopReplay, clearVariationIntro, cancelPendingAdvance, resetGameBase, resetDisplay, resetEffects, stopBackgroundMusic]);
+
+  const watchReplay = useCallback((replay: Replay) => {
+    stopReplay();
+    clearVariationIntro();
+    cancelPendingAdvance();
+    resetGameBase();
+    resetDisplay();
+    resetEffects();
+    setActiveReplay(replay);
+    startReplay(game, replay);
+    startGame();
+  }, [game, stopReplay, clearVariationIntro, cancelPendingAdvance, resetGameBase, resetDisplay, resetEffects, startReplay, startGame]);
+
+  const saveReplay = useCallback((replay: Replay) => {
+    const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `gemstone-replay-${replay.seed}.json`;
+    link.click();
+    // Revoking right away can cancel the download before it starts
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }, []);
+
+  const loadReplay = useCallback((file: File) => {
+    file.text().then(text => {
+      watchReplay(parseReplay(text));
+    }).catch(error => {
+      console.error('Failed to load replay:', error);
+      setReplayError(error instanceof Error ? error : new Error(String(error)));
+    });
+  }, [watchReplay]);
+
+  // The finished run, or the recording being played back
+  const runEnded = gameState === GameState.ROUND_FAILED ||
+    gameState === GameState.CASHED_OUT ||
+    gameState === GameState.VICTORY;
+  const replay = activeReplay ?? (runEnded ? game.getReplay() : null);
+
+  // The wallet this run pays into, the sandbox one during replays
+  const roundTicketManager = isReplaying ? game.getTicketManager() : ticketManager;
+  const offerCashOut = !isReplaying && !!roundTicketManager?.isCashOutEnabled();
+
+  // Space/Enter or Start plays from the menu, and plays again once a run is over
+  const confirmAction = useCallback(() => {
+    if (gameState === GameState.INITIALIZATION) {
+      if (!configError && (!ticketManager || ticketManager.canAffordGame())) {
+        startGame();
+      }
+    } else if (runEnded) {
+      resetGame();
+    }
+  }, [gameState, configError, ticketManager, runEnded, startGame, resetGame]);
+
+  useGameInput({
+    bindings: (gameConfig ?? GAME_CONFIG).controls,
+    enabled: !showHowToPlay && !showSettings && !showAbout && !showStatistics && !replayError && !isReplaying,
+    onGem: handleGemClick,
+    onConfirm: confirmAction
+  });
 
   const resetTicketsAndGame = useCallback(() => {
     resetTickets();
@@ -174,16 +356,30 @@ export const GameBoard: React.FC = () => {
   return (
     <div className="game-container flex flex-col items-center justify-center relative" style={{ backgroundColor: '#F5E6CF' }}>
 
+      {/* Config Error - Replaces the menu when a config file is unusable */}
+      {configError && gameState === GameState.INITIALIZATION && (
+        <ConfigErrorScreen error={configError} />
+      )}
+
       {/* Main Menu - Show when game hasn't started */}
-      {gameState === GameState.INITIALIZATION && (
+      {!configError && gameState === GameState.INITIALIZATION && (
         <MenuContainer
           ticketManager={ticketManager}
           menuGemSize={menuGemSize}
           onStartGame={startGame}
+          onResumeRun={savedRun ? resumeRun : undefined}
+          savedRunRound={savedRun?.round}
+          savedRunInterrupted={savedRun?.roundInProgress ?? false}
           onShowHowToPlay={() => setShowHowToPlay(true)}
           onShowSettings={() => setShowSettings(true)}
           onShowAbout={() => setShowAbout(true)}
+          onShowStatistics={
+            ticketManager?.getConfig().demo.show_statistics ? () => setShowStatistics(true) : undefined
+          }
           onResetTickets={resetTicketsAndGame}
+          onLoadReplay={loadReplay}
+          difficulty={difficulty}
+          onDifficultyChange={setDifficulty}
         />
       )}
 
@@ -191,10 +387,28 @@ export const GameBoard: React.FC = () => {
       <HowToPlayModal isOpen={showHowToPlay} onClose={() => setShowHowToPlay(false)} />
 
       {/* Settings Modal */}
-      <SettingsModal isOpen={showSettings} onClose={() => setShowSettings(false)} />
+      <SettingsModal
+        isOpen={showSettings}
+        onClose={() => setShowSettings(false)}
+        ticketManager={ticketManager}
+        difficulty={difficulty}
+        onDifficultyChange={setDifficulty}
+        disabledVariations={disabledVariations}
+        onVariationToggle={setVariationEnabled}
+      />
 
       {/* About Modal */}
       <AboutModal isOpen={showAbout} onClose={() => setShowAbout(false)} />
+
+      {/* Replay Error Modal - A replay file that could not be loaded */}
+      <ReplayErrorModal error={replayError} onClose={() => setReplayError(null)} />
+
+      {/* Statistics Modal */}
+      <StatisticsModal
+        isOpen={showStatistics}
+        onClose={() => setShowStatistics(false)}
+        ticketManager={ticketManager}
+      />
       
       {/* Three-section Game Layout */}
       {gameState !== GameState.INITIALIZATION && (
@@ -202,23 +416,28 @@ export const GameBoard: React.FC = () => {
           
           {/* Section 1: Header - 20% height */}
           <GameHeader
-            ticketManager={ticketManager}
+            ticketManager={isReplaying ? game.getTicketManager() : ticketManager}
             round={round}
             totalEarned={totalEarned}
             currentVariation={game.getCurrentVariation()}
+            variationStack={game.getVariationStack()}
             gameState={gameState}
             timeLeft={timeLeft}
             timerSeconds={game.getTimerSeconds()}
             getTimerState={getTimerState}
+            isReplay={isReplaying}
+            onPause={isReplaying ? undefined : pauseGame}
           />
 
           {/* Section 2: Gemstone Board - 70% height */}
           <GamePlayArea
             gameState={gameState}
             currentVariation={game.getCurrentVariation()}
+            variationStack={game.getVariationStack()}
             game={game}
             layout={layout}
             pattern={pattern}
+            inputProgress={inputProgress}
             displayIndex={displayIndex}
             ghostIndices={ghostIndices}
             shiningIndices={shiningIndices}
@@ -229,9 +448,10 @@ export const GameBoard: React.FC = () => {
 
           {/* Section 3: Footer - 10% height */}
           <GameFooter
-            ticketManager={ticketManager}
+            ticketManager={isReplaying ? game.getTicketManager() : ticketManager}
             round={round}
             currentVariation={game.getCurrentVariation()}
+            variationStack={game.getVariationStack()}
           />
         </div>
       )}
@@ -242,13 +462,40 @@ export const GameBoard: React.FC = () => {
         gameState={gameState}
         round={round}
         totalEarned={totalEarned}
+        failureReason={failureReason}
+        forfeited={forfeited}
+        onPlayAgain={resetGame}
+        isReplay={isReplaying}
+        onWatchReplay={replay ? () => watchReplay(replay) : undefined}
+        onSaveReplay={replay ? () => saveReplay(replay) : undefined}
+      />
+      
+      {/* Victory Overlay */}
+      <VictoryModal
+        gameState={gameState}
+        maxRound={game.getMaxRound()}
+        totalEarned={totalEarned}
+        score={game.getScore()}
         onPlayAgain={resetGame}
+        isReplay={isReplaying}
+        onWatchReplay={replay ? () => watchReplay(replay) : undefined}
+        onSaveReplay={replay ? () => saveReplay(replay) : undefined}
       />
       
+      {/* Pause Overlay */}
+      <PauseOverlay
+        gameState={gameState}
+        onResume={resumeGame}
+        onQuit={resetGame}
+      />
+
       {/* Round Complete Overlay */}
       <RoundCompleteOverlay 
         gameState={gameState}
         reward={game.getLastReward()}
+        pot={roundTicketManager?.isPotEnabled() ? roundTicketManager.getPot() : null}
+        onContinue={offerCashOut ? continueNextRound : undefined}
+        onCashOut={offerCashOut ? cashOut : undefined}
       />
 
     </div>
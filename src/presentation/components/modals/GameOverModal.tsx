@@ -1,39 +1,88 @@
 import React from 'react';
-import { GameState } from '@/core/game/types';
+import { FailureReason, GameState } from '@/core/game/types';
 
 interface GameOverModalProps {
   gameState: GameState;
   round: number;
   totalEarned: number;
+  failureReason?: FailureReason | null;
+  /** Tickets lost from the pot */
+  forfeited?: number;
   onPlayAgain: () => void;
+  isReplay?: boolean;
+  onWatchReplay?: () => void;
+  onSaveReplay?: () => void;
 }
 
+const FAILURE_MESSAGES: Record<FailureReason, string> = {
+  [FailureReason.TIMEOUT]: "Time's up!",
+  [FailureReason.WRONG_GEM]: 'Wrong gem!',
+  [FailureReason.INTERRUPTED]: 'Round interrupted!'
+};
+
 export const GameOverModal: React.FC<GameOverModalProps> = ({ 
   gameState, 
   round, 
   totalEarned, 
-  onPlayAgain 
+  failureReason = null,
+  forfeited = 0,
+  onPlayAgain,
+  isReplay = false,
+  onWatchReplay,
+  onSaveReplay
 }) => {
-  if (gameState !== GameState.ROUND_FAILED) return null;
+  if (gameState !== GameState.ROUND_FAILED && gameState !== GameState.CASHED_OUT) return null;
+
+  const cashedOut = gameState === GameState.CASHED_OUT;
 
   return (
     <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-8">
       <div className="text-center space-y-4 rounded-lg border-2 border-gray-600 shadow-2xl max-w-md w-full" style={{ backgroundColor: '#F5E6CF', padding: '2ch' }}>
         <div className="text-3xl font-bold" style={{ color: '#DB5461' }}>
-          Game Over!
+          {isReplay ? 'Replay Finished' : cashedOut ? 'Cashed Out!' : 'Game Over!'}
         </div>
+        {!cashedOut && failureReason && (
+          <div className="text-lg" style={{ color: '#4A4A4A' }}>
+            {FAILURE_MESSAGES[failureReason]}
+          </div>
+        )}
         <div className="text-xl" style={{ color: '#4A4A4A' }}>
-          Reached Round {round}
+          {cashedOut ? `Completed ${round - 1} Rounds` : `Reached Round ${round}`}
         </div>
         <div className="text-lg" style={{ color: '#4A4A4A' }}>
           Total Earned: <span style={{ color: '#6461A0' }}>{totalEarned.toFixed(2)} tickets</span>
         </div>
+        {!cashedOut && forfeited > 0 && (
+          <div className="text-base" style={{ color: '#DB5461' }}>
+            Lost from the pot: {forfeited.toFixed(2)} tickets
+          </div>
+        )}
         <button
           onClick={onPlayAgain}
           className="px-8 py-3 rounded-lg font-semibold transition-colors border-2 border-gray-600 text-gray-600 hover:bg-gray-600 hover:text-white"
         >
           Play Again
         </button>
+        {(onWatchReplay || onSaveReplay) && (
+          <div className="flex justify-center gap-3">
+            {onWatchReplay && (
+              <button
+                onClick={onWatchReplay}
+                className="px-4 py-2 rounded-lg text-sm font-semibold transition-colors border-2 border-gray-500 text-gray-600 hover:bg-gray-600 hover:text-white"
+              >
+                {isReplay ? 'Watch Again' : 'Watch Replay'}
+              </button>
+            )}
+            {onSaveReplay && (
+              <button
+                onClick={onSaveReplay}
+                className="px-4 py-2 rounded-lg text-sm font-semibold transition-colors border-2 border-gray-500 text-gray-600 hover:bg-gray-600 hover:text-white"
+              >
+                Save Replay
+              </button>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
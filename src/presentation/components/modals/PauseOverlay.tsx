@@ -0,0 +1,44 @@
+import React from 'react';
+import { GameState } from '@/core/game/types';
+
+interface PauseOverlayProps {
+  gameState: GameState;
+  onResume: () => void;
+  onQuit: () => void;
+}
+
+export const PauseOverlay: React.FC<PauseOverlayProps> = ({
+  gameState,
+  onResume,
+  onQuit
+}) => {
+  if (gameState !== GameState.PAUSED) return null;
+
+  // Opaque backdrop so the board cannot be studied while paused
+  return (
+    <div className="fixed inset-0 flex items-center justify-center z-50 p-8" style={{ backgroundColor: '#F5E6CF' }}>
+      <div className="text-center space-y-4 rounded-lg border-2 border-gray-600 shadow-2xl max-w-md w-full" style={{ backgroundColor: '#F5E6CF', padding: '2ch' }}>
+        <div className="text-3xl font-bold" style={{ color: '#2C2C2C' }}>
+          Paused
+        </div>
+        <div className="text-sm" style={{ color: '#4A4A4A' }}>
+          The timer is stopped. The pattern picks up where it left off.
+        </div>
+        <button
+          onClick={onResume}
+          className="px-8 py-3 rounded-lg font-semibold transition-colors border-2 border-gray-600 text-gray-600 hover:bg-gray-600 hover:text-white"
+        >
+          Resume
+        </button>
+        <div>
+          <button
+            onClick={onQuit}
+            className="px-4 py-2 rounded-lg text-sm font-semibold transition-colors border-2 border-gray-500 text-gray-600 hover:bg-gray-600 hover:text-white"
+          >
+            Quit to Menu
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
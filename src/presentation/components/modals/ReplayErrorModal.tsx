@@ -0,0 +1,29 @@
+import React from 'react';
+
+interface ReplayErrorModalProps {
+  /** Why the replay file could not be played; the modal is hidden without one */
+  error: Error | null;
+  onClose: () => void;
+}
+
+export const ReplayErrorModal: React.FC<ReplayErrorModalProps> = ({ error, onClose }) => {
+  if (!error) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 overflow-hidden p-8">
+      <div className="rounded-lg border-2 border-gray-600 max-w-md w-full shadow-2xl" style={{ backgroundColor: '#F5E6CF', padding: '2ch' }}>
+        <h2 className="text-2xl font-bold mb-4" style={{ color: '#DB5461' }}>Replay Not Loaded</h2>
+        <div className="space-y-3 mb-6" style={{ color: '#4A4A4A' }}>
+          <p>The file could not be played back as a Gemstone Memory replay.</p>
+          <p className="text-sm font-mono" style={{ color: '#2C2C2C' }}>{error.message}</p>
+        </div>
+        <button
+          onClick={onClose}
+          className="w-full px-6 py-3 rounded-lg border-2 border-gray-600 text-gray-600 hover:bg-gray-600 hover:text-white transition-all font-semibold"
+        >
+          CLOSE
+        </button>
+      </div>
+    </div>
+  );
+};
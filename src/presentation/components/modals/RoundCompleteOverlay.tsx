@@ -4,16 +4,26 @@ import { GameState } from '@/core/game/types';
 interface RoundCompleteOverlayProps {
   gameState: GameState;
   reward: number;
+  /** Unbanked pot, when rewards are at risk until cash-out */
+  pot?: number | null;
+  /** Offer the choice to keep going or cash out */
+  onContinue?: () => void;
+  onCashOut?: () => void;
 }
 
 export const RoundCompleteOverlay: React.FC<RoundCompleteOverlayProps> = ({ 
   gameState, 
-  reward 
+  reward,
+  pot = null,
+  onContinue,
+  onCashOut
 }) => {
   if (gameState !== GameState.ROUND_COMPLETE) return null;
 
+  const hasChoice = !!(onContinue && onCashOut);
+
   return (
-    <div className="fixed inset-0 flex items-center justify-center z-50 pointer-events-none p-8">
+    <div className={`fixed inset-0 flex items-center justify-center z-50 p-8 ${hasChoice ? '' : 'pointer-events-none'}`}>
       <div className="text-center bg-green-900/30 backdrop-blur-sm rounded-xl border border-green-500/30 max-w-md w-full" style={{ padding: '2ch' }}>
         <div className="text-2xl font-bold text-green-400">
           Round Complete!
@@ -21,7 +31,28 @@ export const RoundCompleteOverlay: React.FC<RoundCompleteOverlayProps> = ({
         <div className="text-lg text-green-300 mt-2">
           +{reward > 0 ? reward.toFixed(2) : '0.00'} tickets
         </div>
+        {pot !== null && (
+          <div className="text-base text-green-200 mt-1">
+            Pot at risk: {pot.toFixed(2)} tickets
+          </div>
+        )}
+        {hasChoice && (
+          <div className="flex justify-center gap-3 mt-4">
+            <button
+              onClick={onContinue}
+              className="px-6 py-2 rounded-lg font-semibold transition-colors border-2 border-green-400 text-green-300 hover:bg-green-400 hover:text-white"
+            >
+              Continue
+            </button>
+            <button
+              onClick={onCashOut}
+              className="px-6 py-2 rounded-lg font-semibold transition-colors border-2 border-yellow-400 text-yellow-300 hover:bg-yellow-400 hover:text-white"
+            >
+              Cash Out
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
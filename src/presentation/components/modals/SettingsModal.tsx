@@ -1,12 +1,29 @@
 import React, { useState, useEffect } from 'react';
 import { useGameSounds } from '@/presentation/hooks';
+import { TicketManager } from '@/core/economy/TicketManager';
+import { GameVariation } from '@/core/game/types';
+import { getRegisteredVariations, getVariation } from '@/core/variations/VariationRegistry';
+import { DifficultySelector } from '../game/DifficultySelector';
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
+  ticketManager?: TicketManager | null;
+  difficulty?: string | null;
+  onDifficultyChange?: (difficulty: string) => void;
+  disabledVariations?: GameVariation[];
+  onVariationToggle?: (variation: GameVariation, enabled: boolean) => void;
 }
 
-export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
+export const SettingsModal: React.FC<SettingsModalProps> = ({
+  isOpen,
+  onClose,
+  ticketManager = null,
+  difficulty = null,
+  onDifficultyChange,
+  disabledVariations = [],
+  onVariationToggle
+}) => {
   const { getMuted, setMuted, getVolume, setVolume, getMusicVolume, setMusicVolume } = useGameSounds();
   const [isMuted, setIsMuted] = useState(false);
   const [volume, setVolumeState] = useState(70);
@@ -46,6 +63,52 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
         <h2 className="text-2xl font-bold mb-6" style={{ color: '#2C2C2C' }}>Settings</h2>
         
         <div className="space-y-6">
+          {/* Difficulty Settings */}
+          {ticketManager && onDifficultyChange && (
+            <div>
+              <h3 className="text-lg font-semibold mb-4" style={{ color: '#2C2C2C' }}>Difficulty</h3>
+              <DifficultySelector
+                ticketManager={ticketManager}
+                difficulty={difficulty}
+                onChange={onDifficultyChange}
+              />
+            </div>
+          )}
+
+          {/* Variation Settings */}
+          {ticketManager && onVariationToggle && (
+            <div>
+              <h3 className="text-lg font-semibold mb-4" style={{ color: '#2C2C2C' }}>Variations</h3>
+              <div className="space-y-2">
+                {getRegisteredVariations()
+                  .filter(variation => variation !== GameVariation.NONE)
+                  .map(variation => {
+                    const enabled = !disabledVariations.includes(variation);
+                    return (
+                      <div key={variation} className="flex items-center justify-between">
+                        <label style={{ color: '#4A4A4A' }}>{getVariation(variation).name}</label>
+                        <button
+                          onClick={() => onVariationToggle(variation, !enabled)}
+                          className={`px-4 py-1 rounded-lg font-semibold transition-colors ${
+                            enabled 
+                              ? 'bg-green-600 text-white hover:bg-green-700' 
+                              : 'bg-red-600 text-white hover:bg-red-700'
+                          }`}
+                        >
+                          {enabled ? 'ON' : 'OFF'}
+                        </button>
+                      </div>
+                    );
+                  })}
+              </div>
+              {disabledVariations.length > 0 && (
+                <p className="text-xs mt-2" style={{ color: '#DB5461' }}>
+                  Rewards reduced by {Math.round(ticketManager.getDisabledVariationPenalty() * 100)}%
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Sound Settings */}
           <div>
             <h3 className="text-lg font-semibold mb-4" style={{ color: '#2C2C2C' }}>Sound Effects</h3>
@@ -0,0 +1,130 @@
+import React from 'react';
+import { TicketManager } from '@/core/economy/TicketManager';
+import { getVariation } from '@/core/variations/VariationRegistry';
+
+interface StatisticsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  ticketManager: TicketManager | null;
+}
+
+const formatReaction = (ms: number | null) => (ms === null ? '-' : `${Math.round(ms)} ms`);
+
+export const StatisticsModal: React.FC<StatisticsModalProps> = ({ isOpen, onClose, ticketManager }) => {
+  if (!isOpen || !ticketManager) return null;
+
+  const config = ticketManager.getConfig();
+  const precision = config.game.ticket_precision;
+  const history = ticketManager.getHistory();
+  const distribution = Array.from(history.getRoundsCompletedDistribution());
+  const maxCount = Math.max(1, ...distribution.map(([, count]) => count));
+  const variationStats = Array.from(history.getVariationStats());
+  const rtp = ticketManager.getRTP();
+  const net = ticketManager.getTotalEarned() - ticketManager.getTotalSpent();
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 overflow-hidden p-8">
+      <div className="rounded-lg border-2 border-gray-600 max-w-md w-full shadow-2xl max-h-[90vh] overflow-y-auto" style={{ backgroundColor: '#F5E6CF', padding: '2ch' }}>
+        <h2 className="text-2xl font-bold mb-6" style={{ color: '#2C2C2C' }}>Statistics</h2>
+
+        <div className="space-y-6">
+          {/* Lifetime Totals */}
+          <div>
+            <h3 className="text-lg font-semibold mb-4" style={{ color: '#2C2C2C' }}>Lifetime</h3>
+            <div className="grid grid-cols-2 gap-2 text-sm" style={{ color: '#4A4A4A' }}>
+              <span>Games Played</span>
+              <span className="text-right font-semibold">{ticketManager.getGamesPlayed()}</span>
+              <span>Highest Round</span>
+              <span className="text-right font-semibold">{ticketManager.getHighestRound()}</span>
+              <span>Tickets Earned</span>
+              <span className="text-right font-semibold">{ticketManager.getTotalEarned().toFixed(precision)}</span>
+              {ticketManager.getOverflow() > 0 && (
+                <>
+                  <span>Lost to Balance Cap</span>
+                  <span className="text-right font-semibold">{ticketManager.getOverflow().toFixed(precision)}</span>
+                </>
+              )}
+              <span>Tickets Spent</span>
+              <span className="text-right font-semibold">{ticketManager.getTotalSpent().toFixed(precision)}</span>
+              <span>Net</span>
+              <span className="text-right font-semibold" style={{ color: net < 0 ? '#DB5461' : '#6461A0' }}>
+                {net >= 0 ? '+' : ''}{net.toFixed(precision)}
+              </span>
+            </div>
+          </div>
+
+          {/* Return to Player */}
+          {config.tracking.track_rtp && (
+            <div>
+              <h3 className="text-lg font-semibold mb-4" style={{ color: '#2C2C2C' }}>Return to Player</h3>
+              <div className="flex items-center justify-between text-sm" style={{ color: '#4A4A4A' }}>
+                <span>Your RTP</span>
+                <span className="font-semibold" style={{ color: '#6461A0' }}>{(rtp * 100).toFixed(1)}%</span>
+              </div>
+              <div className="flex items-center justify-between text-sm" style={{ color: '#4A4A4A' }}>
+                <span>Target</span>
+                <span className="font-semibold">{(config.rtp_target * 100).toFixed(1)}%</span>
+              </div>
+            </div>
+          )}
+
+          {/* Rounds Completed Histogram */}
+          {config.tracking.track_distribution && (
+            <div>
+              <h3 className="text-lg font-semibold mb-4" style={{ color: '#2C2C2C' }}>Rounds Completed</h3>
+              {distribution.length === 0 ? (
+                <p className="text-sm" style={{ color: '#4A4A4A' }}>No games recorded yet</p>
+              ) : (
+                <div className="space-y-1">
+                  {distribution.map(([rounds, count]) => (
+                    <div key={rounds} className="flex items-center gap-2 text-xs" style={{ color: '#4A4A4A' }}>
+                      <span className="w-6 text-right">{rounds}</span>
+                      <div className="flex-1 h-3 rounded" style={{ backgroundColor: 'rgba(74, 74, 74, 0.15)' }}>
+                        <div
+                          className="h-3 rounded"
+                          style={{ width: `${(count / maxCount) * 100}%`, backgroundColor: '#6461A0' }}
+                        />
+                      </div>
+                      <span className="w-8">{count}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Per-Variation Performance */}
+          {config.tracking.track_distribution && variationStats.length > 0 && (
+            <div>
+              <h3 className="text-lg font-semibold mb-4" style={{ color: '#2C2C2C' }}>Variations</h3>
+              <div className="grid grid-cols-3 gap-2 text-sm" style={{ color: '#4A4A4A' }}>
+                <span className="font-semibold">Variation</span>
+                <span className="font-semibold text-right">Success</span>
+                <span className="font-semibold text-right">Reaction</span>
+                {variationStats.map(([variation, stats]) => (
+                  <React.Fragment key={variation}>
+                    <span>{getVariation(variation).name}</span>
+                    <span className="text-right">
+                      {Math.round(stats.successRate * 100)}% ({stats.successes}/{stats.attempts})
+                    </span>
+                    <span className="text-right">{formatReaction(stats.averageReactionMs)}</span>
+                  </React.Fragment>
+                ))}
+              </div>
+              <p className="text-xs mt-2" style={{ color: '#4A4A4A' }}>
+                Average reaction time: {formatReaction(history.getAverageReactionMs())}
+              </p>
+            </div>
+          )}
+        </div>
+
+        <button
+          onClick={onClose}
+          className="w-full mt-8 px-6 py-3 rounded-lg border-2 border-gray-600 text-gray-600 hover:bg-gray-600 hover:text-white transition-all font-semibold"
+        >
+          CLOSE
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React from 'react';
+import { GameState } from '@/core/game/types';
+
+interface VictoryModalProps {
+  gameState: GameState;
+  /** Final round of the run, limits.max_round */
+  maxRound: number | null;
+  totalEarned: number;
+  score: number;
+  onPlayAgain: () => void;
+  isReplay?: boolean;
+  onWatchReplay?: () => void;
+  onSaveReplay?: () => void;
+}
+
+export const VictoryModal: React.FC<VictoryModalProps> = ({
+  gameState,
+  maxRound,
+  totalEarned,
+  score,
+  onPlayAgain,
+  isReplay = false,
+  onWatchReplay,
+  onSaveReplay
+}) => {
+  if (gameState !== GameState.VICTORY) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-8">
+      <div className="text-center space-y-4 rounded-lg border-2 border-gray-600 shadow-2xl max-w-md w-full" style={{ backgroundColor: '#F5E6CF', padding: '2ch' }}>
+        <div className="text-3xl font-bold" style={{ color: '#0CF574', textShadow: '0 1px 2px rgba(0, 0, 0, 0.4)' }}>
+          {isReplay ? 'Replay Finished' : 'Victory!'}
+        </div>
+        <div className="text-lg" style={{ color: '#4A4A4A' }}>
+          {maxRound !== null ? `All ${maxRound} rounds cleared` : 'Every round cleared'}
+        </div>
+        <div className="text-lg" style={{ color: '#4A4A4A' }}>
+          Score: <span className="font-semibold">{score}</span>
+        </div>
+        <div className="text-lg" style={{ color: '#4A4A4A' }}>
+          Total Earned: <span style={{ color: '#6461A0' }}>{totalEarned.toFixed(2)} tickets</span>
+        </div>
+        <button
+          onClick={onPlayAgain}
+          className="px-8 py-3 rounded-lg font-semibold transition-colors border-2 border-gray-600 text-gray-600 hover:bg-gray-600 hover:text-white"
+        >
+          Play Again
+        </button>
+        {(onWatchReplay || onSaveReplay) && (
+          <div className="flex justify-center gap-3">
+            {onWatchReplay && (
+              <button
+                onClick={onWatchReplay}
+                className="px-4 py-2 rounded-lg text-sm font-semibold transition-colors border-2 border-gray-500 text-gray-600 hover:bg-gray-600 hover:text-white"
+              >
+                {isReplay ? 'Watch Again' : 'Watch Replay'}
+              </button>
+            )}
+            {onSaveReplay && (
+              <button
+                onClick={onSaveReplay}
+                className="px-4 py-2 rounded-lg text-sm font-semibold transition-colors border-2 border-gray-500 text-gray-600 hover:bg-gray-600 hover:text-white"
+              >
+                Save Replay
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
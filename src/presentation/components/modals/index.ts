@@ -1,5 +1,9 @@
 export { AboutModal } from './AboutModal';
 export { HowToPlayModal } from './HowToPlayModal';
 export { SettingsModal } from './SettingsModal';
+export { StatisticsModal } from './StatisticsModal';
 export { GameOverModal } from './GameOverModal';
-export { RoundCompleteOverlay } from './RoundCompleteOverlay';
\ No newline at end of file
+export { VictoryModal } from './VictoryModal';
+export { PauseOverlay } from './PauseOverlay';
+export { RoundCompleteOverlay } from './RoundCompleteOverlay';
+export { ReplayErrorModal } from './ReplayErrorModal';
\ No newline at end of file
@@ -2,9 +2,12 @@ export { useResponsiveLayout } from './useResponsiveLayout';
 export type { LayoutType } from './useResponsiveLayout';
 export { useGameEngine } from './useGameEngine';
 export { useTicketManager } from './useTicketManager';
+export { useGameConfig } from './useGameConfig';
 export { useGameTimer } from './useGameTimer';
 export { useVariationEffects } from './useVariationEffects';
 export { usePatternDisplay } from './usePatternDisplay';
 export { useGemClickHandler } from './useGemClickHandler';
 export { useMenuGemSize } from './useMenuGemSize';
-export { useGameSounds } from './useGameSounds';
\ No newline at end of file
+export { useGameSounds } from './useGameSounds';
+export { useReplayPlayback } from './useReplayPlayback';
+export { useGameInput } from './useGameInput';
\ No newline at end of file
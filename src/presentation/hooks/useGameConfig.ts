@@ -0,0 +1,30 @@
+import { useState, useEffect } from 'react';
+import type { GameConfig } from '@/core/game/types';
+import { loadGameConfig } from '@/utils/yaml-loader';
+
+interface UseGameConfigResult {
+  gameConfig: GameConfig | null;
+  configError: Error | null;
+}
+
+export const useGameConfig = (): UseGameConfigResult => {
+  const [gameConfig, setGameConfig] = useState<GameConfig | null>(null);
+  const [configError, setConfigError] = useState<Error | null>(null);
+
+  // Load pacing and variation schedule on mount
+  useEffect(() => {
+    // Use base URL for GitHub Pages compatibility
+    const configPath = import.meta.env.BASE_URL + 'game_config.yml';
+    loadGameConfig(configPath).then(config => {
+      setGameConfig(config);
+    }).catch(error => {
+      console.error('Failed to load game config:', error);
+      setConfigError(error instanceof Error ? error : new Error(String(error)));
+    });
+  }, []);
+
+  return {
+    gameConfig,
+    configError
+  };
+};
@@ -1,38 +1,87 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { GameEngine } from '@/core/game/GameEngine';
-import { GameState, GemstoneType } from '@/core/game/types';
+import type { RunSnapshot } from '@/core/game/GameEngine';
+import { GameState, GemstoneType, FailureReason } from '@/core/game/types';
+import type { GameConfig } from '@/core/game/types';
 import { TicketManager } from '@/core/economy/TicketManager';
+import { LocalStorageAdapter } from '@/core/storage/LocalStorageAdapter';
+
+const runStorage = new LocalStorageAdapter();
 
 interface UseGameEngineResult {
   game: GameEngine;
   gameState: GameState;
   round: number;
   pattern: GemstoneType[];
+  /** Gems entered and gems to enter this round, which a variation may make fewer than the pattern */
+  inputProgress: { entered: number; total: number };
   totalEarned: number;
+  failureReason: FailureReason | null;
+  /** Tickets lost from the pot when the run failed */
+  forfeited: number;
+  /** Interrupted run that can be resumed from the menu */
+  savedRun: RunSnapshot | null;
   startGame: () => void;
+  resumeRun: () => boolean;
+  cashOut: () => boolean;
+  abandonRun: () => void;
   continueToNextRound: () => void;
   handleGemClick: (gemType: GemstoneType, canInput: boolean) => boolean;
   resetGame: () => void;
-  updateGameState: () => void;
 }
 
-export const useGameEngine = (ticketManager: TicketManager | null): UseGameEngineResult => {
-  const [game] = useState(() => new GameEngine());
+export const useGameEngine = (
+  ticketManager: TicketManager | null,
+  gameConfig: GameConfig | null = null
+): UseGameEngineResult => {
+  // performance.now() is monotonic, so deadlines survive system clock changes
+  const [game] = useState(() => new GameEngine(undefined, {
+    clock: () => performance.now(),
+    storage: runStorage
+  }));
   const [gameState, setGameState] = useState<GameState>(game.getState());
   const [round, setRound] = useState(game.getRound());
   const [pattern, setPattern] = useState<GemstoneType[]>([]);
+  const [inputProgress, setInputProgress] = useState({ entered: 0, total: 0 });
   const [totalEarned, setTotalEarned] = useState(0);
+  const [failureReason, setFailureReason] = useState<FailureReason | null>(null);
+  const [forfeited, setForfeited] = useState(0);
+  const [savedRun, setSavedRun] = useState<RunSnapshot | null>(() => game.getSavedRun());
 
-  const updateGameState = useCallback(() => {
-    setGameState(game.getState());
-    setRound(game.getRound());
-    setPattern(game.getPattern());
-    
-    // Update ticket display if round completed
-    if (game.getState() === GameState.ROUND_COMPLETE && game.getLastReward() > 0) {
-      const reward = game.getLastReward();
-      setTotalEarned(prev => prev + reward);
-    }
+  // Mirror the engine into React state as it changes
+  useEffect(() => {
+    const unsubscribers = [
+      game.on('stateChanged', ({ from, to, round }) => {
+        setGameState(to);
+        setRound(round);
+        if (to === GameState.PLAYER_INPUT && from !== GameState.PAUSED) {
+          setInputProgress({ entered: 0, total: game.getExpectedInput().length });
+        }
+        if (to === GameState.INITIALIZATION) {
+          setPattern([]);
+          setFailureReason(null);
+          setForfeited(0);
+          setSavedRun(game.getSavedRun());
+        }
+      }),
+      // The board lights gems in display order
+      game.on('patternGenerated', () => setPattern(game.getDisplayPattern())),
+      game.on('inputAccepted', ({ index }) => {
+        setInputProgress(progress => ({ ...progress, entered: index + 1 }));
+      }),
+      game.on('roundCompleted', ({ nextRound }) => setRound(nextRound)),
+      game.on('gameOver', ({ reason }) => setFailureReason(reason)),
+      game.on('potForfeited', ({ forfeited }) => {
+        setForfeited(forfeited);
+        setTotalEarned(prev => Math.max(0, prev - forfeited));
+      }),
+      game.on('rewardAwarded', ({ amount }) => {
+        if (amount > 0) {
+          setTotalEarned(prev => prev + amount);
+        }
+      })
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
   }, [game]);
 
   const startGame = useCallback(() => {
@@ -45,52 +94,72 @@ export const useGameEngine = (ticketManager: TicketManager | null): UseGameEngin
     } else {
       game.startGame();
     }
-    
-    updateGameState();
-  }, [game, ticketManager, updateGameState]);
+  }, [game, ticketManager]);
 
   const continueToNextRound = useCallback(() => {
     // Continue to next round without charging tickets
     game.continueToNextRound();
-    updateGameState();
-  }, [game, updateGameState]);
+  }, [game]);
+
+  const resumeRun = useCallback((): boolean => {
+    if (!game.resumeSavedRun()) {
+      setSavedRun(game.getSavedRun());
+      return false;
+    }
+    setTotalEarned(game.getRunEarned());
+    return true;
+  }, [game]);
+
+  const cashOut = useCallback((): boolean => game.cashOut(), [game]);
+
+  const abandonRun = useCallback(() => {
+    game.abandonRun();
+    setSavedRun(null);
+  }, [game]);
 
   const handleGemClick = useCallback((gemType: GemstoneType, canInput: boolean): boolean => {
     if (!canInput) return false;
     
     // Prevent clicks if we've already completed the pattern
-    if (game.getPlayerInput().length >= game.getPattern().length) {
+    if (game.getPlayerInput().length >= game.getExpectedInput().length) {
       console.log('   Pattern already complete, ignoring click');
       return false;
     }
     
-    const success = game.handlePlayerInput(gemType);
-    updateGameState();
-    
-    return success;
-  }, [game, updateGameState]);
+    return game.handlePlayerInput(gemType);
+  }, [game]);
 
   const resetGame = useCallback(() => {
     game.resetGame();
-    updateGameState();
     setTotalEarned(0);
-  }, [game, updateGameState]);
+  }, [game]);
 
-  // Set ticket manager when it becomes available
-  if (ticketManager && game.getTicketManager() !== ticketManager) {
+  // Set ticket manager when it becomes available (replays keep their sandbox wallet)
+  if (ticketManager && !game.isPlayback() && game.getTicketManager() !== ticketManager) {
     game.setTicketManager(ticketManager);
   }
 
+  // Same for the pacing and variation schedule once game_config.yml loads
+  if (gameConfig && !game.isPlayback() && game.getGameConfig() !== gameConfig) {
+    game.setGameConfig(gameConfig);
+  }
+
   return {
     game,
     gameState,
     round,
     pattern,
+    inputProgress,
     totalEarned,
+    failureReason,
+    forfeited,
+    savedRun,
     startGame,
+    resumeRun,
+    cashOut,
+    abandonRun,
     continueToNextRound,
     handleGemClick,
-    resetGame,
-    updateGameState
+    resetGame
   };
 };
\ No newline at end of file
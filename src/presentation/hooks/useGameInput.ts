@@ -0,0 +1,109 @@
+import { useEffect, useRef } from 'react';
+import { GemstoneType } from '@/core/game/types';
+import type { InputBindings } from '@/core/game/types';
+import { resolveButton, resolveKey } from '@/core/game/InputBindings';
+import type { InputAction } from '@/core/game/InputBindings';
+
+interface UseGameInputOptions {
+  bindings: InputBindings;
+  /** Off while a modal or replay owns the screen */
+  enabled: boolean;
+  /** Same handler as a gem click, so debounce and validation are shared */
+  onGem: (gem: GemstoneType) => void;
+  onConfirm: () => void;
+}
+
+// Keys typed into these belong to them
+const TEXT_ENTRY = ['INPUT', 'SELECT', 'TEXTAREA'];
+// Confirm keys already activate these
+const CONTROLS = ['BUTTON', 'A', ...TEXT_ENTRY];
+
+const runActions = (
+  actions: InputAction[],
+  { onGem, onConfirm }: Pick<UseGameInputOptions, 'onGem' | 'onConfirm'>,
+  allowConfirm: boolean
+) => {
+  actions.forEach(action => {
+    if (action.type === 'gem') {
+      onGem(action.gem);
+    } else if (allowConfirm) {
+      onConfirm();
+    }
+  });
+};
+
+/**
+ * Keyboard and gamepad controls for the gems, the menu and "Play Again".
+ * Gamepads are polled once per animation frame while one is connected,
+ * acting on each button press once.
+ */
+export const useGameInput = ({ bindings, enabled, onGem, onConfirm }: UseGameInputOptions): void => {
+  const optionsRef = useRef({ bindings, enabled, onGem, onConfirm });
+  optionsRef.current = { bindings, enabled, onGem, onConfirm };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!optionsRef.current.enabled || event.repeat) return;
+      if (event.ctrlKey || event.altKey || event.metaKey) return;
+
+      const tag = event.target instanceof HTMLElement ? event.target.tagName : '';
+      if (TEXT_ENTRY.includes(tag)) return;
+
+      const actions = resolveKey(optionsRef.current.bindings, event.code);
+      if (actions.length === 0) return;
+
+      const allowConfirm = !CONTROLS.includes(tag);
+      if (actions.some(action => action.type === 'gem') || allowConfirm) {
+        event.preventDefault(); // No page scrolling on arrows or Space
+      }
+      runActions(actions, optionsRef.current, allowConfirm);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (typeof navigator === 'undefined' || !navigator.getGamepads) return;
+
+    const pressed = new Map<number, boolean[]>();
+    let frame: number | null = null;
+
+    const poll = () => {
+      const gamepads = Array.from(navigator.getGamepads()).filter((pad): pad is Gamepad => pad !== null);
+
+      gamepads.forEach(pad => {
+        const previous = pressed.get(pad.index) || [];
+        const current = pad.buttons.map(button => button.pressed);
+        pressed.set(pad.index, current);
+        if (!optionsRef.current.enabled) return;
+
+        current.forEach((isPressed, button) => {
+          if (isPressed && !previous[button]) {
+            runActions(resolveButton(optionsRef.current.bindings, button), optionsRef.current, true);
+          }
+        });
+      });
+
+      frame = gamepads.length > 0 ? requestAnimationFrame(poll) : null;
+    };
+
+    const startPolling = () => {
+      if (frame === null) frame = requestAnimationFrame(poll);
+    };
+    const handleDisconnect = (event: GamepadEvent) => {
+      pressed.delete(event.gamepad.index);
+    };
+
+    window.addEventListener('gamepadconnected', startPolling);
+    window.addEventListener('gamepaddisconnected', handleDisconnect);
+    // Pick up pads that were connected before mount
+    startPolling();
+
+    return () => {
+      window.removeEventListener('gamepadconnected', startPolling);
+      window.removeEventListener('gamepaddisconnected', handleDisconnect);
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, []);
+};
@@ -1,46 +1,88 @@
-import { useState, useCallback } from 'react';
-import { GemstoneType } from '@/core/game/types';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { GameState } from '@/core/game/types';
+import { GameEngine } from '@/core/game/GameEngine';
 
 interface UseGameTimerResult {
+  /** Seconds left, with millisecond precision */
   timeLeft: number;
-  startTimer: (duration: number, onTimeout: () => void) => void;
+  isPaused: boolean;
+  startTimer: (game: GameEngine) => void;
   stopTimer: () => void;
+  pauseTimer: () => void;
+  resumeTimer: () => void;
   getTimerState: (totalDuration: number) => 'normal' | 'warning' | 'critical';
 }
 
+/**
+ * Countdown display for the engine's input deadline. The engine decides
+ * when the round times out; this ticks it once per animation frame and
+ * mirrors the time left.
+ */
 export const useGameTimer = (): UseGameTimerResult => {
   const [timeLeft, setTimeLeft] = useState(0);
-  const [intervalId, setIntervalId] = useState<NodeJS.Timeout | null>(null);
+  const [isPaused, setIsPaused] = useState(false);
+  const gameRef = useRef<GameEngine | null>(null);
+  const frameRef = useRef<number | null>(null);
 
-  const startTimer = useCallback((duration: number, onTimeout: () => void) => {
-    // Clear any existing timer
-    if (intervalId) {
-      clearInterval(intervalId);
+  const cancelFrame = useCallback(() => {
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
     }
+  }, []);
 
-    setTimeLeft(duration);
-    
-    const interval = setInterval(() => {
-      setTimeLeft((prev) => {
-        if (prev <= 1) {
-          clearInterval(interval);
-          onTimeout();
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
-
-    setIntervalId(interval);
-  }, [intervalId]);
+  const runFrames = useCallback(() => {
+    const frame = () => {
+      const game = gameRef.current;
+      if (!game) return;
+
+      game.tick();
+      setTimeLeft(game.getTimeRemainingMs() / 1000);
+      frameRef.current = game.getState() === GameState.PLAYER_INPUT && !game.isInputTimerPaused()
+        ? requestAnimationFrame(frame)
+        : null;
+    };
+
+    cancelFrame();
+    frameRef.current = requestAnimationFrame(frame);
+  }, [cancelFrame]);
+
+  const startTimer = useCallback((game: GameEngine) => {
+    gameRef.current = game;
+    setIsPaused(false);
+    setTimeLeft(game.getTimeRemainingMs() / 1000);
+    runFrames();
+  }, [runFrames]);
 
   const stopTimer = useCallback(() => {
-    if (intervalId) {
-      clearInterval(intervalId);
-      setIntervalId(null);
-    }
+    cancelFrame();
+    gameRef.current = null;
+    setIsPaused(false);
     setTimeLeft(0);
-  }, [intervalId]);
+  }, [cancelFrame]);
+
+  // The engine may already have paused or resumed the deadline itself
+  const pauseTimer = useCallback(() => {
+    const game = gameRef.current;
+    if (!game) return;
+    game.pauseInputTimer();
+    if (!game.isInputTimerPaused()) return;
+    cancelFrame();
+    setIsPaused(true);
+    setTimeLeft(game.getTimeRemainingMs() / 1000);
+  }, [cancelFrame]);
+
+  const resumeTimer = useCallback(() => {
+    const game = gameRef.current;
+    if (!game) return;
+    game.resumeInputTimer();
+    if (game.isInputTimerPaused()) return;
+    setIsPaused(false);
+    runFrames();
+  }, [runFrames]);
+
+  // Never leave a frame scheduled after unmount
+  useEffect(() => cancelFrame, [cancelFrame]);
 
   const getTimerState = useCallback((totalDuration: number): 'normal' | 'warning' | 'critical' => {
     const percentage = (timeLeft / totalDuration) * 100;
@@ -51,8 +93,11 @@ export const useGameTimer = (): UseGameTimerResult => {
 
   return {
     timeLeft,
+    isPaused,
     startTimer,
     stopTimer,
+    pauseTimer,
+    resumeTimer,
     getTimerState
   };
-};
\ No newline at end of file
+};
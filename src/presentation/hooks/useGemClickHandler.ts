@@ -1,5 +1,5 @@
-import { useState, useCallback } from 'react';
-import { GemstoneType, GameState, GameVariation } from '@/core/game/types';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { GemstoneType, GameState } from '@/core/game/types';
 import { GEMSTONES } from '@/core/game/constants';
 import { GameEngine } from '@/core/game/GameEngine';
 
@@ -12,12 +12,26 @@ interface UseGemClickHandlerResult {
     handleGemClickBase: (gemType: GemstoneType, canInput: boolean) => boolean,
     setCanInput: (value: boolean) => void,
     onRoundComplete: () => void,
-    onVariationIntro: () => void
+    onVariationIntro: () => void,
+    fromReplay?: boolean
   ) => void;
+  /** Drop a scheduled move on from the round just completed */
+  cancelPendingAdvance: () => void;
 }
 
 export const useGemClickHandler = (): UseGemClickHandlerResult => {
   const [lastClickTime, setLastClickTime] = useState(0);
+  const advanceTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const cancelPendingAdvance = useCallback(() => {
+    if (advanceTimeoutRef.current) {
+      clearTimeout(advanceTimeoutRef.current);
+      advanceTimeoutRef.current = null;
+    }
+  }, []);
+
+  // Nothing may fire after unmount
+  useEffect(() => cancelPendingAdvance, [cancelPendingAdvance]);
 
   const handleGemClick = useCallback((
     gemType: GemstoneType,
@@ -26,20 +40,26 @@ export const useGemClickHandler = (): UseGemClickHandlerResult => {
     handleGemClickBase: (gemType: GemstoneType, canInput: boolean) => boolean,
     setCanInput: (value: boolean) => void,
     onRoundComplete: () => void,
-    onVariationIntro: () => void
+    onVariationIntro: () => void,
+    fromReplay = false
   ) => {
     if (!canInput) return;
     
-    // Debounce rapid clicks (prevent clicks within 150ms of each other)
-    const now = Date.now();
-    if (now - lastClickTime < 150) {
-      console.log('   Click too fast, ignoring');
-      return;
+    // Debounce rapid clicks (prevent clicks within 150ms of each other).
+    // Recorded inputs were debounced when they were made, and timer jitter
+    // must not drop one on playback.
+    if (!fromReplay) {
+      const now = Date.now();
+      if (now - lastClickTime < 150) {
+        console.log('   Click too fast, ignoring');
+        return;
+      }
+      setLastClickTime(now);
     }
-    setLastClickTime(now);
     
     // Prevent clicks if we've already completed the pattern
-    if (game.getPlayerInput().length >= game.getPattern().length) {
+    const required = game.getRequiredInput();
+    if (game.getPlayerInput().length >= required.length) {
       console.log('   Pattern already complete, ignoring click');
       return;
     }
@@ -62,20 +82,8 @@ export const useGemClickHandler = (): UseGemClickHandlerResult => {
     const playerInputBefore = game.getPlayerInput().length;
     const clickCount = playerInputBefore + 1;
     
-    // Get expected gem, accounting for variations
-    const pattern = game.getPattern();
-    const variation = game.getCurrentVariation();
-    let expectedGem: GemstoneType | undefined;
-    
-    if (pattern.length > 0 && clickCount <= pattern.length) {
-      if (variation === GameVariation.REVERSE || variation === GameVariation.REVERSE_COMBINATION) {
-        // In reverse mode, expect pattern from the end
-        expectedGem = pattern[pattern.length - clickCount];
-      } else {
-        // Normal mode
-        expectedGem = pattern[clickCount - 1];
-      }
-    }
+    // Gem to press under the variation's rule
+    const expectedGem: GemstoneType | undefined = required[clickCount - 1];
     
     console.log(`   Player clicked #${clickCount}: %c█`, `color: ${color}; font-size: 20px;`, `(${colorName})`);
     
@@ -121,19 +129,25 @@ export const useGemClickHandler = (): UseGemClickHandlerResult => {
     if (game.getState() === GameState.ROUND_COMPLETE) {
       console.log('   Round complete!');
       setCanInput(false);
-      setTimeout(() => {
-        onRoundComplete();
+      cancelPendingAdvance();
+      advanceTimeoutRef.current = setTimeout(() => {
+        advanceTimeoutRef.current = null;
+        // The run may have been quit or replaced in the meantime
+        if (game.getState() === GameState.ROUND_COMPLETE) onRoundComplete();
       }, 1500);
     } else if (game.getState() === GameState.VARIATION_INTRO) {
       // If we get a variation intro during input handling, handle it
-      setTimeout(() => {
-        onVariationIntro();
+      cancelPendingAdvance();
+      advanceTimeoutRef.current = setTimeout(() => {
+        advanceTimeoutRef.current = null;
+        if (game.getState() === GameState.VARIATION_INTRO) onVariationIntro();
       }, 3000);
     }
-  }, [lastClickTime]);
+  }, [lastClickTime, cancelPendingAdvance]);
 
   return {
     lastClickTime,
-    handleGemClick
+    handleGemClick,
+    cancelPendingAdvance
   };
 };
\ No newline at end of file
@@ -1,56 +1,53 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { GemstoneType, GameVariation } from '@/core/game/types';
+import type { VariationEffects } from '@/core/game/types';
 import { GEMSTONES } from '@/core/game/constants';
 import { GameEngine } from '@/core/game/GameEngine';
-import { VariationManager } from '@/core/variations/VariationManager';
+import { PatternScheduler, buildPatternTimeline } from '@/core/game/PatternScheduler';
 
 interface UsePatternDisplayResult {
   displayIndex: number;
   canInput: boolean;
   displayPattern: (
     game: GameEngine,
-    round: number,
-    applyVariationEffects: (
-      variation: GameVariation | null,
-      pattern: GemstoneType[],
-      round: number,
-      variationManager: VariationManager
-    ) => void,
+    applyVariationEffects: (effects: VariationEffects) => void,
     setColorMap: (map: Map<GemstoneType, GemstoneType> | null) => void,
-    chaosTimings: number[] | null,
     onPatternComplete: () => void,
     playGemSound?: (gemType: GemstoneType) => void
   ) => void;
+  pauseDisplay: () => void;
+  resumeDisplay: () => void;
   resetDisplay: () => void;
 }
 
 export const usePatternDisplay = (): UsePatternDisplayResult => {
   const [displayIndex, setDisplayIndex] = useState(-1);
   const [canInput, setCanInput] = useState(false);
+  const schedulerRef = useRef<PatternScheduler | null>(null);
+  const currentIndexRef = useRef(-1);
 
   const resetDisplay = useCallback(() => {
+    schedulerRef.current?.cancel();
+    schedulerRef.current = null;
     setDisplayIndex(-1);
     setCanInput(false);
   }, []);
 
+  // Nothing may fire after unmount
+  useEffect(() => () => schedulerRef.current?.cancel(), []);
+
   const displayPattern = useCallback((
     game: GameEngine,
-    round: number,
-    applyVariationEffects: (
-      variation: GameVariation | null,
-      pattern: GemstoneType[],
-      round: number,
-      variationManager: VariationManager
-    ) => void,
+    applyVariationEffects: (effects: VariationEffects) => void,
     setColorMap: (map: Map<GemstoneType, GemstoneType> | null) => void,
-    chaosTimings: number[] | null,
     onPatternComplete: () => void,
     playGemSound?: (gemType: GemstoneType) => void
   ) => {
-    const patternToShow = game.getPattern();
+    const patternToShow = game.getDisplayPattern();
     const speed = game.getDisplaySpeed();
     const variation = game.getCurrentVariation();
-    const variationManager = game.getVariationManager();
+    const effects = game.getVariationEffects();
+    const chaosTimings = effects.chaosTimings;
     
     // Helper to get color name from hex
     const getColorName = (gemType: GemstoneType) => {
@@ -86,124 +83,85 @@ export const usePatternDisplay = (): UsePatternDisplayResult => {
     
     if (variation && variation !== GameVariation.NONE) {
       console.log('   Variation:', variation);
-      if (variation === GameVariation.REVERSE || variation === GameVariation.REVERSE_COMBINATION) {
-        const reversePattern = [...patternToShow].reverse();
-        const reverseNames = reversePattern.map(gemType => getColorName(gemType)).join(' ');
+      const expected = game.getExpectedInput();
+      const changesInput = expected.length !== patternToShow.length ||
+        expected.some((gem, i) => gem !== patternToShow[i]);
+      if (changesInput) {
+        const expectedNames = expected.map(gemType => getColorName(gemType)).join(' ');
         
-        // Build reverse pattern log
-        const reverseLogArgs: any[] = ['   REVERSE MODE - Input order:'];
-        reversePattern.forEach(gemType => {
-          reverseLogArgs.push('%c█');
-          reverseLogArgs.push(`color: ${GEMSTONES[gemType].color}; font-size: 20px;`);
+        // Build expected input log
+        const expectedLogArgs: any[] = [`   ${variation} - Input order:`];
+        expected.forEach(gemType => {
+          expectedLogArgs.push('%c█');
+          expectedLogArgs.push(`color: ${GEMSTONES[gemType].color}; font-size: 20px;`);
         });
         
-        console.log(...reverseLogArgs);
-        console.log('   Expected colors:', reverseNames);
+        console.log(...expectedLogArgs);
+        console.log('   Expected colors:', expectedNames);
       }
     }
     
     // Apply variation-specific effects
-    applyVariationEffects(variation, patternToShow, round, variationManager);
+    applyVariationEffects(effects);
     
     setCanInput(false);
     setDisplayIndex(-1);
-    
-    // Display each gem in sequence
-    if (chaosTimings) {
-      // Speed Chaos: Use random timings with gaps for repeated gems
-      let cumulativeTime = 0;
-      patternToShow.forEach((gemType, index) => {
-        // Show the gem
-        setTimeout(() => {
-          setDisplayIndex(index);
-          // Play sound for this gem
-          if (playGemSound) {
-            playGemSound(gemType);
-          }
-        }, cumulativeTime);
-        
-        // Check if next gem is the same
-        const nextGem = patternToShow[index + 1];
-        const isRepeated = nextGem === gemType;
-        
-        if (isRepeated) {
-          // Add a brief "off" period between repeated gems
-          const gapTime = Math.min(chaosTimings[index] * 0.3, 150); // 30% of time or 150ms max
-          setTimeout(() => {
-            setDisplayIndex(-1); // Turn off display briefly
-          }, cumulativeTime + chaosTimings[index] - gapTime);
-          cumulativeTime += chaosTimings[index] + gapTime;
-        } else {
-          cumulativeTime += chaosTimings[index];
-        }
-      });
-      
-      // After pattern display with chaos timing
-      setTimeout(() => {
-        setDisplayIndex(-1);
-        
-        // Apply Color Shuffle if active
-        if (variation === GameVariation.COLOR_SHUFFLE || 
-            (variation === GameVariation.REVERSE_COMBINATION && 
-             variationManager.getCombinationBase() === GameVariation.COLOR_SHUFFLE)) {
-          const shuffled = variationManager.getShuffledColors();
-          setColorMap(shuffled);
-        }
-        
-        setCanInput(true);
-        onPatternComplete();
-      }, cumulativeTime + 500);
-    } else {
-      // Normal timing with gaps for repeated gems
-      let timeOffset = 0;
-      patternToShow.forEach((gemType, index) => {
-        // Show the gem
-        setTimeout(() => {
-          setDisplayIndex(index);
-          // Play sound for this gem
-          if (playGemSound) {
-            playGemSound(gemType);
-          }
-        }, timeOffset);
-        
-        // Check if next gem is the same - if so, add a brief gap
-        const nextGem = patternToShow[index + 1];
-        const isRepeated = nextGem === gemType;
-        
-        if (isRepeated) {
-          // Add a brief "off" period between repeated gems
-          const gapTime = speed * 0.3; // 30% of display time as gap
-          setTimeout(() => {
-            setDisplayIndex(-1); // Turn off display briefly
-          }, timeOffset + speed - gapTime);
-          timeOffset += speed + gapTime;
-        } else {
-          timeOffset += speed;
+
+    // Display each gem in sequence, then start player input
+    schedulerRef.current?.cancel();
+    currentIndexRef.current = -1;
+    const timeline = buildPatternTimeline(patternToShow, { speed, chaosTimings });
+    const scheduler = new PatternScheduler(timeline, step => {
+      if (step.type === 'show') {
+        currentIndexRef.current = step.index;
+        setDisplayIndex(step.index);
+        // Play sound for this gem
+        if (playGemSound) {
+          playGemSound(step.gem);
         }
-      });
-      
-      // After pattern display, start player input
-      setTimeout(() => {
+      } else if (step.type === 'hide') {
+        setDisplayIndex(-1); // Turn off display briefly
+      } else {
+        schedulerRef.current = null;
         setDisplayIndex(-1);
-        
+
         // Apply Color Shuffle if active
-        if (variation === GameVariation.COLOR_SHUFFLE || 
-            (variation === GameVariation.REVERSE_COMBINATION && 
-             variationManager.getCombinationBase() === GameVariation.COLOR_SHUFFLE)) {
-          const shuffled = variationManager.getShuffledColors();
-          setColorMap(shuffled);
+        if (effects.colorMap) {
+          setColorMap(effects.colorMap);
         }
-        
+
         setCanInput(true);
         onPatternComplete();
-      }, timeOffset + 500);
-    }
+      }
+    });
+    schedulerRef.current = scheduler;
+    scheduler.start();
+  }, []);
+
+  const pauseDisplay = useCallback(() => {
+    if (!schedulerRef.current) return;
+    schedulerRef.current.pause();
+    // Hide the gem so it cannot be studied while paused
+    setDisplayIndex(-1);
+  }, []);
+
+  const resumeDisplay = useCallback(() => {
+    const scheduler = schedulerRef.current;
+    if (!scheduler) return;
+    // Start over from the gem that was showing, for its full display time
+    const shown = scheduler.getSteps().find(
+      step => step.type === 'show' && step.index === currentIndexRef.current
+    );
+    scheduler.rewindTo(shown ? shown.at : 0);
+    scheduler.resume();
   }, []);
 
   return {
     displayIndex,
     canInput,
     displayPattern,
+    pauseDisplay,
+    resumeDisplay,
     resetDisplay
   };
 };
\ No newline at end of file
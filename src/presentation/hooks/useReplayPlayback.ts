@@ -0,0 +1,78 @@
+import { useState, useCallback, useRef } from 'react';
+import { GemstoneType } from '@/core/game/types';
+import { GameEngine } from '@/core/game/GameEngine';
+import { ReplayPlayer } from '@/core/replay/ReplayPlayer';
+import type { Replay } from '@/core/replay/types';
+
+interface UseReplayPlaybackResult {
+  isReplaying: boolean;
+  startReplay: (game: GameEngine, replay: Replay) => void;
+  scheduleRoundInputs: (
+    round: number,
+    onInput: (gemType: GemstoneType) => void,
+    onTimeout: () => void
+  ) => void;
+  stopReplay: () => void;
+  /** Whether the recording cashed out instead of playing the given round */
+  cashesOutBefore: (round: number) => boolean;
+}
+
+export const useReplayPlayback = (): UseReplayPlaybackResult => {
+  const [isReplaying, setIsReplaying] = useState(false);
+  const playerRef = useRef<ReplayPlayer | null>(null);
+  const timeoutsRef = useRef<ReturnType<typeof setTimeout>[]>([]);
+
+  const clearScheduled = useCallback(() => {
+    timeoutsRef.current.forEach(id => clearTimeout(id));
+    timeoutsRef.current = [];
+  }, []);
+
+  const startReplay = useCallback((game: GameEngine, replay: Replay) => {
+    clearScheduled();
+    playerRef.current = new ReplayPlayer(replay, game);
+    setIsReplaying(true);
+  }, [clearScheduled]);
+
+  // Re-issue the recorded inputs of a round at their original offsets
+  // from the start of player input
+  const scheduleRoundInputs = useCallback((
+    round: number,
+    onInput: (gemType: GemstoneType) => void,
+    onTimeout: () => void
+  ) => {
+    if (!playerRef.current) return;
+
+    clearScheduled();
+    playerRef.current.getRoundInputs(round).forEach(event => {
+      const id = setTimeout(() => {
+        if (event.type === 'input') {
+          onInput(event.gem);
+        } else {
+          onTimeout();
+        }
+      }, event.offset);
+      timeoutsRef.current.push(id);
+    });
+  }, [clearScheduled]);
+
+  const cashesOutBefore = useCallback((round: number): boolean => {
+    return playerRef.current ? playerRef.current.cashesOutBefore(round) : false;
+  }, []);
+
+  const stopReplay = useCallback(() => {
+    clearScheduled();
+    if (playerRef.current) {
+      playerRef.current.stop();
+      playerRef.current = null;
+    }
+    setIsReplaying(false);
+  }, [clearScheduled]);
+
+  return {
+    isReplaying,
+    startReplay,
+    scheduleRoundInputs,
+    stopReplay,
+    cashesOutBefore
+  };
+};
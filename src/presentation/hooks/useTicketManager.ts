@@ -1,43 +1,84 @@
 import { useState, useEffect, useCallback } from 'react';
 import { TicketManager } from '@/core/economy/TicketManager';
+import { GameVariation } from '@/core/game/types';
+import { LocalStorageAdapter } from '@/core/storage/LocalStorageAdapter';
 import { loadTicketConfig } from '@/utils/yaml-loader';
 
+// Wallet, statistics and settings survive page reloads
+const walletStorage = new LocalStorageAdapter();
+
 interface UseTicketManagerResult {
   ticketManager: TicketManager | null;
+  configError: Error | null;
   resetTickets: () => void;
+  difficulty: string | null;
+  setDifficulty: (difficulty: string) => void;
+  disabledVariations: GameVariation[];
+  setVariationEnabled: (variation: GameVariation, enabled: boolean) => void;
 }
 
 export const useTicketManager = (): UseTicketManagerResult => {
   const [ticketManager, setTicketManager] = useState<TicketManager | null>(null);
+  const [configError, setConfigError] = useState<Error | null>(null);
+  const [difficulty, setDifficultyState] = useState<string | null>(null);
+  const [disabledVariations, setDisabledVariations] = useState<GameVariation[]>([]);
 
   // Load ticket configuration on mount
   useEffect(() => {
     // Use base URL for GitHub Pages compatibility
     const configPath = import.meta.env.BASE_URL + 'ticket_config.yml';
     loadTicketConfig(configPath).then(config => {
-      const tm = new TicketManager(config);
+      const tm = new TicketManager(config, walletStorage);
       setTicketManager(tm);
     }).catch(error => {
       console.error('Failed to load ticket config:', error);
+      setConfigError(error instanceof Error ? error : new Error(String(error)));
     });
   }, []);
 
+  // Mirror the manager's settings so the UI re-renders when they change
+  useEffect(() => {
+    setDifficultyState(ticketManager ? ticketManager.getCurrentDifficulty() : null);
+    setDisabledVariations(ticketManager ? ticketManager.getDisabledVariations() : []);
+  }, [ticketManager]);
+
+  const setDifficulty = useCallback((newDifficulty: string) => {
+    if (ticketManager) {
+      ticketManager.setDifficulty(newDifficulty);
+      setDifficultyState(ticketManager.getCurrentDifficulty());
+    }
+  }, [ticketManager]);
+
+  const setVariationEnabled = useCallback((variation: GameVariation, enabled: boolean) => {
+    if (ticketManager) {
+      ticketManager.setVariationEnabled(variation, enabled);
+      setDisabledVariations(ticketManager.getDisabledVariations());
+    }
+  }, [ticketManager]);
+
   const resetTickets = useCallback(() => {
     if (ticketManager) {
+      // Saves the fresh wallet; settings are kept and restored below
       ticketManager.reset();
       // Force re-render by re-loading config
       const configPath = import.meta.env.BASE_URL + 'ticket_config.yml';
       loadTicketConfig(configPath).then(config => {
-        const tm = new TicketManager(config);
+        const tm = new TicketManager(config, walletStorage);
         setTicketManager(tm);
       }).catch(error => {
         console.error('Failed to reload ticket config:', error);
+        setConfigError(error instanceof Error ? error : new Error(String(error)));
       });
     }
   }, [ticketManager]);
 
   return {
     ticketManager,
-    resetTickets
+    configError,
+    resetTickets,
+    difficulty,
+    setDifficulty,
+    disabledVariations,
+    setVariationEnabled
   };
-};
\ No newline at end of file
+};
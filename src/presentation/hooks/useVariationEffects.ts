@@ -1,21 +1,9 @@
 import { useState, useCallback } from 'react';
-import { GemstoneType, GameVariation } from '@/core/game/types';
-import { VariationManager } from '@/core/variations/VariationManager';
-
-interface VariationEffects {
-  ghostIndices: number[];
-  shiningIndices: number[];
-  colorMap: Map<GemstoneType, GemstoneType> | null;
-  chaosTimings: number[] | null;
-}
+import { GemstoneType } from '@/core/game/types';
+import type { VariationEffects } from '@/core/game/types';
 
 interface UseVariationEffectsResult extends VariationEffects {
-  applyVariationEffects: (
-    variation: GameVariation | null,
-    pattern: GemstoneType[],
-    round: number,
-    variationManager: VariationManager
-  ) => void;
+  applyVariationEffects: (effects: VariationEffects) => void;
   resetEffects: () => void;
   setColorMap: (map: Map<GemstoneType, GemstoneType> | null) => void;
 }
@@ -33,37 +21,13 @@ export const useVariationEffects = (): UseVariationEffectsResult => {
     setChaosTimings(null);
   }, []);
 
-  const applyVariationEffects = useCallback((
-    variation: GameVariation | null,
-    pattern: GemstoneType[],
-    round: number,
-    variationManager: VariationManager
-  ) => {
+  const applyVariationEffects = useCallback((effects: VariationEffects) => {
     resetEffects();
 
-    if (!variation || variation === GameVariation.NONE) return;
-
-    // Apply variation-specific effects
-    if (variation === GameVariation.GHOST || 
-        (variation === GameVariation.REVERSE_COMBINATION && 
-         variationManager.getCombinationBase() === GameVariation.GHOST)) {
-      const ghostInfo = variationManager.getGhostIndices(pattern, round);
-      setGhostIndices(ghostInfo.indices);
-    }
-    
-    if (variation === GameVariation.SPEED_CHAOS || 
-        (variation === GameVariation.REVERSE_COMBINATION && 
-         variationManager.getCombinationBase() === GameVariation.SPEED_CHAOS)) {
-      const timings = variationManager.getChaosTimings(pattern, round);
-      setChaosTimings(timings);
-    }
-    
-    if (variation === GameVariation.SELECTIVE_ATTENTION || 
-        (variation === GameVariation.REVERSE_COMBINATION && 
-         variationManager.getCombinationBase() === GameVariation.SELECTIVE_ATTENTION)) {
-      const shining = variationManager.getShiningIndices(pattern, round);
-      setShiningIndices(shining);
-    }
+    // Effects are rolled by the engine when the round starts
+    setGhostIndices(effects.ghostIndices);
+    setChaosTimings(effects.chaosTimings);
+    setShiningIndices(effects.shiningIndices);
 
     // Note: Color Shuffle is applied after pattern display, not here
   }, [resetEffects]);
@@ -77,4 +41,4 @@ export const useVariationEffects = (): UseVariationEffectsResult => {
     resetEffects,
     setColorMap
   };
-};
\ No newline at end of file
+};
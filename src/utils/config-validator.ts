@@ -0,0 +1,504 @@
+import type { TicketConfig, GameConfigFile } from './yaml-loader';
+import { GameVariation } from '../core/game/types';
+import { getRegisteredVariations } from '../core/variations/VariationRegistry';
+
+export interface ConfigIssue {
+  path: string;
+  message: string;
+}
+
+export class ConfigValidationError extends Error {
+  readonly issues: ConfigIssue[];
+  /** File the issues were found in */
+  readonly source: string;
+
+  constructor(issues: ConfigIssue[], source: string = 'ticket_config.yml') {
+    super(`Invalid ${source}:\n${issues.map(issue => `  ${issue.path}: ${issue.message}`).join('\n')}`);
+    this.name = 'ConfigValidationError';
+    this.issues = issues;
+    this.source = source;
+  }
+}
+
+type Section = Record<string, unknown>;
+
+const isSection = (value: unknown): value is Section =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * List items keyed by their index, so they are checked like mapping fields
+ */
+const itemsOf = (list: unknown[]): Section => Object.fromEntries(list.entries());
+
+interface NumberRule {
+  min?: number;
+  max?: number;
+  /** Excludes min itself */
+  positive?: boolean;
+  integer?: boolean;
+}
+
+/**
+ * Collects issues while walking the config, so every problem is reported
+ * at once instead of stopping at the first
+ */
+class Validator {
+  readonly issues: ConfigIssue[] = [];
+
+  fail(path: string, message: string): void {
+    this.issues.push({ path, message });
+  }
+
+  section(parent: Section, key: string, path: string): Section | null {
+    const value = parent[key];
+    if (!isSection(value)) {
+      this.fail(path, value === undefined ? 'is missing' : 'must be a mapping');
+      return null;
+    }
+    return value;
+  }
+
+  number(parent: Section, key: string, path: string, rule: NumberRule = {}): number | null {
+    const value = parent[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.fail(path, value === undefined ? 'is missing' : `must be a number, got ${JSON.stringify(value)}`);
+      return null;
+    }
+    if (rule.integer && !Number.isInteger(value)) {
+      this.fail(path, `must be a whole number, got ${value}`);
+    }
+    if (rule.min !== undefined && (rule.positive ? value <= rule.min : value < rule.min)) {
+      this.fail(path, `must be ${rule.positive ? 'greater than' : 'at least'} ${rule.min}, got ${value}`);
+    }
+    if (rule.max !== undefined && value > rule.max) {
+      this.fail(path, `must be at most ${rule.max}, got ${value}`);
+    }
+    return value;
+  }
+
+  boolean(parent: Section, key: string, path: string): void {
+    const value = parent[key];
+    if (typeof value !== 'boolean') {
+      this.fail(path, value === undefined ? 'is missing' : `must be true or false, got ${JSON.stringify(value)}`);
+    }
+  }
+
+  list(parent: Section, key: string, path: string): unknown[] | null {
+    const value = parent[key];
+    if (!Array.isArray(value)) {
+      this.fail(path, value === undefined ? 'is missing' : 'must be a list');
+      return null;
+    }
+    if (value.length === 0) {
+      this.fail(path, 'must not be empty');
+      return null;
+    }
+    return value;
+  }
+
+  string(parent: Section, key: string, path: string): string | null {
+    const value = parent[key];
+    if (typeof value !== 'string') {
+      this.fail(path, value === undefined ? 'is missing' : `must be text, got ${JSON.stringify(value)}`);
+      return null;
+    }
+    return value;
+  }
+}
+
+const NON_NEGATIVE: NumberRule = { min: 0 };
+const POSITIVE: NumberRule = { min: 0, positive: true };
+const FRACTION: NumberRule = { min: 0, max: 1 };
+
+/**
+ * Check a parsed ticket config against the TicketConfig interface.
+ * Returns every problem found, each qualified with its YAML path.
+ */
+export function validateTicketConfig(value: unknown): ConfigIssue[] {
+  const v = new Validator();
+
+  if (!isSection(value)) {
+    v.fail('(root)', 'must be a mapping');
+    return v.issues;
+  }
+  const config = value;
+
+  const demo = v.section(config, 'demo', 'demo');
+  let startingBalance: number | null = null;
+  if (demo) {
+    v.boolean(demo, 'enabled', 'demo.enabled');
+    startingBalance = v.number(demo, 'starting_balance', 'demo.starting_balance', NON_NEGATIVE);
+    v.boolean(demo, 'allow_reset', 'demo.allow_reset');
+    v.boolean(demo, 'show_statistics', 'demo.show_statistics');
+  }
+
+  const game = v.section(config, 'game', 'game');
+  if (game) {
+    v.number(game, 'cost_to_play', 'game.cost_to_play', POSITIVE);
+    v.number(game, 'ticket_precision', 'game.ticket_precision', { min: 0, max: 10, integer: true });
+  }
+
+  const difficulties = v.section(config, 'difficulty_settings', 'difficulty_settings');
+  if (difficulties) {
+    if (Object.keys(difficulties).length === 0) {
+      v.fail('difficulty_settings', 'must define at least one difficulty');
+    }
+    Object.keys(difficulties).forEach(key => {
+      const path = `difficulty_settings.${key}`;
+      const difficulty = v.section(difficulties, key, path);
+      if (!difficulty) return;
+      v.string(difficulty, 'name', `${path}.name`);
+      v.number(difficulty, 'reward_multiplier', `${path}.reward_multiplier`, NON_NEGATIVE);
+      v.number(difficulty, 'pattern_display_time_multiplier', `${path}.pattern_display_time_multiplier`, POSITIVE);
+      v.number(difficulty, 'response_time_multiplier', `${path}.response_time_multiplier`, POSITIVE);
+      v.string(difficulty, 'description', `${path}.description`);
+    });
+  }
+
+  const defaultDifficulty = v.string(config, 'default_difficulty', 'default_difficulty');
+  if (defaultDifficulty !== null && difficulties && !(defaultDifficulty in difficulties)) {
+    v.fail(
+      'default_difficulty',
+      `"${defaultDifficulty}" is not defined in difficulty_settings (expected one of: ${Object.keys(difficulties).join(', ')})`
+    );
+  }
+
+  v.number(config, 'base_reward', 'base_reward', NON_NEGATIVE);
+
+  const multipliers = config.round_multipliers;
+  if (!Array.isArray(multipliers)) {
+    v.fail('round_multipliers', multipliers === undefined ? 'is missing' : 'must be a list');
+  } else if (multipliers.length === 0) {
+    v.fail('round_multipliers', 'must list at least one round');
+  } else {
+    const items = itemsOf(multipliers);
+    multipliers.forEach((_, index) => {
+      v.number(items, String(index), `round_multipliers[${index}]`, NON_NEGATIVE);
+    });
+  }
+
+  const bonuses = v.section(config, 'variation_bonuses', 'variation_bonuses');
+  if (bonuses) {
+    const builtIn = ['none', 'reverse', 'ghost', 'speed_chaos', 'color_shuffle', 'selective', 'reverse_combo'];
+    // Registered variations may bring their own keys, and mirror is optional
+    const extra = Object.keys(bonuses).filter(key => !builtIn.includes(key));
+    [...builtIn, ...extra].forEach(key => {
+      v.number(bonuses, key, `variation_bonuses.${key}`, NON_NEGATIVE);
+    });
+  }
+
+  const penalties = v.section(config, 'disabled_variation_penalties', 'disabled_variation_penalties');
+  if (penalties) {
+    v.number(penalties, 'per_variation_penalty', 'disabled_variation_penalties.per_variation_penalty', FRACTION);
+    v.number(penalties, 'max_penalty', 'disabled_variation_penalties.max_penalty', FRACTION);
+  }
+
+  const display = v.section(config, 'display', 'display');
+  if (display) {
+    ['show_balance', 'show_earned', 'show_next_reward', 'animate_rewards'].forEach(key => {
+      v.boolean(display, key, `display.${key}`);
+    });
+    v.string(display, 'decimal_format', 'display.decimal_format');
+  }
+
+  const thresholds = v.section(config, 'feedback_thresholds', 'feedback_thresholds');
+  if (thresholds) {
+    const levels = ['small', 'medium', 'large', 'mega'];
+    const values = levels.map(key => v.number(thresholds, key, `feedback_thresholds.${key}`, NON_NEGATIVE));
+    for (let i = 1; i < levels.length; i++) {
+      const previous = values[i - 1];
+      const current = values[i];
+      if (previous !== null && current !== null && current < previous) {
+        v.fail(
+          `feedback_thresholds.${levels[i]}`,
+          `must not be lower than feedback_thresholds.${levels[i - 1]} (${current} < ${previous})`
+        );
+      }
+    }
+  }
+
+  const animations = v.section(config, 'animations', 'animations');
+  if (animations) {
+    ['ticket_increment_duration', 'per_ticket_delay', 'celebration_duration', 'balance_flash_duration'].forEach(key => {
+      v.number(animations, key, `animations.${key}`, NON_NEGATIVE);
+    });
+  }
+
+  const sounds = v.section(config, 'sounds', 'sounds');
+  if (sounds) {
+    v.boolean(sounds, 'enabled', 'sounds.enabled');
+    ['ticket_award', 'counting', 'milestone', 'insufficient_funds'].forEach(key => {
+      v.string(sounds, key, `sounds.${key}`);
+    });
+  }
+
+  const tracking = v.section(config, 'tracking', 'tracking');
+  if (tracking) {
+    ['save_statistics', 'track_rtp', 'track_distribution'].forEach(key => {
+      v.boolean(tracking, key, `tracking.${key}`);
+    });
+    v.number(tracking, 'max_history', 'tracking.max_history', { min: 0, integer: true });
+  }
+
+  const limits = v.section(config, 'limits', 'limits');
+  if (limits) {
+    const maxBalance = v.number(limits, 'max_balance', 'limits.max_balance', NON_NEGATIVE);
+    const minBalance = v.number(limits, 'min_balance', 'limits.min_balance', NON_NEGATIVE);
+    v.number(limits, 'max_single_payout', 'limits.max_single_payout', NON_NEGATIVE);
+    v.number(limits, 'max_round', 'limits.max_round', { min: 1, integer: true });
+
+    if (maxBalance !== null && minBalance !== null && minBalance > maxBalance) {
+      v.fail('limits.min_balance', `must not exceed limits.max_balance (${minBalance} > ${maxBalance})`);
+    }
+    if (startingBalance !== null && maxBalance !== null && startingBalance > maxBalance) {
+      v.fail('demo.starting_balance', `must not exceed limits.max_balance (${startingBalance} > ${maxBalance})`);
+    }
+  }
+
+  if (config.cash_out !== undefined) {
+    const cashOut = v.section(config, 'cash_out', 'cash_out');
+    if (cashOut) {
+      v.boolean(cashOut, 'enabled', 'cash_out.enabled');
+      v.boolean(cashOut, 'at_risk_pot', 'cash_out.at_risk_pot');
+      v.number(cashOut, 'forfeit_fraction', 'cash_out.forfeit_fraction', FRACTION);
+    }
+  }
+
+  v.number(config, 'rtp_target', 'rtp_target', NON_NEGATIVE);
+
+  const distribution = v.section(config, 'player_distribution', 'player_distribution');
+  if (distribution) {
+    let previous: { round: number; probability: number } | null = null;
+    Object.keys(distribution)
+      .sort((a, b) => Number(a) - Number(b))
+      .forEach(key => {
+        const path = `player_distribution.${key}`;
+        const round = Number(key);
+        if (!Number.isInteger(round) || round < 1) {
+          v.fail(path, 'round must be a whole number of at least 1');
+          return;
+        }
+        const probability = v.number(distribution, key, path, FRACTION);
+        if (probability === null) return;
+        if (previous && probability > previous.probability) {
+          v.fail(path, `must not be higher than round ${previous.round} (${probability} > ${previous.probability})`);
+        }
+        previous = { round, probability };
+      });
+  }
+
+  return v.issues;
+}
+
+const GEM_SLOTS = ['top', 'right', 'bottom', 'left'];
+
+/**
+ * Check the optional controls section. Each key or button may only be
+ * bound to one gem, or to confirm.
+ */
+function checkControls(v: Validator, controls: Section): void {
+  const checkBindings = (key: string, isBinding: (value: unknown) => boolean, expected: string) => {
+    const boundTo = new Map<unknown, string>();
+    const slots = v.section(controls, key, `controls.${key}`);
+    if (!slots) return boundTo;
+
+    GEM_SLOTS.forEach(slot => {
+      const path = `controls.${key}.${slot}`;
+      v.list(slots, slot, path)?.forEach((binding, index) => {
+        if (!isBinding(binding)) {
+          v.fail(`${path}[${index}]`, `must be ${expected}, got ${JSON.stringify(binding)}`);
+          return;
+        }
+        const other = boundTo.get(binding);
+        if (other !== undefined) {
+          v.fail(`${path}[${index}]`, `${JSON.stringify(binding)} is already bound to ${other}`);
+        }
+        boundTo.set(binding, slot);
+      });
+    });
+    return boundTo;
+  };
+  const checkConfirm = (
+    key: string,
+    isBinding: (value: unknown) => boolean,
+    expected: string,
+    boundTo: Map<unknown, string>
+  ) => {
+    v.list(controls, key, `controls.${key}`)?.forEach((binding, index) => {
+      if (!isBinding(binding)) {
+        v.fail(`controls.${key}[${index}]`, `must be ${expected}, got ${JSON.stringify(binding)}`);
+        return;
+      }
+      const gem = boundTo.get(binding);
+      if (gem !== undefined) {
+        v.fail(`controls.${key}[${index}]`, `${JSON.stringify(binding)} is already bound to ${gem}`);
+      }
+    });
+  };
+  const isKey = (value: unknown) => typeof value === 'string' && value.length > 0;
+  const isButton = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+  checkConfirm('confirm_keys', isKey, 'a key code', checkBindings('keys', isKey, 'a key code'));
+  checkConfirm('confirm_buttons', isButton, 'a button index', checkBindings('buttons', isButton, 'a button index'));
+}
+
+/**
+ * Registered variations the unlock schedule can name; plain play, Reverse
+ * Combo and stacks are switched on by the schedule itself
+ */
+const getScheduledVariations = (): string[] => getRegisteredVariations()
+  .filter(v => v !== GameVariation.NONE && v !== GameVariation.REVERSE_COMBINATION && v !== GameVariation.STACKED);
+const getCombinationBases = (): string[] => getScheduledVariations()
+  .filter(v => v !== GameVariation.REVERSE);
+
+/**
+ * Check a list of variation names against the allowed ones
+ */
+function checkVariations(v: Validator, parent: Section, key: string, path: string, allowed: string[]): void {
+  const names = v.list(parent, key, path);
+  names?.forEach((name, index) => {
+    if (typeof name !== 'string' || !allowed.includes(name)) {
+      v.fail(`${path}[${index}]`, `must be one of ${allowed.join(', ')}, got ${JSON.stringify(name)}`);
+    }
+  });
+}
+
+/**
+ * Check a list of entries keyed by from_round, which must start at 1 or
+ * later and increase strictly
+ */
+function checkRoundBands(
+  v: Validator,
+  parent: Section,
+  key: string,
+  path: string,
+  checkEntry: (entry: Section, entryPath: string) => void
+): void {
+  const entries = v.list(parent, key, path);
+  if (!entries) return;
+  const items = itemsOf(entries);
+  let previousRound: number | null = null;
+
+  entries.forEach((_, index) => {
+    const entryPath = `${path}[${index}]`;
+    const entry = v.section(items, String(index), entryPath);
+    if (!entry) return;
+
+    const fromRound = v.number(entry, 'from_round', `${entryPath}.from_round`, { min: 1, integer: true });
+    if (fromRound !== null && previousRound !== null && fromRound <= previousRound) {
+      v.fail(`${entryPath}.from_round`, `must come after round ${previousRound}, got ${fromRound}`);
+    }
+    if (fromRound !== null) previousRound = fromRound;
+
+    checkEntry(entry, entryPath);
+  });
+}
+
+/**
+ * Check a parsed game_config.yml: pacing curves, calibration overrides
+ * and the variation schedule
+ */
+export function validateGameConfig(value: unknown): ConfigIssue[] {
+  const v = new Validator();
+
+  if (!isSection(value)) {
+    v.fail('(root)', 'must be a mapping');
+    return v.issues;
+  }
+  const config = value;
+
+  const pacing = v.section(config, 'pacing', 'pacing');
+  if (pacing) {
+    v.number(pacing, 'initial_pattern_length', 'pacing.initial_pattern_length', { min: 1, integer: true });
+    v.number(pacing, 'length_increase_interval', 'pacing.length_increase_interval', { min: 1, integer: true });
+    const initialTimer = v.number(pacing, 'initial_timer_seconds', 'pacing.initial_timer_seconds', POSITIVE);
+    const minTimer = v.number(pacing, 'min_timer_seconds', 'pacing.min_timer_seconds', POSITIVE);
+    v.number(pacing, 'timer_decrease_per_round', 'pacing.timer_decrease_per_round', NON_NEGATIVE);
+    const initialSpeed = v.number(pacing, 'initial_display_speed', 'pacing.initial_display_speed', POSITIVE);
+    const minSpeed = v.number(pacing, 'min_display_speed', 'pacing.min_display_speed', POSITIVE);
+    v.number(pacing, 'speed_decrease_per_round', 'pacing.speed_decrease_per_round', NON_NEGATIVE);
+
+    if (initialTimer !== null && minTimer !== null && minTimer > initialTimer) {
+      v.fail('pacing.min_timer_seconds', `must not exceed pacing.initial_timer_seconds (${minTimer} > ${initialTimer})`);
+    }
+    if (initialSpeed !== null && minSpeed !== null && minSpeed > initialSpeed) {
+      v.fail('pacing.min_display_speed', `must not exceed pacing.initial_display_speed (${minSpeed} > ${initialSpeed})`);
+    }
+  }
+
+  const calibration = v.section(config, 'calibration', 'calibration');
+  if (calibration) {
+    v.number(calibration, 'display_speed', 'calibration.display_speed', POSITIVE);
+    v.number(calibration, 'timer_seconds', 'calibration.timer_seconds', POSITIVE);
+  }
+
+  const variations = v.section(config, 'variations', 'variations');
+  if (variations) {
+    v.number(variations, 'first_round', 'variations.first_round', { min: 2, integer: true });
+    v.number(variations, 'rounds_per_variation', 'variations.rounds_per_variation', { min: 1, integer: true });
+
+    checkRoundBands(v, variations, 'unlocks', 'variations.unlocks', (entry, path) => {
+      checkVariations(v, entry, 'variations', `${path}.variations`, getScheduledVariations());
+    });
+
+    const combination = v.section(variations, 'combination', 'variations.combination');
+    if (combination) {
+      v.number(combination, 'from_round', 'variations.combination.from_round', { min: 2, integer: true });
+      checkVariations(v, combination, 'bases', 'variations.combination.bases', getCombinationBases());
+    }
+
+    const stacking = v.section(variations, 'stacking', 'variations.stacking');
+    if (stacking) {
+      v.number(stacking, 'from_round', 'variations.stacking.from_round', { min: 2, integer: true });
+      checkVariations(v, stacking, 'pool', 'variations.stacking.pool', getScheduledVariations());
+      checkRoundBands(v, stacking, 'size', 'variations.stacking.size', (entry, path) => {
+        v.number(entry, 'value', `${path}.value`, { min: 2, integer: true });
+      });
+    }
+
+    checkRoundBands(v, variations, 'ghost_opacity', 'variations.ghost_opacity', (entry, path) => {
+      v.number(entry, 'value', `${path}.value`, FRACTION);
+    });
+    checkRoundBands(v, variations, 'chaos_timings', 'variations.chaos_timings', (entry, path) => {
+      const min = v.number(entry, 'min', `${path}.min`, POSITIVE);
+      const max = v.number(entry, 'max', `${path}.max`, POSITIVE);
+      if (min !== null && max !== null && min > max) {
+        v.fail(`${path}.min`, `must not exceed ${path}.max (${min} > ${max})`);
+      }
+    });
+    checkRoundBands(v, variations, 'shining_percentage', 'variations.shining_percentage', (entry, path) => {
+      v.number(entry, 'value', `${path}.value`, { min: 0, max: 1, positive: true });
+    });
+  }
+
+  if (config.controls !== undefined) {
+    const controls = v.section(config, 'controls', 'controls');
+    if (controls) checkControls(v, controls);
+  }
+
+  return v.issues;
+}
+
+/**
+ * Validate and narrow a parsed game_config.yml, throwing
+ * ConfigValidationError with every issue found
+ */
+export function assertValidGameConfig(value: unknown): GameConfigFile {
+  const issues = validateGameConfig(value);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues, 'game_config.yml');
+  }
+  return value as GameConfigFile;
+}
+
+/**
+ * Validate and narrow a parsed config, throwing ConfigValidationError
+ * with every issue found
+ */
+export function assertValidTicketConfig(value: unknown): TicketConfig {
+  const issues = validateTicketConfig(value);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+  return value as TicketConfig;
+}
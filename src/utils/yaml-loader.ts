@@ -1,4 +1,7 @@
 import yaml from 'js-yaml';
+import { assertValidTicketConfig, assertValidGameConfig } from './config-validator';
+import { GAME_CONFIG } from '@/core/game/constants';
+import type { GameConfig, GameVariation, GemSlot } from '@/core/game/types';
 
 export interface TicketConfig {
   demo: {
@@ -30,7 +33,11 @@ export interface TicketConfig {
     speed_chaos: number;
     color_shuffle: number;
     selective: number;
+    /** Added with the Mirror variation; parsing fills in 1.00 when it is left out */
+    mirror: number;
     reverse_combo: number;
+    /** Bonuses of registered variations, by their rewardKey */
+    [key: string]: number;
   };
   disabled_variation_penalties: {
     per_variation_penalty: number;
@@ -74,6 +81,14 @@ export interface TicketConfig {
     max_single_payout: number;
     max_round: number;
   };
+  /** Optional; without it runs only end by failure */
+  cash_out?: {
+    enabled: boolean;
+    /** Collect round rewards in a pot that is only banked on cash-out */
+    at_risk_pot: boolean;
+    /** Share of the pot lost when a round fails */
+    forfeit_fraction: number;
+  };
   rtp_target: number;
   player_distribution: {
     [key: number]: number;
@@ -83,15 +98,130 @@ export interface TicketConfig {
 export async function loadTicketConfig(path: string): Promise<TicketConfig> {
   try {
     const response = await fetch(path);
+    if (!response.ok) {
+      throw new Error(`Could not fetch ${path} (HTTP ${response.status})`);
+    }
     const yamlText = await response.text();
-    const config = yaml.load(yamlText) as TicketConfig;
-    return config;
+    return parseTicketConfig(yamlText);
   } catch (error) {
     console.error('Failed to load ticket configuration:', error);
     throw error;
   }
 }
 
+/**
+ * Parse and validate ticket config YAML.
+ * Throws ConfigValidationError listing every invalid field.
+ */
 export function parseTicketConfig(yamlText: string): TicketConfig {
-  return yaml.load(yamlText) as TicketConfig;
-}
\ No newline at end of file
+  const config = assertValidTicketConfig(yaml.load(yamlText));
+  // Configs written before the Mirror variation have no bonus for it
+  config.variation_bonuses.mirror ??= 1.00;
+  return config;
+}
+
+/**
+ * game_config.yml as written, before conversion to GameConfig
+ */
+export interface GameConfigFile {
+  pacing: {
+    initial_pattern_length: number;
+    length_increase_interval: number;
+    initial_timer_seconds: number;
+    min_timer_seconds: number;
+    timer_decrease_per_round: number;
+    initial_display_speed: number;
+    min_display_speed: number;
+    speed_decrease_per_round: number;
+  };
+  calibration: {
+    display_speed: number;
+    timer_seconds: number;
+  };
+  variations: {
+    first_round: number;
+    rounds_per_variation: number;
+    unlocks: { from_round: number; variations: GameVariation[] }[];
+    combination: { from_round: number; bases: GameVariation[] };
+    stacking: { from_round: number; pool: GameVariation[]; size: { from_round: number; value: number }[] };
+    ghost_opacity: { from_round: number; value: number }[];
+    chaos_timings: { from_round: number; min: number; max: number }[];
+    shining_percentage: { from_round: number; value: number }[];
+  };
+  /** Optional; the built-in controls apply without it */
+  controls?: {
+    keys: Record<GemSlot, string[]>;
+    confirm_keys: string[];
+    buttons: Record<GemSlot, number[]>;
+    confirm_buttons: number[];
+  };
+}
+
+export async function loadGameConfig(path: string): Promise<GameConfig> {
+  try {
+    const response = await fetch(path);
+    if (!response.ok) {
+      throw new Error(`Could not fetch ${path} (HTTP ${response.status})`);
+    }
+    const yamlText = await response.text();
+    return parseGameConfig(yamlText);
+  } catch (error) {
+    console.error('Failed to load game configuration:', error);
+    throw error;
+  }
+}
+
+/**
+ * Parse and validate game config YAML into the engine's GameConfig.
+ * Throws ConfigValidationError listing every invalid field.
+ */
+export function parseGameConfig(yamlText: string): GameConfig {
+  const file = assertValidGameConfig(yaml.load(yamlText));
+  const { pacing, calibration, variations, controls } = file;
+
+  return {
+    initialPatternLength: pacing.initial_pattern_length,
+    initialTimerSeconds: pacing.initial_timer_seconds,
+    initialDisplaySpeed: pacing.initial_display_speed,
+    minTimerSeconds: pacing.min_timer_seconds,
+    minDisplaySpeed: pacing.min_display_speed,
+    timerDecreasePerRound: pacing.timer_decrease_per_round,
+    speedDecreasePerRound: pacing.speed_decrease_per_round,
+    lengthIncreaseInterval: pacing.length_increase_interval,
+    calibration: {
+      displaySpeed: calibration.display_speed,
+      timerSeconds: calibration.timer_seconds
+    },
+    variations: {
+      firstRound: variations.first_round,
+      roundsPerVariation: variations.rounds_per_variation,
+      unlocks: variations.unlocks.map(unlock => ({
+        fromRound: unlock.from_round,
+        variations: [...unlock.variations]
+      })),
+      combination: {
+        fromRound: variations.combination.from_round,
+        bases: [...variations.combination.bases]
+      },
+      stacking: {
+        fromRound: variations.stacking.from_round,
+        pool: [...variations.stacking.pool],
+        size: variations.stacking.size.map(band => ({ fromRound: band.from_round, value: band.value }))
+      },
+      ghostOpacity: variations.ghost_opacity.map(band => ({ fromRound: band.from_round, value: band.value })),
+      chaosTimings: variations.chaos_timings.map(band => ({
+        fromRound: band.from_round,
+        value: { min: band.min, max: band.max }
+      })),
+      shiningPercentage: variations.shining_percentage.map(band => ({ fromRound: band.from_round, value: band.value }))
+    },
+    controls: controls
+      ? {
+          keys: structuredClone(controls.keys),
+          confirmKeys: [...controls.confirm_keys],
+          buttons: structuredClone(controls.buttons),
+          confirmButtons: [...controls.confirm_buttons]
+        }
+      : structuredClone(GAME_CONFIG.controls)
+  };
+}
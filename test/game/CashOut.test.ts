@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GameEngine } from '@/core/game/GameEngine';
+import { TicketManager } from '@/core/economy/TicketManager';
+import { MemoryStorageAdapter } from '@/core/storage/MemoryStorageAdapter';
+import { ReplayPlayer } from '@/core/replay/ReplayPlayer';
+import { GameState } from '@/core/game/types';
+import type { TicketConfig } from '@/utils/yaml-loader';
+import { validateTicketConfig } from '@/utils/config-validator';
+import { failRound, loadTicketConfig, playRound, playRounds } from '../helpers';
+
+const loadConfig = (cashOut?: Partial<NonNullable<TicketConfig['cash_out']>>): TicketConfig => ({
+  ...loadTicketConfig(),
+  cash_out: { enabled: true, at_risk_pot: false, forfeit_fraction: 1, ...cashOut }
+});
+
+describe('TicketManager pot', () => {
+  it('should credit rewards straight to the balance without the pot', () => {
+    const ticketManager = new TicketManager(loadConfig());
+
+    ticketManager.awardRoundReward(2.5);
+
+    expect(ticketManager.getBalance()).toBe(102.5);
+    expect(ticketManager.getPot()).toBe(0);
+  });
+
+  it('should collect rewards in the pot until cash-out', () => {
+    const ticketManager = new TicketManager(loadConfig({ at_risk_pot: true }));
+
+    ticketManager.awardRoundReward(2.5);
+    ticketManager.awardRoundReward(1.25);
+    expect(ticketManager.getBalance()).toBe(100);
+    expect(ticketManager.getPot()).toBe(3.75);
+
+    expect(ticketManager.cashOut()).toBe(3.75);
+    expect(ticketManager.getBalance()).toBe(103.75);
+    expect(ticketManager.getTotalEarned()).toBe(3.75);
+    expect(ticketManager.getPot()).toBe(0);
+  });
+
+  it('should forfeit the configured share of the pot and bank the rest', () => {
+    const ticketManager = new TicketManager(loadConfig({ at_risk_pot: true, forfeit_fraction: 0.5 }));
+    ticketManager.awardRoundReward(5.01);
+
+    expect(ticketManager.forfeitPot()).toEqual({ forfeited: 2.51, banked: 2.5 });
+    expect(ticketManager.getBalance()).toBe(102.5);
+    expect(ticketManager.getTotalEarned()).toBe(2.5);
+    expect(ticketManager.getPot()).toBe(0);
+  });
+
+  it('should lose the whole pot by default', () => {
+    const ticketManager = new TicketManager(loadConfig({ at_risk_pot: true }));
+    ticketManager.awardRoundReward(4);
+
+    expect(ticketManager.forfeitPot()).toEqual({ forfeited: 4, banked: 0 });
+    expect(ticketManager.getBalance()).toBe(100);
+  });
+
+  it('should settle a pot left by an abandoned run before the next game', () => {
+    const ticketManager = new TicketManager(loadConfig({ at_risk_pot: true }));
+    ticketManager.deductGameCost();
+    ticketManager.awardRoundReward(4);
+
+    ticketManager.deductGameCost();
+
+    expect(ticketManager.getPot()).toBe(0);
+    expect(ticketManager.getBalance()).toBe(80);
+  });
+
+  it('should keep the pot across reloads', () => {
+    const storage = new MemoryStorageAdapter();
+    const ticketManager = new TicketManager(loadConfig({ at_risk_pot: true }), storage);
+    ticketManager.awardRoundReward(3);
+
+    expect(new TicketManager(loadConfig({ at_risk_pot: true }), storage).getPot()).toBe(3);
+  });
+
+  it('should have nothing to cash out when the pot is off', () => {
+    const ticketManager = new TicketManager(loadConfig());
+    ticketManager.awardRoundReward(3);
+
+    expect(ticketManager.isPotEnabled()).toBe(false);
+    expect(ticketManager.cashOut()).toBe(0);
+    expect(ticketManager.getBalance()).toBe(103);
+  });
+});
+
+describe('Cashing out', () => {
+  let ticketManager: TicketManager;
+  let game: GameEngine;
+
+  const createGame = (cashOut?: Partial<NonNullable<TicketConfig['cash_out']>>) => {
+    ticketManager = new TicketManager(loadConfig(cashOut));
+    game = new GameEngine(ticketManager, { seed: 5, strictTransitions: true });
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should end the run between rounds and bank the pot', () => {
+    createGame({ at_risk_pot: true });
+    const listener = vi.fn();
+    game.on('cashedOut', listener);
+    playRounds(game, 4);
+    const pot = ticketManager.getPot();
+    const balance = ticketManager.getBalance();
+
+    expect(pot).toBeGreaterThan(0);
+    expect(game.cashOut()).toBe(true);
+
+    expect(game.getState()).toBe(GameState.CASHED_OUT);
+    expect(ticketManager.getBalance()).toBeCloseTo(balance + pot, 2);
+    expect(listener).toHaveBeenCalledWith({ round: 4, banked: pot, score: game.getScore() });
+  });
+
+  it('should close the game record on cash-out', () => {
+    createGame();
+    playRounds(game, 3);
+
+    game.cashOut();
+
+    expect(ticketManager.getHistory().isGameOpen()).toBe(false);
+    expect(ticketManager.getHistory().getRecords()[0].roundsCompleted).toBe(3);
+  });
+
+  it('should only cash out after a completed round', () => {
+    createGame();
+    game.startGameWithTickets();
+
+    expect(game.cashOut()).toBe(false);
+    expect(game.getState()).toBe(GameState.CALIBRATION);
+
+    playRound(game);
+    game.continueToNextRound();
+    expect(game.cashOut()).toBe(false);
+  });
+
+  it('should not cash out unless the config enables it', () => {
+    createGame({ enabled: false });
+    playRounds(game, 2);
+
+    expect(game.cashOut()).toBe(false);
+    expect(game.getState()).toBe(GameState.ROUND_COMPLETE);
+  });
+
+  it('should not continue after cashing out', () => {
+    createGame();
+    playRounds(game, 2);
+    game.cashOut();
+
+    expect(game.continueToNextRound()).toBe(false);
+    expect(game.getState()).toBe(GameState.CASHED_OUT);
+  });
+
+  it('should forfeit the pot when a round fails', () => {
+    createGame({ at_risk_pot: true, forfeit_fraction: 0.5 });
+    const listener = vi.fn();
+    game.on('potForfeited', listener);
+    playRounds(game, 3);
+    const pot = ticketManager.getPot();
+    const balance = ticketManager.getBalance();
+    game.continueToNextRound();
+
+    failRound(game);
+
+    const { forfeited, banked } = listener.mock.calls[0][0];
+    expect(forfeited + banked).toBeCloseTo(pot, 2);
+    expect(ticketManager.getBalance()).toBeCloseTo(balance + banked, 2);
+    expect(ticketManager.getPot()).toBe(0);
+  });
+
+  it('should forfeit the pot when the run is abandoned', () => {
+    createGame({ at_risk_pot: true });
+    playRounds(game, 3);
+    const balance = ticketManager.getBalance();
+
+    game.abandonRun();
+
+    expect(ticketManager.getPot()).toBe(0);
+    expect(ticketManager.getBalance()).toBe(balance);
+  });
+
+  it('should replay a cashed-out run', () => {
+    createGame({ at_risk_pot: true });
+    playRounds(game, 3);
+    game.cashOut();
+    const replay = game.getReplay()!;
+
+    const player = new ReplayPlayer(replay);
+    const replayed = player.runToEnd();
+
+    expect(player.cashesOutBefore(4)).toBe(true);
+    expect(player.cashesOutBefore(3)).toBe(false);
+    expect(player.getDivergence()).toBeNull();
+    expect(replayed.getState()).toBe(GameState.CASHED_OUT);
+    expect(replayed.getScore()).toBe(game.getScore());
+  });
+});
+
+describe('cash_out config', () => {
+  it('should be optional', () => {
+    const config: Partial<TicketConfig> = loadConfig();
+    delete config.cash_out;
+
+    expect(validateTicketConfig(config)).toEqual([]);
+  });
+
+  it('should reject a forfeit fraction above 1', () => {
+    const config = loadConfig({ forfeit_fraction: 1.5 });
+
+    expect(validateTicketConfig(config).map(issue => issue.path)).toEqual(['cash_out.forfeit_fraction']);
+  });
+});
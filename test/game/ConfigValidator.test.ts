@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { readFileSync } from 'node:fs';
+import yaml from 'js-yaml';
+import {
+  validateTicketConfig,
+  assertValidTicketConfig,
+  ConfigValidationError
+} from '@/utils/config-validator';
+import { parseTicketConfig } from '@/utils/yaml-loader';
+
+const yamlText = readFileSync('public/ticket_config.yml', 'utf8');
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const loadRaw = (): any => yaml.load(yamlText);
+
+const paths = (value: unknown) => validateTicketConfig(value).map(issue => issue.path);
+
+describe('Ticket Config Validation', () => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let config: any;
+
+  beforeEach(() => {
+    config = loadRaw();
+  });
+
+  it('should accept the shipped ticket_config.yml', () => {
+    expect(validateTicketConfig(config)).toEqual([]);
+    expect(() => parseTicketConfig(yamlText)).not.toThrow();
+  });
+
+  it('should reject a non-mapping document', () => {
+    expect(paths('just text')).toEqual(['(root)']);
+    expect(paths(null)).toEqual(['(root)']);
+  });
+
+  it('should report missing sections and fields by path', () => {
+    delete config.limits;
+    delete config.game.cost_to_play;
+
+    expect(paths(config)).toEqual(expect.arrayContaining(['limits', 'game.cost_to_play']));
+  });
+
+  it('should report wrong types', () => {
+    config.demo.enabled = 'yes';
+    config.base_reward = '2.50';
+    config.sounds.counting = 4;
+
+    expect(paths(config)).toEqual(['demo.enabled', 'base_reward', 'sounds.counting']);
+  });
+
+  it('should require default_difficulty to exist in difficulty_settings', () => {
+    config.default_difficulty = 'nomral';
+    const [issue] = validateTicketConfig(config);
+
+    expect(issue.path).toBe('default_difficulty');
+    expect(issue.message).toContain('easy, normal, hard');
+  });
+
+  it('should validate each difficulty', () => {
+    config.difficulty_settings.hard.reward_multiplier = -1;
+    config.difficulty_settings.easy.response_time_multiplier = 0;
+
+    expect(paths(config)).toEqual([
+      'difficulty_settings.easy.response_time_multiplier',
+      'difficulty_settings.hard.reward_multiplier'
+    ]);
+  });
+
+  it('should reject negative or non-numeric round multipliers', () => {
+    config.round_multipliers[3] = -0.35;
+    config.round_multipliers[7] = null;
+
+    expect(paths(config)).toEqual(['round_multipliers[3]', 'round_multipliers[7]']);
+  });
+
+  it('should require at least one round multiplier', () => {
+    config.round_multipliers = [];
+    expect(paths(config)).toEqual(['round_multipliers']);
+  });
+
+  it('should reject negative variation bonuses', () => {
+    config.variation_bonuses.ghost = -1.15;
+    delete config.variation_bonuses.reverse_combo;
+
+    expect(paths(config)).toEqual(['variation_bonuses.ghost', 'variation_bonuses.reverse_combo']);
+  });
+
+  it('should keep penalties between 0 and 1', () => {
+    config.disabled_variation_penalties.max_penalty = 1.5;
+    expect(paths(config)).toEqual(['disabled_variation_penalties.max_penalty']);
+  });
+
+  it('should require feedback thresholds in ascending order', () => {
+    config.feedback_thresholds.large = 4;
+    const issues = validateTicketConfig(config);
+
+    expect(issues.map(issue => issue.path)).toEqual(['feedback_thresholds.large']);
+    expect(issues[0].message).toContain('feedback_thresholds.medium');
+  });
+
+  it('should check limits against each other and the starting balance', () => {
+    config.limits.min_balance = 20000;
+    config.demo.starting_balance = 20000;
+    config.limits.max_round = 0;
+
+    expect(paths(config)).toEqual(['limits.max_round', 'limits.min_balance', 'demo.starting_balance']);
+  });
+
+  it('should require whole numbers where counts are expected', () => {
+    config.tracking.max_history = 10.5;
+    config.game.ticket_precision = 1.5;
+
+    expect(paths(config)).toEqual(['game.ticket_precision', 'tracking.max_history']);
+  });
+
+  it('should require player_distribution to be probabilities that never rise', () => {
+    config.player_distribution[5] = 1.2;
+    config.player_distribution[12] = 0.5;
+
+    expect(paths(config)).toEqual([
+      'player_distribution.5',
+      'player_distribution.5',
+      'player_distribution.12'
+    ]);
+  });
+
+  it('should collect every issue at once', () => {
+    config.base_reward = -1;
+    config.rtp_target = 'high';
+    config.tracking.track_rtp = 1;
+
+    expect(validateTicketConfig(config)).toHaveLength(3);
+  });
+
+  it('should throw a ConfigValidationError listing every issue', () => {
+    config.base_reward = -1;
+    config.default_difficulty = 'insane';
+
+    try {
+      assertValidTicketConfig(config);
+      expect.fail('expected a ConfigValidationError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ConfigValidationError);
+      const validationError = error as ConfigValidationError;
+      expect(validationError.issues.map(issue => issue.path)).toEqual(['default_difficulty', 'base_reward']);
+      expect(validationError.message).toContain('base_reward: must be at least 0');
+    }
+  });
+
+  it('should make parseTicketConfig reject invalid YAML configs', () => {
+    const broken = yamlText.replace('default_difficulty: "normal"', 'default_difficulty: "medium"');
+    expect(() => parseTicketConfig(broken)).toThrow(ConfigValidationError);
+  });
+});
@@ -116,12 +116,7 @@ describe('GameEngine Class', () => {
           }
           game.startPlayerInput()
           // Complete the round successfully (handle REVERSE variation)
-          const pattern = game.getPattern()
-          const variation = game.getCurrentVariation()
-          const inputPattern = (variation === GameVariation.REVERSE || 
-                               variation === GameVariation.REVERSE_COMBINATION) 
-                               ? [...pattern].reverse() 
-                               : pattern
+          const inputPattern = game.getRequiredInput()
           inputPattern.forEach(gem => game.handlePlayerInput(gem))
         }
         
@@ -191,6 +186,8 @@ describe('GameEngine Class', () => {
 
       timerValues.forEach(({ round, expected }) => {
         game = new GameEngine()
+        // Selective Attention shortens the timer along with the input
+        game.getVariationManager().setDisabledVariations([GameVariation.SELECTIVE_ATTENTION])
         // Simulate advancing to specific round
         for (let i = 1; i < round; i++) {
           game.startGame()
@@ -202,12 +199,7 @@ describe('GameEngine Class', () => {
             game.startPatternDisplay()
           }
           game.startPlayerInput()
-          const pattern = game.getPattern()
-          const variation = game.getCurrentVariation()
-          const inputPattern = (variation === GameVariation.REVERSE || 
-                               variation === GameVariation.REVERSE_COMBINATION) 
-                               ? [...pattern].reverse() 
-                               : pattern
+          const inputPattern = game.getRequiredInput()
           inputPattern.forEach(gem => game.handlePlayerInput(gem))
         }
         
@@ -248,12 +240,7 @@ describe('GameEngine Class', () => {
             game.startPatternDisplay()
           }
           game.startPlayerInput()
-          const pattern = game.getPattern()
-          const variation = game.getCurrentVariation()
-          const inputPattern = (variation === GameVariation.REVERSE || 
-                               variation === GameVariation.REVERSE_COMBINATION) 
-                               ? [...pattern].reverse() 
-                               : pattern
+          const inputPattern = game.getRequiredInput()
           inputPattern.forEach(gem => game.handlePlayerInput(gem))
         }
         
@@ -270,7 +257,7 @@ describe('GameEngine Class', () => {
         { rounds: [5, 6, 7], possibleVariations: [GameVariation.GHOST, GameVariation.SELECTIVE_ATTENTION] },
         { rounds: [8, 9, 10], possibleVariations: [GameVariation.GHOST, GameVariation.SELECTIVE_ATTENTION, GameVariation.SPEED_CHAOS] },
         { rounds: [11, 12, 13], possibleVariations: [GameVariation.GHOST, GameVariation.SELECTIVE_ATTENTION, GameVariation.SPEED_CHAOS, GameVariation.COLOR_SHUFFLE] },
-        { rounds: [14, 15, 16], possibleVariations: [GameVariation.GHOST, GameVariation.SELECTIVE_ATTENTION, GameVariation.SPEED_CHAOS, GameVariation.COLOR_SHUFFLE, GameVariation.REVERSE] },
+        { rounds: [14, 15, 16], possibleVariations: [GameVariation.GHOST, GameVariation.SELECTIVE_ATTENTION, GameVariation.SPEED_CHAOS, GameVariation.COLOR_SHUFFLE, GameVariation.REVERSE, GameVariation.MIRROR] },
         { rounds: [17, 18, 19], possibleVariations: [GameVariation.REVERSE_COMBINATION] },
       ]
 
@@ -287,12 +274,7 @@ describe('GameEngine Class', () => {
             game.startPatternDisplay()
           }
           game.startPlayerInput()
-          const pattern = game.getPattern()
-          const variation = game.getCurrentVariation()
-          const inputPattern = (variation === GameVariation.REVERSE || 
-                               variation === GameVariation.REVERSE_COMBINATION) 
-                               ? [...pattern].reverse() 
-                               : pattern
+          const inputPattern = game.getRequiredInput()
           inputPattern.forEach(gem => game.handlePlayerInput(gem))
         }
         
@@ -341,16 +323,8 @@ describe('GameEngine Class', () => {
           game.startPatternDisplay()
         }
         game.startPlayerInput()
-        const pattern = game.getPattern()
-        
         // Handle variations correctly
-        const variation = game.getCurrentVariation()
-        if (variation === GameVariation.REVERSE || variation === GameVariation.REVERSE_COMBINATION) {
-          const reversedPattern = [...pattern].reverse()
-          reversedPattern.forEach(gem => game.handlePlayerInput(gem))
-        } else {
-          pattern.forEach(gem => game.handlePlayerInput(gem))
-        }
+        game.getRequiredInput().forEach(gem => game.handlePlayerInput(gem))
       }
       
       // Now in round 14 - REVERSE should be available
@@ -395,12 +369,7 @@ describe('GameEngine Class', () => {
           game.startPatternDisplay()
         }
         game.startPlayerInput()
-        const pattern = game.getPattern()
-        const variation = game.getCurrentVariation()
-        const inputPattern = (variation === GameVariation.REVERSE || 
-                             variation === GameVariation.REVERSE_COMBINATION) 
-                             ? [...pattern].reverse() 
-                             : pattern
+        const inputPattern = game.getRequiredInput()
         inputPattern.forEach(gem => game.handlePlayerInput(gem))
       }
       
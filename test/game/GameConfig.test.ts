@@ -0,0 +1,229 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { readFileSync } from 'node:fs';
+import yaml from 'js-yaml';
+import { GameEngine } from '@/core/game/GameEngine';
+import { GAME_CONFIG } from '@/core/game/constants';
+import { GameState, GameVariation, GemstoneType } from '@/core/game/types';
+import type { GameConfig } from '@/core/game/types';
+import { VariationManager } from '@/core/variations/VariationManager';
+import { SeededRandom } from '@/core/game/SeededRandom';
+import { ReplayPlayer } from '@/core/replay/ReplayPlayer';
+import { parseReplay, serializeReplay } from '@/core/replay/ReplayRecorder';
+import { parseGameConfig } from '@/utils/yaml-loader';
+import { validateGameConfig, ConfigValidationError } from '@/utils/config-validator';
+
+const yamlText = readFileSync('public/game_config.yml', 'utf8');
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const loadRaw = (): any => yaml.load(yamlText);
+
+const customConfig = (): GameConfig => {
+  const config = structuredClone(GAME_CONFIG);
+  config.initialPatternLength = 6;
+  config.calibration = { displaySpeed: 1500, timerSeconds: 20 };
+  config.variations.firstRound = 3;
+  config.variations.roundsPerVariation = 2;
+  config.variations.unlocks = [{ fromRound: 3, variations: [GameVariation.REVERSE] }];
+  config.variations.combination = { fromRound: 9, bases: [GameVariation.GHOST] };
+  config.variations.ghostOpacity = [{ fromRound: 1, value: 0.5 }, { fromRound: 9, value: 0.1 }];
+  return config;
+};
+
+describe('Game Config', () => {
+  describe('game_config.yml', () => {
+    it('should match the built-in defaults', () => {
+      expect(parseGameConfig(yamlText)).toEqual(GAME_CONFIG);
+    });
+
+    it('should pass validation', () => {
+      expect(validateGameConfig(loadRaw())).toEqual([]);
+    });
+  });
+
+  describe('Validation', () => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let raw: any;
+    const paths = () => validateGameConfig(raw).map(issue => issue.path);
+
+    beforeEach(() => {
+      raw = loadRaw();
+    });
+
+    it('should report missing sections', () => {
+      delete raw.calibration;
+      expect(paths()).toEqual(['calibration']);
+    });
+
+    it('should reject unknown variation names', () => {
+      raw.variations.unlocks[1].variations.push('TELEPORT');
+      raw.variations.combination.bases = ['REVERSE'];
+
+      expect(paths()).toEqual([
+        'variations.unlocks[1].variations[2]',
+        'variations.combination.bases[0]'
+      ]);
+    });
+
+    it('should require bands in increasing round order', () => {
+      raw.variations.ghost_opacity[2].from_round = 3;
+      expect(paths()).toEqual(['variations.ghost_opacity[2].from_round']);
+    });
+
+    it('should reject empty schedules', () => {
+      raw.variations.unlocks = [];
+      expect(paths()).toEqual(['variations.unlocks']);
+    });
+
+    it('should check ranges', () => {
+      raw.variations.chaos_timings[0].min = 1000;
+      raw.variations.ghost_opacity[0].value = 2;
+      raw.pacing.min_timer_seconds = 10;
+
+      expect(paths()).toEqual([
+        'pacing.min_timer_seconds',
+        'variations.ghost_opacity[0].value',
+        'variations.chaos_timings[0].min'
+      ]);
+    });
+
+    it('should treat controls as optional', () => {
+      delete raw.controls;
+      expect(paths()).toEqual([]);
+      expect(parseGameConfig(yaml.dump(raw)).controls).toEqual(GAME_CONFIG.controls);
+    });
+
+    it('should reject a key or button bound to two gems', () => {
+      raw.controls.keys.left.push('KeyW');
+      raw.controls.buttons.top.push(-1);
+
+      expect(paths()).toEqual(['controls.keys.left[4]', 'controls.buttons.top[2]']);
+    });
+
+    it('should reject a confirm key or button that also picks a gem', () => {
+      raw.controls.confirm_keys.push('KeyS');
+      raw.controls.confirm_buttons.push(0);
+
+      expect(paths()).toEqual(['controls.confirm_keys[3]', 'controls.confirm_buttons[2]']);
+    });
+
+    it('should throw from parseGameConfig with the file name', () => {
+      const broken = yamlText.replace('rounds_per_variation: 3', 'rounds_per_variation: 0');
+      try {
+        parseGameConfig(broken);
+        expect.fail('expected a ConfigValidationError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ConfigValidationError);
+        expect((error as ConfigValidationError).source).toBe('game_config.yml');
+      }
+    });
+  });
+
+  describe('Variation Schedule', () => {
+    let manager: VariationManager;
+
+    beforeEach(() => {
+      manager = new VariationManager(new SeededRandom(1), customConfig().variations);
+    });
+
+    it('should unlock variations from the schedule', () => {
+      expect(manager.getAvailableVariations(2)).toEqual([]);
+      expect(manager.getAvailableVariations(3)).toEqual([GameVariation.REVERSE]);
+      expect(manager.getAvailableVariations(9)).toEqual([GameVariation.REVERSE_COMBINATION]);
+    });
+
+    it('should combine with the configured bases only', () => {
+      manager.selectVariation(9);
+      expect(manager.getCombinationBase()).toBe(GameVariation.GHOST);
+    });
+
+    it('should count variation blocks in roundsPerVariation', () => {
+      expect(manager.getVariationDifficulty(GameVariation.REVERSE, 3)).toBe(1);
+      expect(manager.getVariationDifficulty(GameVariation.REVERSE, 4)).toBe(2);
+      expect(manager.getVariationDifficulty(GameVariation.REVERSE, 5)).toBe(1);
+    });
+
+    it('should read intensity from round bands', () => {
+      expect(manager.getGhostOpacity(2)).toBe(0.5);
+      expect(manager.getGhostOpacity(8)).toBe(0.5);
+      expect(manager.getGhostOpacity(9)).toBe(0.1);
+      expect(manager.getGhostOpacity(40)).toBe(0.1);
+    });
+
+    it('should switch schedules at runtime', () => {
+      manager.setSchedule(GAME_CONFIG.variations);
+      expect(manager.getAvailableVariations(2)).toEqual([GameVariation.GHOST]);
+    });
+  });
+
+  describe('Engine', () => {
+    it('should use calibration overrides for round 1', () => {
+      const game = new GameEngine(undefined, { seed: 1, gameConfig: customConfig() });
+      game.startGame();
+      game.startPatternDisplay();
+      game.startPlayerInput();
+
+      expect(game.getDisplaySpeed()).toBe(1500);
+      expect(game.getTimerSeconds()).toBe(20);
+    });
+
+    it('should use the configured pacing after calibration', () => {
+      const game = new GameEngine(undefined, { seed: 1, gameConfig: customConfig() });
+      game.startGame();
+      game.startPatternDisplay();
+      game.startPlayerInput();
+      game.getPattern().forEach(gem => game.handlePlayerInput(gem));
+      game.startGame();
+
+      expect(game.getPattern()).toHaveLength(6);
+      expect(game.getCurrentVariation()).toBe(GameVariation.NONE);
+    });
+
+    it('should apply a config loaded later', () => {
+      const game = new GameEngine(undefined, { seed: 1 });
+      game.setGameConfig(customConfig());
+      game.startGame();
+
+      expect(game.getDisplaySpeed()).toBe(1500);
+      expect(game.getGameConfig().initialPatternLength).toBe(6);
+    });
+
+    it('should record the config in replays and play back with it', () => {
+      const game = new GameEngine(undefined, { seed: 1, gameConfig: customConfig() });
+      game.startGame();
+      game.startPatternDisplay();
+      game.startPlayerInput();
+      const pattern = game.getPattern();
+      game.handlePlayerInput(Object.values(GemstoneType).find(g => g !== pattern[0])!);
+
+      const replay = parseReplay(serializeReplay(game.getReplay()!));
+      expect(replay.gameConfig).toEqual(customConfig());
+
+      const player = new ReplayPlayer(replay);
+      const replayed = player.runToEnd();
+      expect(player.getDivergence()).toBeNull();
+      expect(replayed.getState()).toBe(GameState.ROUND_FAILED);
+      expect(replayed.getGameConfig()).toEqual(customConfig());
+    });
+
+    it('should restore the live config after playback', () => {
+      const game = new GameEngine(undefined, { seed: 1 });
+      const recorded = new GameEngine(undefined, { seed: 1, gameConfig: customConfig() });
+      recorded.startGame();
+
+      const player = new ReplayPlayer(recorded.getReplay()!, game);
+      expect(game.getGameConfig().initialPatternLength).toBe(6);
+      player.stop();
+      expect(game.getGameConfig()).toBe(GAME_CONFIG);
+    });
+
+    it('should fill in the built-in schedule for older replays', () => {
+      const game = new GameEngine(undefined, { seed: 1 });
+      game.startGame();
+      const replay = game.getReplay()!;
+      const legacy = { ...replay, gameConfig: { ...replay.gameConfig } } as Record<string, unknown>;
+      delete (legacy.gameConfig as Record<string, unknown>).variations;
+
+      expect(parseReplay(JSON.stringify(legacy)).gameConfig.variations).toEqual(GAME_CONFIG.variations);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GameEngine } from '@/core/game/GameEngine';
+import { GameEventEmitter } from '@/core/game/GameEventEmitter';
+import { TicketManager } from '@/core/economy/TicketManager';
+import { FailureReason, GameState, GemstoneType } from '@/core/game/types';
+import type { GameEventMap } from '@/core/game/types';
+import { loadTicketConfig } from '../helpers';
+
+const expectedInput = (game: GameEngine): GemstoneType[] => game.getExpectedInput();
+
+const wrongGem = (gem: GemstoneType): GemstoneType =>
+  gem === GemstoneType.EMERALD ? GemstoneType.CUSHION : GemstoneType.EMERALD;
+
+describe('GameEventEmitter', () => {
+  it('should call listeners until they unsubscribe', () => {
+    const emitter = new GameEventEmitter();
+    const listener = vi.fn();
+    const unsubscribe = emitter.on('gameOver', listener);
+
+    emitter.emit('gameOver', { round: 3, score: 120, reason: FailureReason.TIMEOUT });
+    unsubscribe();
+    emitter.emit('gameOver', { round: 4, score: 200, reason: FailureReason.TIMEOUT });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ round: 3, score: 120, reason: FailureReason.TIMEOUT });
+  });
+
+  it('should keep notifying other listeners when one throws', () => {
+    const emitter = new GameEventEmitter();
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const listener = vi.fn();
+    emitter.on('gameOver', () => { throw new Error('boom'); });
+    emitter.on('gameOver', listener);
+
+    emitter.emit('gameOver', { round: 1, score: 0, reason: FailureReason.WRONG_GEM });
+
+    expect(listener).toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+});
+
+describe('GameEngine events', () => {
+  let game: GameEngine;
+  let events: Array<[keyof GameEventMap, unknown]>;
+
+  const record = (...names: Array<keyof GameEventMap>) => {
+    names.forEach(name => game.on(name, payload => events.push([name, payload])));
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    game = new GameEngine(new TicketManager(loadTicketConfig()), { seed: 42 });
+    events = [];
+  });
+
+  it('should announce the round, its pattern and state changes on start', () => {
+    record('stateChanged', 'roundStarted', 'patternGenerated');
+
+    game.startGameWithTickets();
+
+    expect(events).toEqual([
+      ['stateChanged', { from: GameState.INITIALIZATION, to: GameState.CALIBRATION, round: 1 }],
+      ['roundStarted', { round: 1, variation: game.getCurrentVariation(), combinationBase: null }],
+      ['patternGenerated', { round: 1, pattern: game.getPattern() }]
+    ]);
+  });
+
+  it('should report each accepted input and then the reward and completed round', () => {
+    game.startGameWithTickets();
+    game.startPlayerInput();
+    const expected = expectedInput(game);
+    record('inputAccepted', 'rewardAwarded', 'roundCompleted', 'stateChanged');
+
+    expected.forEach(gem => game.handlePlayerInput(gem));
+
+    const names = events.map(([name]) => name);
+    expect(names).toEqual([
+      'inputAccepted', 'inputAccepted', 'inputAccepted', 'inputAccepted',
+      'stateChanged', 'rewardAwarded', 'roundCompleted'
+    ]);
+    expect(events[0][1]).toEqual({ gem: expected[0], index: 0, round: 1 });
+    expect(events[5][1]).toEqual({ round: 1, amount: game.getLastReward(), score: game.getScore() });
+    expect(events[6][1]).toEqual({ round: 1, nextRound: 2, variation: game.getCurrentVariation() });
+  });
+
+  it('should report a rejected input followed by game over', () => {
+    game.startGameWithTickets();
+    game.startPlayerInput();
+    const expected = expectedInput(game)[0];
+    record('inputRejected', 'stateChanged', 'gameOver');
+
+    game.handlePlayerInput(wrongGem(expected));
+
+    expect(events).toEqual([
+      ['inputRejected', { gem: wrongGem(expected), expected, index: 0, round: 1 }],
+      ['stateChanged', { from: GameState.PLAYER_INPUT, to: GameState.ROUND_FAILED, round: 1 }],
+      ['gameOver', { round: 1, score: 0, reason: FailureReason.WRONG_GEM }]
+    ]);
+  });
+
+  it('should emit game over when the timer runs out', () => {
+    const listener = vi.fn();
+    game.on('gameOver', listener);
+    game.startGameWithTickets();
+    game.startPlayerInput();
+
+    game.timeout();
+
+    expect(listener).toHaveBeenCalledWith({ round: 1, score: 0, reason: FailureReason.TIMEOUT });
+  });
+
+  it('should announce the return to the menu on reset', () => {
+    game.startGameWithTickets();
+    record('stateChanged');
+
+    game.resetGame();
+
+    expect(events).toEqual([
+      ['stateChanged', { from: GameState.CALIBRATION, to: GameState.INITIALIZATION, round: 1 }]
+    ]);
+  });
+
+  it('should stop notifying after off()', () => {
+    const listener = vi.fn();
+    game.on('stateChanged', listener);
+    game.off('stateChanged', listener);
+
+    game.startGameWithTickets();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
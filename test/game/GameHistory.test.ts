@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GameHistory } from '@/core/economy/GameHistory';
+import { TicketManager } from '@/core/economy/TicketManager';
+import { GameEngine } from '@/core/game/GameEngine';
+import { GameState, GameVariation, GemstoneType } from '@/core/game/types';
+import type { TicketConfig } from '@/utils/yaml-loader';
+import { loadTicketConfig } from '../helpers';
+
+const playGame = (history: GameHistory, roundsCompleted: number) => {
+  history.startGame(10, 'normal', 1000);
+  for (let round = 1; round <= roundsCompleted; round++) {
+    history.recordRound(round, GameVariation.NONE, 1);
+  }
+  history.endGame();
+};
+
+describe('GameHistory', () => {
+  let history: GameHistory;
+
+  beforeEach(() => {
+    history = new GameHistory(5);
+  });
+
+  it('should record cost, difficulty, timestamp and rounds', () => {
+    history.startGame(10, 'hard', 1234);
+    history.recordRound(1, GameVariation.NONE, 0.5);
+    history.recordRound(2, GameVariation.REVERSE, 1.25);
+    history.endGame();
+
+    expect(history.getRecords()).toEqual([{
+      timestamp: 1234,
+      cost: 10,
+      difficulty: 'hard',
+      roundsCompleted: 2,
+      totalReward: 1.75,
+      rounds: [
+        { round: 1, variation: GameVariation.NONE, reward: 0.5, success: true, averageReactionMs: null },
+        { round: 2, variation: GameVariation.REVERSE, reward: 1.25, success: true, averageReactionMs: null }
+      ]
+    }]);
+  });
+
+  it('should ignore rounds when no game is open', () => {
+    playGame(history, 1);
+    history.recordRound(2, GameVariation.NONE, 1);
+    expect(history.getRecords()[0].roundsCompleted).toBe(1);
+  });
+
+  it('should keep only the newest max_history games', () => {
+    for (let i = 0; i < 8; i++) {
+      playGame(history, i);
+    }
+
+    expect(history.getGameCount()).toBe(5);
+    expect(history.getRecords().map(r => r.roundsCompleted)).toEqual([3, 4, 5, 6, 7]);
+  });
+
+  it('should report the distribution of rounds completed', () => {
+    [0, 2, 2, 3, 2].forEach(rounds => playGame(history, rounds));
+
+    expect([...history.getRoundsCompletedDistribution()]).toEqual([[0, 1], [2, 3], [3, 1]]);
+    expect(history.getRoundCompletionRate(2)).toBe(0.8);
+    expect(history.getRoundCompletionRate(3)).toBe(0.2);
+    expect(history.getAverageRoundsCompleted()).toBe(1.8);
+  });
+
+  it('should not count the failed round as completed', () => {
+    history.startGame(10, 'normal');
+    history.recordRound(1, GameVariation.NONE, 1);
+    history.recordFailure(2, GameVariation.NONE);
+
+    const [record] = history.getRecords();
+    expect(record.roundsCompleted).toBe(1);
+    expect(record.rounds[1]).toMatchObject({ round: 2, success: false, reward: 0 });
+  });
+
+  it('should report success rate and reaction time per variation', () => {
+    history.startGame(10, 'normal');
+    history.recordRound(1, GameVariation.NONE, 1, 400);
+    history.recordRound(2, GameVariation.GHOST, 1, 600);
+    history.recordRound(3, GameVariation.GHOST, 1, 800);
+    history.recordFailure(4, GameVariation.GHOST, null);
+
+    const ghost = history.getVariationStats().get(GameVariation.GHOST)!;
+    expect(ghost).toEqual({ attempts: 3, successes: 2, successRate: 2 / 3, averageReactionMs: 700 });
+    expect(history.getVariationStats().get(GameVariation.NONE)!.successRate).toBe(1);
+    expect(history.getAverageReactionMs()).toBe(600);
+  });
+
+  it('should return empty queries without games', () => {
+    expect(history.getRoundsCompletedDistribution().size).toBe(0);
+    expect(history.getRoundCompletionRate(1)).toBe(0);
+    expect(history.getAverageRoundsCompleted()).toBe(0);
+    expect(history.getAverageReactionMs()).toBeNull();
+  });
+});
+
+describe('Game History Tracking', () => {
+  let config: TicketConfig;
+
+  beforeEach(() => {
+    config = loadTicketConfig();
+  });
+
+  const failCurrentRound = (game: GameEngine) => {
+    game.startGame();
+    if (game.getState() !== GameState.PATTERN_DISPLAY) {
+      game.startPatternDisplay();
+    }
+    game.startPlayerInput();
+    const pattern = game.getPattern();
+    game.handlePlayerInput(Object.values(GemstoneType).find(g => g !== pattern[0])!);
+  };
+
+  it('should log each paid game with its round rewards and reaction times', () => {
+    let now = 0;
+    const ticketManager = new TicketManager(config);
+    const game = new GameEngine(ticketManager, { seed: 7, clock: () => now });
+
+    game.startGameWithTickets();
+    game.startPatternDisplay();
+    game.startPlayerInput();
+    game.getPattern().forEach(gem => {
+      now += 300;
+      game.handlePlayerInput(gem);
+    });
+    const reward = game.getLastReward();
+    failCurrentRound(game);
+
+    const [record] = ticketManager.getHistory().getRecords();
+    expect(record.cost).toBe(config.game.cost_to_play);
+    expect(record.difficulty).toBe(config.default_difficulty);
+    expect(record.roundsCompleted).toBe(1);
+    expect(record.rounds).toEqual([
+      { round: 1, variation: GameVariation.NONE, reward, success: true, averageReactionMs: 300 },
+      { round: 2, variation: game.getCurrentVariation(), reward: 0, success: false, averageReactionMs: 0 }
+    ]);
+    expect(ticketManager.getHistory().isGameOpen()).toBe(false);
+  });
+
+  it('should not log games when track_distribution is off', () => {
+    config.tracking.track_distribution = false;
+    const ticketManager = new TicketManager(config);
+    ticketManager.deductGameCost();
+    ticketManager.recordRoundResult(1, GameVariation.NONE, 1);
+
+    expect(ticketManager.getHistory().getGameCount()).toBe(0);
+  });
+
+  it('should honor max_history from the config', () => {
+    config.tracking.max_history = 3;
+    const ticketManager = new TicketManager(config);
+    for (let i = 0; i < 5; i++) {
+      ticketManager.deductGameCost();
+      ticketManager.endGameRecord();
+    }
+
+    expect(ticketManager.getHistory().getGameCount()).toBe(3);
+  });
+
+  it('should clear the history on reset', () => {
+    const ticketManager = new TicketManager(config);
+    ticketManager.deductGameCost();
+    ticketManager.reset();
+
+    expect(ticketManager.getHistory().getGameCount()).toBe(0);
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { GameEngine } from '@/core/game/GameEngine';
+import { GameStateMachine, GAME_STATE_TRANSITIONS, IllegalTransitionError } from '@/core/game/GameStateMachine';
+import { TicketManager } from '@/core/economy/TicketManager';
+import { GameState, GemstoneType } from '@/core/game/types';
+import { parseTicketConfig } from '@/utils/yaml-loader';
+
+const ALL_STATES = Object.values(GameState);
+
+const LEGAL_EDGES: Array<[GameState, GameState]> = [
+  [GameState.INITIALIZATION, GameState.CALIBRATION],
+  [GameState.INITIALIZATION, GameState.ROUND_COMPLETE],
+  [GameState.INITIALIZATION, GameState.ROUND_FAILED],
+  [GameState.CALIBRATION, GameState.PATTERN_DISPLAY],
+  [GameState.CALIBRATION, GameState.PLAYER_INPUT],
+  [GameState.CALIBRATION, GameState.INITIALIZATION],
+  [GameState.VARIATION_INTRO, GameState.PATTERN_DISPLAY],
+  [GameState.VARIATION_INTRO, GameState.INITIALIZATION],
+  [GameState.PATTERN_DISPLAY, GameState.PLAYER_INPUT],
+  [GameState.PATTERN_DISPLAY, GameState.INITIALIZATION],
+  [GameState.PLAYER_INPUT, GameState.ROUND_COMPLETE],
+  [GameState.PLAYER_INPUT, GameState.ROUND_FAILED],
+  [GameState.PLAYER_INPUT, GameState.INITIALIZATION],
+  [GameState.ROUND_COMPLETE, GameState.VARIATION_INTRO],
+  [GameState.ROUND_COMPLETE, GameState.PATTERN_DISPLAY],
+  [GameState.ROUND_COMPLETE, GameState.CASHED_OUT],
+  [GameState.ROUND_COMPLETE, GameState.VICTORY],
+  [GameState.ROUND_COMPLETE, GameState.INITIALIZATION],
+  [GameState.ROUND_FAILED, GameState.INITIALIZATION],
+  [GameState.CASHED_OUT, GameState.INITIALIZATION],
+  [GameState.VICTORY, GameState.INITIALIZATION],
+  [GameState.CALIBRATION, GameState.PAUSED],
+  [GameState.VARIATION_INTRO, GameState.PAUSED],
+  [GameState.PATTERN_DISPLAY, GameState.PAUSED],
+  [GameState.PLAYER_INPUT, GameState.PAUSED],
+  [GameState.PAUSED, GameState.CALIBRATION],
+  [GameState.PAUSED, GameState.VARIATION_INTRO],
+  [GameState.PAUSED, GameState.PATTERN_DISPLAY],
+  [GameState.PAUSED, GameState.PLAYER_INPUT],
+  [GameState.PAUSED, GameState.INITIALIZATION]
+];
+
+/**
+ * Shortest legal path from INITIALIZATION to the given state
+ */
+const pathTo = (target: GameState): GameState[] => {
+  const queue: GameState[][] = [[GameState.INITIALIZATION]];
+  while (queue.length > 0) {
+    const path = queue.shift()!;
+    const last = path[path.length - 1];
+    if (last === target) return path.slice(1);
+    GAME_STATE_TRANSITIONS[last]
+      .filter(next => !path.includes(next))
+      .forEach(next => queue.push([...path, next]));
+  }
+  throw new Error(`${target} is unreachable`);
+};
+
+const machineIn = (state: GameState, strict = false): GameStateMachine => {
+  const machine = new GameStateMachine({ strict });
+  pathTo(state).forEach(step => machine.transition(step, 1));
+  return machine;
+};
+
+const isLegal = (from: GameState, to: GameState) =>
+  LEGAL_EDGES.some(([a, b]) => a === from && b === to);
+
+describe('GameStateMachine', () => {
+  it('should declare exactly the legal edges', () => {
+    const declared = ALL_STATES.flatMap(from =>
+      GAME_STATE_TRANSITIONS[from].map(to => [from, to] as [GameState, GameState])
+    );
+    expect(declared).toHaveLength(LEGAL_EDGES.length);
+    expect(declared).toEqual(expect.arrayContaining(LEGAL_EDGES));
+  });
+
+  it('should allow returning to the menu from every state', () => {
+    ALL_STATES.filter(state => state !== GameState.INITIALIZATION).forEach(state => {
+      expect(GAME_STATE_TRANSITIONS[state]).toContain(GameState.INITIALIZATION);
+    });
+  });
+
+  describe.each(LEGAL_EDGES)('legal edge %s -> %s', (from, to) => {
+    it('should be accepted', () => {
+      const machine = machineIn(from, true);
+
+      expect(machine.canTransition(to)).toBe(true);
+      expect(machine.transition(to, 1)).toBeNull();
+      expect(machine.getState()).toBe(to);
+    });
+  });
+
+  describe.each(ALL_STATES)('illegal edges from %s', (from) => {
+    const illegal = ALL_STATES.filter(to => to !== from && !isLegal(from, to));
+
+    it.each(illegal)('should reject -> %s and keep the state', (to) => {
+      const machine = machineIn(from);
+
+      expect(machine.canTransition(to)).toBe(false);
+      const error = machine.transition(to, 1);
+      expect(error).toBeInstanceOf(IllegalTransitionError);
+      expect(error).toMatchObject({ from, to });
+      expect(machine.getState()).toBe(from);
+    });
+
+    it.each(illegal)('should throw on -> %s in strict mode', (to) => {
+      const machine = machineIn(from, true);
+
+      expect(() => machine.transition(to, 1)).toThrow(IllegalTransitionError);
+      expect(machine.getState()).toBe(from);
+    });
+  });
+
+  it('should treat moving to the current state as a no-op', () => {
+    const machine = new GameStateMachine({ strict: true });
+
+    expect(machine.transition(GameState.INITIALIZATION, 1)).toBeNull();
+    expect(machine.getHistory()).toEqual([]);
+  });
+
+  it('should keep a capped history of transitions', () => {
+    let now = 0;
+    const machine = new GameStateMachine({ maxHistory: 2, clock: () => ++now });
+
+    machine.transition(GameState.CALIBRATION, 1);
+    machine.transition(GameState.PLAYER_INPUT, 1);
+    machine.transition(GameState.ROUND_COMPLETE, 1);
+    machine.transition(GameState.ROUND_FAILED, 2); // rejected, not logged
+
+    expect(machine.getHistory()).toEqual([
+      { from: GameState.CALIBRATION, to: GameState.PLAYER_INPUT, round: 1, timestamp: 2 },
+      { from: GameState.PLAYER_INPUT, to: GameState.ROUND_COMPLETE, round: 1, timestamp: 3 }
+    ]);
+
+    machine.clearHistory();
+    expect(machine.getHistory()).toEqual([]);
+  });
+});
+
+describe('GameEngine state guards', () => {
+  let ticketManager: TicketManager;
+  let game: GameEngine;
+
+  const failFirstRound = () => {
+    game.startGameWithTickets();
+    game.startPlayerInput();
+    const expected = game.getPattern()[0];
+    game.handlePlayerInput(expected === GemstoneType.EMERALD ? GemstoneType.CUSHION : GemstoneType.EMERALD);
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    ticketManager = new TicketManager(parseTicketConfig(readFileSync('public/ticket_config.yml', 'utf8')));
+    game = new GameEngine(ticketManager, { seed: 7, strictTransitions: true });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should ignore startPlayerInput after the round failed', () => {
+    failFirstRound();
+
+    expect(game.startPlayerInput()).toBe(false);
+    expect(game.getState()).toBe(GameState.ROUND_FAILED);
+  });
+
+  it('should ignore startPatternDisplay and startGame after the round failed', () => {
+    failFirstRound();
+
+    expect(game.startPatternDisplay()).toBe(false);
+    expect(game.startGame()).toBe(false);
+    expect(game.getState()).toBe(GameState.ROUND_FAILED);
+  });
+
+  it('should not charge for a game that cannot start', () => {
+    failFirstRound();
+    const balance = ticketManager.getBalance();
+
+    expect(game.startGameWithTickets()).toBe(false);
+    expect(ticketManager.getBalance()).toBe(balance);
+  });
+
+  it('should not record ignored commands in the replay', () => {
+    failFirstRound();
+    const events = game.getReplay()!.events.length;
+
+    game.startPlayerInput();
+
+    expect(game.getReplay()!.events).toHaveLength(events);
+  });
+
+  it('should expose the transitions of a run', () => {
+    failFirstRound();
+    game.resetGame();
+
+    expect(game.getStateHistory().map(({ from, to }) => `${from}->${to}`)).toEqual([
+      'INITIALIZATION->CALIBRATION',
+      'CALIBRATION->PLAYER_INPUT',
+      'PLAYER_INPUT->ROUND_FAILED',
+      'ROUND_FAILED->INITIALIZATION'
+    ]);
+  });
+});
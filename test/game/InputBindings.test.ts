@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { GAME_CONFIG } from '@/core/game/constants';
+import { GemstoneType } from '@/core/game/types';
+import type { InputBindings } from '@/core/game/types';
+import { getGemSlot, getSlotGem, resolveButton, resolveKey } from '@/core/game/InputBindings';
+
+const bindings: InputBindings = GAME_CONFIG.controls;
+
+describe('Input Bindings', () => {
+  it('should place each gem on its own side of the board', () => {
+    expect(getGemSlot(GemstoneType.EMERALD)).toBe('top');
+    expect(getGemSlot(GemstoneType.TRILLION)).toBe('right');
+    expect(getGemSlot(GemstoneType.MARQUISE)).toBe('bottom');
+    expect(getGemSlot(GemstoneType.CUSHION)).toBe('left');
+  });
+
+  it('should map slots back to gems', () => {
+    Object.values(GemstoneType).forEach(gem => {
+      expect(getSlotGem(getGemSlot(gem))).toBe(gem);
+    });
+  });
+
+  it('should resolve arrow, WASD and number keys to gems', () => {
+    expect(resolveKey(bindings, 'ArrowUp')).toEqual([{ type: 'gem', gem: GemstoneType.EMERALD }]);
+    expect(resolveKey(bindings, 'KeyD')).toEqual([{ type: 'gem', gem: GemstoneType.TRILLION }]);
+    expect(resolveKey(bindings, 'Digit3')).toEqual([{ type: 'gem', gem: GemstoneType.MARQUISE }]);
+    expect(resolveKey(bindings, 'Numpad4')).toEqual([{ type: 'gem', gem: GemstoneType.CUSHION }]);
+  });
+
+  it('should resolve confirm keys', () => {
+    expect(resolveKey(bindings, 'Space')).toEqual([{ type: 'confirm' }]);
+    expect(resolveKey(bindings, 'Enter')).toEqual([{ type: 'confirm' }]);
+  });
+
+  it('should ignore unbound keys and buttons', () => {
+    expect(resolveKey(bindings, 'KeyQ')).toEqual([]);
+    expect(resolveButton(bindings, 7)).toEqual([]);
+  });
+
+  it('should resolve the D-pad and face buttons', () => {
+    expect(resolveButton(bindings, 12)).toEqual([{ type: 'gem', gem: GemstoneType.EMERALD }]);
+    expect(resolveButton(bindings, 1)).toEqual([{ type: 'gem', gem: GemstoneType.TRILLION }]);
+    expect(resolveButton(bindings, 9)).toEqual([{ type: 'confirm' }]);
+  });
+
+  it('should bind no default key or button to two actions', () => {
+    const keys = [...Object.values(bindings.keys).flat(), ...bindings.confirmKeys];
+    const buttons = [...Object.values(bindings.buttons).flat(), ...bindings.confirmButtons];
+
+    keys.forEach(key => expect(resolveKey(bindings, key)).toHaveLength(1));
+    buttons.forEach(button => expect(resolveButton(bindings, button)).toHaveLength(1));
+  });
+
+  it('should follow custom bindings', () => {
+    const custom: InputBindings = {
+      ...bindings,
+      keys: { top: ['KeyI'], right: ['KeyL'], bottom: ['KeyK'], left: ['KeyJ'] }
+    };
+
+    expect(resolveKey(custom, 'KeyJ')).toEqual([{ type: 'gem', gem: GemstoneType.CUSHION }]);
+    expect(resolveKey(custom, 'ArrowUp')).toEqual([]);
+  });
+});
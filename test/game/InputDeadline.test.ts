@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GameEngine } from '@/core/game/GameEngine';
+import { ReplayPlayer } from '@/core/replay/ReplayPlayer';
+import { FailureReason, GameState, GemstoneType } from '@/core/game/types';
+
+describe('Input deadline', () => {
+  let now: number;
+  let game: GameEngine;
+
+  const startInput = () => {
+    game.startGame();
+    game.startPlayerInput();
+  };
+
+  beforeEach(() => {
+    now = 1000;
+    game = new GameEngine(undefined, { seed: 3, clock: () => now });
+  });
+
+  it('should set the deadline from the round timer when input starts', () => {
+    startInput();
+
+    expect(game.getInputDeadline()).toBe(1000 + game.getTimerSeconds() * 1000);
+    expect(game.getTimeRemainingMs()).toBe(game.getTimerSeconds() * 1000);
+  });
+
+  it('should count down with the clock', () => {
+    startInput();
+    now += 2500;
+
+    expect(game.getTimeRemainingMs()).toBe(game.getTimerSeconds() * 1000 - 2500);
+  });
+
+  it('should not fail before the deadline', () => {
+    startInput();
+    const deadline = game.getInputDeadline()!;
+
+    expect(game.tick(deadline - 1)).toBe(false);
+    expect(game.getState()).toBe(GameState.PLAYER_INPUT);
+    expect(game.getFailureReason()).toBeNull();
+  });
+
+  it('should fail with TIMEOUT once the deadline passes', () => {
+    startInput();
+    now = game.getInputDeadline()!;
+
+    expect(game.tick()).toBe(true);
+    expect(game.getState()).toBe(GameState.ROUND_FAILED);
+    expect(game.getFailureReason()).toBe(FailureReason.TIMEOUT);
+    expect(game.getTimeRemainingMs()).toBe(0);
+  });
+
+  it('should time out even when EMERALD is the expected gem', () => {
+    startInput();
+    while (game.getPattern()[0] !== GemstoneType.EMERALD) {
+      game.resetGame();
+      startInput();
+    }
+
+    game.tick(game.getInputDeadline()!);
+
+    expect(game.getState()).toBe(GameState.ROUND_FAILED);
+    expect(game.getFailureReason()).toBe(FailureReason.TIMEOUT);
+  });
+
+  it('should fail with WRONG_GEM on a wrong input', () => {
+    startInput();
+    const expected = game.getPattern()[0];
+
+    game.handlePlayerInput(expected === GemstoneType.EMERALD ? GemstoneType.CUSHION : GemstoneType.EMERALD);
+
+    expect(game.getFailureReason()).toBe(FailureReason.WRONG_GEM);
+  });
+
+  it('should clear the deadline once the round is complete', () => {
+    startInput();
+    game.getPattern().forEach(gem => game.handlePlayerInput(gem));
+
+    expect(game.getState()).toBe(GameState.ROUND_COMPLETE);
+    expect(game.getInputDeadline()).toBeNull();
+    expect(game.tick(Number.MAX_SAFE_INTEGER)).toBe(false);
+  });
+
+  it('should ignore ticks outside player input', () => {
+    game.startGame();
+
+    expect(game.tick(Number.MAX_SAFE_INTEGER)).toBe(false);
+    expect(game.getState()).toBe(GameState.CALIBRATION);
+  });
+
+  it('should clear the failure reason on reset', () => {
+    startInput();
+    game.timeout();
+    game.resetGame();
+
+    expect(game.getFailureReason()).toBeNull();
+  });
+
+  it('should keep fractional timers to the millisecond', () => {
+    game.startGame();
+    game.startPatternDisplay();
+    game.startPlayerInput();
+    game.getPattern().forEach(gem => game.handlePlayerInput(gem));
+    game.startGame();
+    if (game.getState() === GameState.VARIATION_INTRO) game.startPatternDisplay();
+    game.startPlayerInput();
+
+    expect(game.getTimerSeconds() % 1).not.toBe(0);
+    expect(game.getTimeRemainingMs()).toBe(game.getTimerSeconds() * 1000);
+  });
+
+  it('should hold the time left while the timer is paused', () => {
+    startInput();
+    now += 1000;
+    const remaining = game.getTimeRemainingMs();
+
+    expect(game.pauseInputTimer()).toBe(true);
+    now += 60000;
+
+    expect(game.isInputTimerPaused()).toBe(true);
+    expect(game.getTimeRemainingMs()).toBe(remaining);
+    expect(game.tick()).toBe(false);
+    expect(game.getState()).toBe(GameState.PLAYER_INPUT);
+  });
+
+  it('should push the deadline back by the paused time on resume', () => {
+    startInput();
+    const deadline = game.getInputDeadline()!;
+    game.pauseInputTimer();
+    now += 5000;
+
+    expect(game.resumeInputTimer()).toBe(true);
+    expect(game.getInputDeadline()).toBe(deadline + 5000);
+    expect(game.tick(deadline + 4999)).toBe(false);
+    expect(game.tick(deadline + 5000)).toBe(true);
+  });
+
+  it('should only pause a running input timer', () => {
+    game.startGame();
+    expect(game.pauseInputTimer()).toBe(false);
+    expect(game.resumeInputTimer()).toBe(false);
+
+    game.resetGame();
+    startInput();
+    game.pauseInputTimer();
+    expect(game.pauseInputTimer()).toBe(false);
+  });
+
+  it('should leave timeouts to the recording during playback', () => {
+    startInput();
+    game.timeout();
+    const player = new ReplayPlayer(game.getReplay()!);
+    const replayed = player.getEngine();
+
+    // Stop right after input starts, before the recorded timeout
+    while (replayed.getState() !== GameState.PLAYER_INPUT) player.step();
+    expect(replayed.tick(Number.MAX_SAFE_INTEGER)).toBe(false);
+
+    player.runToEnd();
+    expect(replayed.getFailureReason()).toBe(FailureReason.TIMEOUT);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GameEngine } from '@/core/game/GameEngine';
+import { TicketManager } from '@/core/economy/TicketManager';
+import { MemoryStorageAdapter } from '@/core/storage/MemoryStorageAdapter';
+import { ReplayPlayer } from '@/core/replay/ReplayPlayer';
+import { GameState } from '@/core/game/types';
+import type { TicketConfig } from '@/utils/yaml-loader';
+import { loadTicketConfig, playRounds } from '../helpers';
+
+const loadConfig = (limits: Partial<TicketConfig['limits']> = {}, cashOut?: TicketConfig['cash_out']): TicketConfig => {
+  const config = loadTicketConfig();
+  return { ...config, limits: { ...config.limits, ...limits }, cash_out: cashOut ?? config.cash_out };
+};
+
+describe('Balance limits', () => {
+  it('should track rewards above max_balance as overflow, not earnings', () => {
+    const ticketManager = new TicketManager(loadConfig({ max_balance: 105 }));
+
+    expect(ticketManager.addReward(3)).toBe(3);
+    expect(ticketManager.addReward(4)).toBe(2);
+
+    expect(ticketManager.getBalance()).toBe(105);
+    expect(ticketManager.getTotalEarned()).toBe(5);
+    expect(ticketManager.getOverflow()).toBe(2);
+  });
+
+  it('should base the RTP on what was actually credited', () => {
+    const ticketManager = new TicketManager(loadConfig({ max_balance: 100 }));
+    ticketManager.deductGameCost();
+
+    ticketManager.addReward(25);
+
+    expect(ticketManager.getRTP()).toBe(1);
+    expect(ticketManager.getOverflow()).toBe(15);
+  });
+
+  it('should keep the overflow across reloads and clear it on reset', () => {
+    const storage = new MemoryStorageAdapter();
+    const ticketManager = new TicketManager(loadConfig({ max_balance: 100 }), storage);
+    ticketManager.addReward(7);
+
+    const reloaded = new TicketManager(loadConfig({ max_balance: 100 }), storage);
+    expect(reloaded.getOverflow()).toBe(7);
+
+    reloaded.reset();
+    expect(reloaded.getOverflow()).toBe(0);
+  });
+
+  it('should not charge a game that would drop the balance below min_balance', () => {
+    const ticketManager = new TicketManager(loadConfig({ min_balance: 85 }));
+
+    expect(ticketManager.deductGameCost()).toBe(true);
+    expect(ticketManager.getBalance()).toBe(90);
+    expect(ticketManager.canAffordGame()).toBe(false);
+    expect(ticketManager.deductGameCost()).toBe(false);
+    expect(ticketManager.getBalance()).toBe(90);
+    expect(ticketManager.getGamesPlayed()).toBe(1);
+  });
+
+  it('should allow a game that lands exactly on min_balance', () => {
+    const ticketManager = new TicketManager(loadConfig({ min_balance: 90 }));
+
+    expect(ticketManager.deductGameCost()).toBe(true);
+    expect(ticketManager.getBalance()).toBe(90);
+  });
+});
+
+describe('Winning a run at max_round', () => {
+  let ticketManager: TicketManager;
+  let game: GameEngine;
+
+  const createGame = (config: TicketConfig, storage?: MemoryStorageAdapter) => {
+    ticketManager = new TicketManager(config);
+    game = new GameEngine(ticketManager, { seed: 9, storage, strictTransitions: true });
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should end the run as a victory after the final round', () => {
+    createGame(loadConfig({ max_round: 4 }));
+    const listener = vi.fn();
+    game.on('victory', listener);
+
+    playRounds(game, 4);
+
+    expect(game.getState()).toBe(GameState.VICTORY);
+    expect(listener).toHaveBeenCalledWith({ round: 4, banked: 0, score: game.getScore() });
+    expect(ticketManager.getHistory().isGameOpen()).toBe(false);
+    expect(game.continueToNextRound()).toBe(false);
+  });
+
+  it('should keep going before the final round', () => {
+    createGame(loadConfig({ max_round: 4 }));
+
+    playRounds(game, 3);
+
+    expect(game.getState()).toBe(GameState.ROUND_COMPLETE);
+    expect(game.getMaxRound()).toBe(4);
+  });
+
+  it('should bank the pot on victory', () => {
+    createGame(loadConfig({ max_round: 3 }, { enabled: true, at_risk_pot: true, forfeit_fraction: 1 }));
+    const listener = vi.fn();
+    game.on('victory', listener);
+
+    playRounds(game, 3);
+
+    const { banked } = listener.mock.calls[0][0];
+    expect(banked).toBeGreaterThan(0);
+    expect(ticketManager.getPot()).toBe(0);
+    expect(ticketManager.getBalance()).toBeCloseTo(90 + banked, 2);
+  });
+
+  it('should not leave a saved run behind', () => {
+    const storage = new MemoryStorageAdapter();
+    createGame(loadConfig({ max_round: 3 }), storage);
+
+    playRounds(game, 3);
+
+    expect(game.hasSavedRun()).toBe(false);
+  });
+
+  it('should replay a won run to the victory', () => {
+    createGame(loadConfig({ max_round: 3 }));
+    playRounds(game, 3);
+
+    const player = new ReplayPlayer(game.getReplay()!);
+    const replayed = player.runToEnd();
+
+    expect(player.getDivergence()).toBeNull();
+    expect(replayed.getState()).toBe(GameState.VICTORY);
+  });
+
+  it('should not limit runs without a ticket system', () => {
+    const engine = new GameEngine(undefined, { seed: 9 });
+
+    expect(engine.getMaxRound()).toBeNull();
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PatternScheduler, buildPatternTimeline } from '@/core/game/PatternScheduler';
+import { GemstoneType } from '@/core/game/types';
+import type { PatternStep, TimerSource } from '@/core/game/types';
+
+const { EMERALD, TRILLION, CUSHION } = GemstoneType;
+
+/**
+ * Timers that only move when the test advances them
+ */
+class ManualTimers implements TimerSource {
+  private time = 0;
+  private nextId = 1;
+  private pending = new Map<number, { at: number; callback: () => void }>();
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number): number {
+    const id = this.nextId++;
+    this.pending.set(id, { at: this.time + ms, callback });
+    return id;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.pending.delete(handle as number);
+  }
+
+  advance(ms: number): void {
+    const target = this.time + ms;
+    for (;;) {
+      const due = [...this.pending.entries()]
+        .filter(([, timer]) => timer.at <= target)
+        .sort((a, b) => a[1].at - b[1].at)[0];
+      if (!due) break;
+      this.pending.delete(due[0]);
+      this.time = due[1].at;
+      due[1].callback();
+    }
+    this.time = target;
+  }
+
+  getPendingCount(): number {
+    return this.pending.size;
+  }
+}
+
+const describeStep = (step: PatternStep) =>
+  step.type === 'complete' ? `complete@${step.at}` : `${step.type}${step.index}@${step.at}`;
+
+describe('buildPatternTimeline', () => {
+  it('should show each gem for the display speed, then complete after 500ms', () => {
+    const timeline = buildPatternTimeline([EMERALD, TRILLION, CUSHION], { speed: 1000, chaosTimings: null });
+
+    expect(timeline.map(describeStep)).toEqual(['show0@0', 'show1@1000', 'show2@2000', 'complete@3500']);
+  });
+
+  it('should put a 30% gap between repeated gems', () => {
+    const timeline = buildPatternTimeline([EMERALD, EMERALD, TRILLION], { speed: 1000, chaosTimings: null });
+
+    expect(timeline.map(describeStep)).toEqual(['show0@0', 'hide0@700', 'show1@1300', 'show2@2300', 'complete@3800']);
+  });
+
+  it('should use Speed Chaos timings with gaps capped at 150ms', () => {
+    const timeline = buildPatternTimeline([EMERALD, EMERALD, TRILLION], { speed: 1000, chaosTimings: [800, 400, 600] });
+
+    expect(timeline.map(describeStep)).toEqual(['show0@0', 'hide0@650', 'show1@950', 'show2@1350', 'complete@2450']);
+  });
+});
+
+describe('PatternScheduler', () => {
+  let timers: ManualTimers;
+  let fired: string[];
+  let scheduler: PatternScheduler;
+
+  beforeEach(() => {
+    timers = new ManualTimers();
+    fired = [];
+    const timeline = buildPatternTimeline([EMERALD, TRILLION, CUSHION], { speed: 1000, chaosTimings: null });
+    scheduler = new PatternScheduler(timeline, step => fired.push(describeStep(step)), timers);
+  });
+
+  it('should fire steps as the clock reaches them', () => {
+    scheduler.start();
+    timers.advance(0);
+    expect(fired).toEqual(['show0@0']);
+
+    timers.advance(1999);
+    expect(fired).toEqual(['show0@0', 'show1@1000']);
+
+    timers.advance(1501);
+    expect(fired).toEqual(['show0@0', 'show1@1000', 'show2@2000', 'complete@3500']);
+    expect(scheduler.isFinished()).toBe(true);
+    expect(scheduler.isRunning()).toBe(false);
+  });
+
+  it('should fire nothing after cancel', () => {
+    scheduler.start();
+    timers.advance(1500);
+    scheduler.cancel();
+    timers.advance(10000);
+
+    expect(fired).toEqual(['show0@0', 'show1@1000']);
+    expect(timers.getPendingCount()).toBe(0);
+
+    scheduler.resume();
+    timers.advance(10000);
+    expect(fired).toHaveLength(2);
+  });
+
+  it('should hold its place while paused', () => {
+    scheduler.start();
+    timers.advance(1500);
+    scheduler.pause();
+    timers.advance(60000);
+
+    expect(fired).toEqual(['show0@0', 'show1@1000']);
+    expect(scheduler.getElapsed()).toBe(1500);
+
+    scheduler.resume();
+    timers.advance(499);
+    expect(fired).toHaveLength(2);
+    timers.advance(1);
+    expect(fired).toEqual(['show0@0', 'show1@1000', 'show2@2000']);
+  });
+
+  it('should replay steps from a rewound point', () => {
+    scheduler.start();
+    timers.advance(1500);
+    scheduler.pause();
+    scheduler.rewindTo(1000);
+    scheduler.resume();
+    timers.advance(0);
+
+    expect(fired).toEqual(['show0@0', 'show1@1000', 'show1@1000']);
+
+    timers.advance(2500);
+    expect(fired.slice(3)).toEqual(['show2@2000', 'complete@3500']);
+  });
+
+  it('should ignore rewinds while running', () => {
+    scheduler.start();
+    timers.advance(1500);
+    scheduler.rewindTo(0);
+    timers.advance(2000);
+
+    expect(fired).toEqual(['show0@0', 'show1@1000', 'show2@2000', 'complete@3500']);
+  });
+
+  it('should stop firing when a step pauses the schedule', () => {
+    const timeline = buildPatternTimeline([EMERALD, TRILLION], { speed: 0, chaosTimings: null });
+    const pausing = new PatternScheduler(timeline, step => {
+      fired.push(describeStep(step));
+      if (step.type === 'show' && step.index === 0) pausing.pause();
+    }, timers);
+
+    pausing.start();
+    timers.advance(0);
+
+    expect(fired).toEqual(['show0@0']);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GameEngine } from '@/core/game/GameEngine';
+import { ReplayPlayer } from '@/core/replay/ReplayPlayer';
+import { GameState } from '@/core/game/types';
+
+describe('Pause and resume', () => {
+  let now: number;
+  let game: GameEngine;
+
+  beforeEach(() => {
+    now = 1000;
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    game = new GameEngine(undefined, { seed: 11, clock: () => now, strictTransitions: true });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should not pause on the menu or between rounds', () => {
+    expect(game.pause()).toBe(false);
+
+    game.startGame();
+    game.startPlayerInput();
+    game.getPattern().forEach(gem => game.handlePlayerInput(gem));
+    expect(game.getState()).toBe(GameState.ROUND_COMPLETE);
+    expect(game.pause()).toBe(false);
+  });
+
+  it('should return to the state it was paused in', () => {
+    game.startGame();
+
+    expect(game.pause()).toBe(true);
+    expect(game.getState()).toBe(GameState.PAUSED);
+    expect(game.getPausedState()).toBe(GameState.CALIBRATION);
+
+    expect(game.resume()).toBe(true);
+    expect(game.getState()).toBe(GameState.CALIBRATION);
+    expect(game.getPausedState()).toBeNull();
+    expect(game.resume()).toBe(false);
+  });
+
+  it('should ignore commands and input while paused', () => {
+    game.startGame();
+    game.startPatternDisplay();
+    game.pause();
+
+    expect(game.startPlayerInput()).toBe(false);
+    expect(game.handlePlayerInput(game.getPattern()[0])).toBe(false);
+    expect(game.getState()).toBe(GameState.PAUSED);
+  });
+
+  it('should stop the deadline while paused and keep the time left', () => {
+    game.startGame();
+    game.startPlayerInput();
+    now += 3000;
+    const remaining = game.getTimeRemainingMs();
+
+    game.pause();
+    now += 120000;
+
+    expect(game.tick()).toBe(false);
+    expect(game.getTimeRemainingMs()).toBe(remaining);
+
+    game.resume();
+    expect(game.getState()).toBe(GameState.PLAYER_INPUT);
+    expect(game.getTimeRemainingMs()).toBe(remaining);
+    expect(game.tick(now + remaining - 1)).toBe(false);
+    expect(game.tick(now + remaining)).toBe(true);
+  });
+
+  it('should leave the pause out of the replay', () => {
+    game.startGame();
+    game.startPlayerInput();
+    const pattern = game.getPattern();
+    now += 200;
+    game.handlePlayerInput(pattern[0]);
+    game.pause();
+    now += 60000;
+    game.resume();
+    now += 200;
+    pattern.slice(1).forEach(gem => game.handlePlayerInput(gem));
+
+    const replay = game.getReplay()!;
+    const inputs = replay.events.filter(e => e.type === 'input');
+    expect(inputs.map(e => e.type === 'input' && e.offset)).toEqual([200, 400, 400, 400]);
+    expect(replay.events.some(e => e.type === 'state' && (e.to === GameState.PAUSED || e.from === GameState.PAUSED))).toBe(false);
+
+    const player = new ReplayPlayer(replay);
+    player.runToEnd();
+    expect(player.getDivergence()).toBeNull();
+  });
+
+  it('should not pause a replay', () => {
+    game.startGame();
+    game.startPlayerInput();
+    game.timeout();
+    const player = new ReplayPlayer(game.getReplay()!);
+    while (player.getEngine().getState() !== GameState.PLAYER_INPUT) player.step();
+
+    expect(player.getEngine().pause()).toBe(false);
+  });
+
+  it('should return to the menu from a pause', () => {
+    game.startGame();
+    game.pause();
+    game.resetGame();
+
+    expect(game.getState()).toBe(GameState.INITIALIZATION);
+    expect(game.getPausedState()).toBeNull();
+    expect(game.startGame()).toBe(true);
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GameEngine } from '@/core/game/GameEngine';
+import { TicketManager } from '@/core/economy/TicketManager';
+import { GameState, GameVariation, GemstoneType } from '@/core/game/types';
+import { ReplayPlayer } from '@/core/replay/ReplayPlayer';
+import { parseReplay, serializeReplay } from '@/core/replay/ReplayRecorder';
+import { loadTicketConfig } from '../helpers';
+
+const ticketConfig = loadTicketConfig();
+
+// Play a round correctly, advancing the fake clock between inputs
+const playRound = (game: GameEngine, advance: (ms: number) => void) => {
+  game.startGame();
+  if (game.getState() === GameState.VARIATION_INTRO || game.getState() === GameState.CALIBRATION) {
+    game.startPatternDisplay();
+  }
+  advance(1000);
+  game.startPlayerInput();
+
+  const pattern = game.getPattern();
+  const variation = game.getCurrentVariation();
+  const inputPattern = (variation === GameVariation.REVERSE ||
+                        variation === GameVariation.REVERSE_COMBINATION)
+                        ? [...pattern].reverse()
+                        : pattern;
+  inputPattern.forEach(gem => {
+    advance(250);
+    game.handlePlayerInput(gem);
+  });
+};
+
+describe('Replay', () => {
+  let now: number;
+  let game: GameEngine;
+  let ticketManager: TicketManager;
+  const advance = (ms: number) => { now += ms; };
+
+  beforeEach(() => {
+    now = 10000;
+    ticketManager = new TicketManager(ticketConfig);
+    game = new GameEngine(ticketManager, { seed: 31337, clock: () => now });
+  });
+
+  describe('Recording', () => {
+    it('should have no replay before a run starts', () => {
+      expect(game.getReplay()).toBeNull();
+    });
+
+    it('should record seed and config snapshot', () => {
+      game.startGameWithTickets();
+      const replay = game.getReplay()!;
+
+      expect(replay.seed).toBe(31337);
+      expect(replay.ticketConfig).toEqual(ticketConfig);
+      expect(replay.difficulty).toBe('normal');
+      expect(replay.gameConfig.initialTimerSeconds).toBeGreaterThan(0);
+    });
+
+    it('should record inputs relative to startPlayerInput', () => {
+      playRound(game, advance);
+      const inputs = game.getReplay()!.events.filter(e => e.type === 'input');
+
+      expect(inputs).toHaveLength(4);
+      expect(inputs.map(e => e.type === 'input' && e.offset)).toEqual([250, 500, 750, 1000]);
+    });
+
+    it('should record state transitions', () => {
+      playRound(game, advance);
+      const states = game.getReplay()!.events
+        .filter(e => e.type === 'state')
+        .map(e => e.type === 'state' && e.to);
+
+      expect(states).toEqual([
+        GameState.CALIBRATION,
+        GameState.PATTERN_DISPLAY,
+        GameState.PLAYER_INPUT,
+        GameState.ROUND_COMPLETE
+      ]);
+    });
+
+    it('should record timeouts as a failure', () => {
+      game.startGame();
+      game.startPatternDisplay();
+      game.startPlayerInput();
+      advance(10000);
+      game.timeout();
+
+      expect(game.getState()).toBe(GameState.ROUND_FAILED);
+      const last = game.getReplay()!.events.filter(e => e.type !== 'state').pop()!;
+      expect(last).toMatchObject({ type: 'timeout', round: 1, offset: 10000 });
+    });
+
+    it('should ignore timeouts outside player input', () => {
+      game.startGame();
+      game.timeout();
+      expect(game.getState()).toBe(GameState.CALIBRATION);
+    });
+
+    it('should survive serialization', () => {
+      playRound(game, advance);
+      const replay = game.getReplay()!;
+      expect(parseReplay(serializeReplay(replay))).toEqual(replay);
+    });
+
+    it('should reject unknown replay versions', () => {
+      playRound(game, advance);
+      const replay = { ...game.getReplay()!, version: 999 };
+      expect(() => parseReplay(JSON.stringify(replay))).toThrow();
+    });
+  });
+
+  describe('Playback', () => {
+    const recordFailedRun = () => {
+      game.startGameWithTickets();
+      game.resetGame(4242);
+      for (let i = 0; i < 6; i++) {
+        playRound(game, advance);
+      }
+      // Fail round 7 with a wrong gem
+      game.startGame();
+      if (game.getState() === GameState.VARIATION_INTRO) {
+        game.startPatternDisplay();
+      }
+      game.startPlayerInput();
+      const pattern = game.getPattern();
+      const wrongGem = Object.values(GemstoneType).find(g => g !== pattern[0])!;
+      game.handlePlayerInput(wrongGem);
+      return game.getReplay()!;
+    };
+
+    it('should reproduce a recorded run exactly', () => {
+      const replay = recordFailedRun();
+      const player = new ReplayPlayer(replay);
+      const replayed = player.runToEnd();
+
+      expect(player.getDivergence()).toBeNull();
+      expect(replayed.getState()).toBe(GameState.ROUND_FAILED);
+      expect(replayed.getRound()).toBe(game.getRound());
+      expect(replayed.getPattern()).toEqual(game.getPattern());
+      expect(replayed.getScore()).toBe(game.getScore());
+    });
+
+    it('should not touch the player wallet', () => {
+      game.startGameWithTickets();
+      playRound(game, advance);
+      const replay = game.getReplay()!;
+      const balance = ticketManager.getBalance();
+
+      const player = new ReplayPlayer(replay, game);
+      player.runToEnd();
+      expect(ticketManager.getBalance()).toBe(balance);
+      expect(game.getTicketManager()).not.toBe(ticketManager);
+
+      player.stop();
+      expect(game.isPlayback()).toBe(false);
+      expect(game.getTicketManager()).toBe(ticketManager);
+    });
+
+    it('should end on the balance of the recorded run', () => {
+      game.startGameWithTickets();
+      if (game.getState() === GameState.CALIBRATION) game.startPatternDisplay();
+      game.startPlayerInput();
+      game.getRequiredInput().forEach(gem => game.handlePlayerInput(gem));
+      for (let i = 0; i < 3; i++) {
+        playRound(game, advance);
+      }
+      game.startGame();
+      if (game.getState() === GameState.VARIATION_INTRO) game.startPatternDisplay();
+      game.startPlayerInput();
+      game.timeout();
+      const replay = game.getReplay()!;
+
+      const replayed = new ReplayPlayer(replay).runToEnd();
+      expect(replayed.getState()).toBe(GameState.ROUND_FAILED);
+      expect(replayed.getTicketManager()!.getBalance()).toBe(ticketManager.getBalance());
+      expect(replayed.getTicketManager()!.getTotalSpent()).toBe(ticketConfig.game.cost_to_play);
+    });
+
+    it('should list inputs and timeouts per round', () => {
+      const replay = recordFailedRun();
+      const player = new ReplayPlayer(replay);
+
+      expect(player.getRoundInputs(1)).toHaveLength(4);
+      expect(player.getRoundInputs(7)).toHaveLength(1);
+    });
+
+    it('should report a divergence when the recording was tampered with', () => {
+      const replay = recordFailedRun();
+      const firstInput = replay.events.find(e => e.type === 'input')!;
+      if (firstInput.type === 'input') {
+        firstInput.gem = Object.values(GemstoneType).find(g => g !== firstInput.gem)!;
+      }
+
+      const player = new ReplayPlayer(replay);
+      player.runToEnd();
+      expect(player.getDivergence()).not.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RtpSimulator } from '@/core/economy/RtpSimulator';
+import { TicketManager } from '@/core/economy/TicketManager';
+import { GameVariation } from '@/core/game/types';
+import type { TicketConfig } from '@/utils/yaml-loader';
+import { loadTicketConfig } from '../helpers';
+
+describe('RtpSimulator', () => {
+  let config: TicketConfig;
+  let simulator: RtpSimulator;
+
+  beforeEach(() => {
+    config = loadTicketConfig();
+    simulator = new RtpSimulator(config);
+  });
+
+  describe('Player Distribution', () => {
+    it('should read reach probabilities from player_distribution', () => {
+      expect(simulator.getReachProbability(1)).toBe(1);
+      expect(simulator.getReachProbability(10)).toBe(0.22);
+      expect(simulator.getReachProbability(20)).toBe(0.005);
+    });
+
+    it('should extrapolate past the table with the last drop-off', () => {
+      expect(simulator.getReachProbability(21)).toBeCloseTo(0.0025, 6);
+      expect(simulator.getReachProbability(22)).toBeCloseTo(0.00125, 6);
+    });
+
+    it('should not reach rounds beyond max_round', () => {
+      expect(simulator.getReachProbability(config.limits.max_round + 1)).toBe(0);
+    });
+
+    it('should derive completion chance from consecutive rounds', () => {
+      expect(simulator.getCompletionProbability(1)).toBe(0.95);
+      expect(simulator.getCompletionProbability(2)).toBeCloseTo(0.85 / 0.95, 10);
+    });
+
+    it('should make skilled players more likely to complete a round', () => {
+      expect(simulator.getCompletionProbability(5, 2)).toBeGreaterThan(simulator.getCompletionProbability(5));
+      expect(simulator.getCompletionProbability(5, 0.5)).toBeLessThan(simulator.getCompletionProbability(5));
+    });
+  });
+
+  describe('Analytic RTP', () => {
+    it('should use the variation pools of the game schedule', () => {
+      expect(simulator.getVariationPool(1)).toEqual([GameVariation.NONE]);
+      expect(simulator.getVariationPool(2)).toEqual([GameVariation.GHOST]);
+      expect(simulator.getVariationPool(17)).toEqual([GameVariation.REVERSE_COMBINATION]);
+    });
+
+    it('should average rewards over the variation pool', () => {
+      const ticketManager = new TicketManager(config);
+      const expected = (
+        ticketManager.calculateReward(5, GameVariation.GHOST) +
+        ticketManager.calculateReward(5, GameVariation.SELECTIVE_ATTENTION)
+      ) / 2;
+      expect(simulator.getExpectedRoundReward(5)).toBeCloseTo(expected, 10);
+    });
+
+    it('should sum reach × completion × reward over all rounds', () => {
+      const result = simulator.calculateExpectedRtp();
+      const manual = result.rounds.reduce(
+        (sum, r) => sum + r.reachProbability * r.completionProbability * r.expectedReward, 0
+      );
+
+      expect(result.rounds).toHaveLength(config.limits.max_round);
+      expect(result.expectedPayout).toBeCloseTo(manual, 10);
+      expect(result.rtp).toBeCloseTo(manual / config.game.cost_to_play, 10);
+      expect(result.rtpTarget).toBe(config.rtp_target);
+    });
+
+    it('should scale with the difficulty reward multiplier', () => {
+      const normal = simulator.calculateExpectedRtp().rtp;
+      const hard = new RtpSimulator(config, { difficulty: 'hard' }).calculateExpectedRtp().rtp;
+      expect(hard).toBeCloseTo(normal * 2, 1);
+    });
+
+    it('should apply the disabled variation penalty', () => {
+      const normal = simulator.calculateExpectedRtp().rtp;
+      const penalized = new RtpSimulator(config, {
+        disabledVariations: [GameVariation.GHOST, GameVariation.SPEED_CHAOS]
+      }).calculateExpectedRtp().rtp;
+      expect(penalized).toBeLessThan(normal);
+    });
+  });
+
+  describe('Monte Carlo', () => {
+    it('should be reproducible from a seed', () => {
+      const first = simulator.simulate({ games: 500, seed: 99 });
+      const second = simulator.simulate({ games: 500, seed: 99 });
+      expect(second).toEqual(first);
+      expect(first.seed).toBe(99);
+    });
+
+    it('should converge on the analytic RTP for average players', () => {
+      const analytic = simulator.calculateExpectedRtp().rtp;
+      const simulated = simulator.simulate({ games: 20000, seed: 1 });
+      expect(simulated.rtp).toBeGreaterThan(analytic * 0.9);
+      expect(simulated.rtp).toBeLessThan(analytic * 1.1);
+    });
+
+    it('should report spread and ordered percentiles', () => {
+      const result = simulator.simulate({ games: 2000, seed: 5 });
+
+      expect(result.totalCost).toBe(2000 * config.game.cost_to_play);
+      expect(result.standardDeviation).toBeCloseTo(Math.sqrt(result.variance), 10);
+      expect(result.percentiles.p50).toBeLessThanOrEqual(result.percentiles.p90);
+      expect(result.percentiles.p90).toBeLessThanOrEqual(result.percentiles.p95);
+      expect(result.percentiles.p95).toBeLessThanOrEqual(result.percentiles.p99);
+      expect(result.percentiles.p99).toBeLessThanOrEqual(result.maxPayout);
+    });
+
+    it('should pay skilled players more', () => {
+      const average = simulator.simulate({ games: 2000, seed: 3 });
+      const skilled = simulator.simulate({ games: 2000, seed: 3, skill: 3 });
+      expect(skilled.rtp).toBeGreaterThan(average.rtp);
+      expect(skilled.averageRoundsCompleted).toBeGreaterThan(average.averageRoundsCompleted);
+    });
+
+    it('should reject a non-positive skill', () => {
+      expect(() => simulator.simulate({ games: 1, skill: 0 })).toThrow();
+    });
+  });
+
+  describe('Cash Out', () => {
+    const potConfig = (forfeitFraction: number): TicketConfig => ({
+      ...config,
+      cash_out: { enabled: true, at_risk_pot: true, forfeit_fraction: forfeitFraction }
+    });
+
+    it('should not change the RTP of banked rewards', () => {
+      const banked = new RtpSimulator({ ...config, cash_out: { enabled: true, at_risk_pot: false, forfeit_fraction: 1 } });
+
+      expect(banked.calculateExpectedRtp().rtp).toBeCloseTo(simulator.calculateExpectedRtp().rtp, 10);
+    });
+
+    it('should lose the forfeited share of the pot on a failed round', () => {
+      const full = simulator.calculateExpectedRtp().rtp;
+      const half = new RtpSimulator(potConfig(0.5)).calculateExpectedRtp().rtp;
+      const none = new RtpSimulator(potConfig(1)).calculateExpectedRtp().rtp;
+
+      expect(half).toBeLessThan(full);
+      expect(none).toBeLessThan(half);
+      // Only winners keep anything when the whole pot is forfeited
+      const last = simulator.getMaxRound();
+      const won = simulator.calculateExpectedRtp().rounds.reduce((sum, r) => sum + r.expectedReward, 0);
+      expect(none * config.game.cost_to_play)
+        .toBeCloseTo(simulator.getReachProbability(last) * simulator.getCompletionProbability(last) * won, 10);
+    });
+
+    it('should bank the pot of players who cash out', () => {
+      const cashOut = new RtpSimulator(potConfig(1), { cashOutAfter: 3 });
+      const result = cashOut.calculateExpectedRtp();
+      const won = result.rounds.reduce((sum, r) => sum + r.expectedReward, 0);
+
+      expect(cashOut.getLastPlayedRound()).toBe(3);
+      expect(result.rounds).toHaveLength(3);
+      expect(result.expectedPayout)
+        .toBeCloseTo(cashOut.getReachProbability(3) * cashOut.getCompletionProbability(3) * won, 10);
+    });
+
+    it('should ignore the cash-out round when cash-out is disabled', () => {
+      const disabled = new RtpSimulator({ ...config, cash_out: { enabled: false, at_risk_pot: true, forfeit_fraction: 1 } }, {
+        cashOutAfter: 3
+      });
+
+      expect(disabled.getLastPlayedRound()).toBe(config.limits.max_round);
+      expect(disabled.calculateExpectedRtp().rtp).toBeCloseTo(simulator.calculateExpectedRtp().rtp, 10);
+    });
+
+    it('should converge on the analytic RTP with an at-risk pot', () => {
+      const potSimulator = new RtpSimulator(potConfig(0.5), { cashOutAfter: 8 });
+      const analytic = potSimulator.calculateExpectedRtp().rtp;
+      const simulated = potSimulator.simulate({ games: 20000, seed: 1 });
+
+      expect(simulated.rtp).toBeGreaterThan(analytic * 0.9);
+      expect(simulated.rtp).toBeLessThan(analytic * 1.1);
+      expect(simulated.averageRoundsCompleted).toBeLessThanOrEqual(8);
+    });
+  });
+});
@@ -0,0 +1,230 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GameEngine, RUN_STORAGE_KEY, RUN_SCHEMA_VERSION } from '@/core/game/GameEngine';
+import type { RunSnapshot } from '@/core/game/GameEngine';
+import { TicketManager } from '@/core/economy/TicketManager';
+import { MemoryStorageAdapter } from '@/core/storage/MemoryStorageAdapter';
+import { ReplayPlayer } from '@/core/replay/ReplayPlayer';
+import { FailureReason, GameState } from '@/core/game/types';
+import { failRound, loadTicketConfig, playRound, playRounds } from '../helpers';
+
+describe('Saved runs', () => {
+  let runStorage: MemoryStorageAdapter;
+  let walletStorage: MemoryStorageAdapter;
+
+  const createGame = () => new GameEngine(
+    new TicketManager(loadTicketConfig(), walletStorage),
+    { seed: 21, storage: runStorage, strictTransitions: true }
+  );
+
+  beforeEach(() => {
+    runStorage = new MemoryStorageAdapter();
+    walletStorage = new MemoryStorageAdapter();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should save the run at each completed round', () => {
+    const game = createGame();
+    playRounds(game, 4);
+
+    const saved = game.getSavedRun()!;
+    expect(saved).toMatchObject({
+      version: RUN_SCHEMA_VERSION,
+      seed: 21,
+      round: 5,
+      score: game.getScore(),
+      lastReward: game.getLastReward(),
+      currentVariation: game.getCurrentVariation(),
+      combinationBase: game.getCurrentCombinationBase()
+    });
+    expect(saved.earned).toBeGreaterThan(0);
+    expect(saved.variationManager.tutorialsShown).toContain(game.getCurrentVariation());
+  });
+
+  it('should stamp the save with the engine clock', () => {
+    const game = new GameEngine(new TicketManager(loadTicketConfig(), walletStorage), {
+      seed: 21,
+      storage: runStorage,
+      clock: () => 123456
+    });
+    playRounds(game, 1);
+
+    expect(game.getSavedRun()!.savedAt).toBe(123456);
+  });
+
+  it('should not save anything before the first round completes', () => {
+    const game = createGame();
+    game.startGameWithTickets();
+
+    expect(game.hasSavedRun()).toBe(false);
+  });
+
+  it('should continue the run exactly where it left off', () => {
+    const original = createGame();
+    playRounds(original, 6);
+
+    const resumed = createGame();
+    expect(resumed.resumeSavedRun()).toBe(true);
+    expect(resumed.getState()).toBe(GameState.ROUND_COMPLETE);
+    expect(resumed.getRound()).toBe(7);
+    expect(resumed.getScore()).toBe(original.getScore());
+    expect(resumed.getRunEarned()).toBe(original.getRunEarned());
+
+    for (let round = 7; round <= 10; round++) {
+      original.continueToNextRound();
+      resumed.continueToNextRound();
+
+      expect(resumed.getState()).toBe(original.getState());
+      expect(resumed.getPattern()).toEqual(original.getPattern());
+      expect(resumed.getCurrentVariation()).toBe(original.getCurrentVariation());
+      expect(resumed.getCurrentCombinationBase()).toBe(original.getCurrentCombinationBase());
+      expect(resumed.getVariationEffects()).toEqual(original.getVariationEffects());
+
+      playRound(original);
+      playRound(resumed);
+      expect(resumed.getScore()).toBe(original.getScore());
+    }
+  });
+
+  it('should not give back a round left mid-way', () => {
+    const original = createGame();
+    playRounds(original, 3);
+    original.continueToNextRound();
+    expect(original.getSavedRun()!.roundInProgress).toBe(true);
+
+    const resumed = createGame();
+    const gameOver = vi.fn();
+    resumed.on('gameOver', gameOver);
+
+    expect(resumed.resumeSavedRun()).toBe(true);
+    expect(resumed.getState()).toBe(GameState.ROUND_FAILED);
+    expect(gameOver).toHaveBeenCalledWith({ round: 4, score: original.getScore(), reason: FailureReason.INTERRUPTED });
+    expect(resumed.continueToNextRound()).toBe(false);
+    expect(resumed.getPattern()).toEqual([]);
+    expect(resumed.hasSavedRun()).toBe(false);
+    expect(resumed.getTicketManager()!.getHistory().getRecords()[0].roundsCompleted).toBe(3);
+  });
+
+  it('should settle the pot of a run left mid-round', () => {
+    const config = { ...loadTicketConfig(), cash_out: { enabled: true, at_risk_pot: true, forfeit_fraction: 1 } };
+    const original = new GameEngine(new TicketManager(config, walletStorage), { seed: 21, storage: runStorage });
+    playRounds(original, 3);
+    original.continueToNextRound();
+    const pot = original.getTicketManager()!.getPot();
+    expect(pot).toBeGreaterThan(0);
+
+    const ticketManager = new TicketManager(config, walletStorage);
+    const balance = ticketManager.getBalance();
+    const resumed = new GameEngine(ticketManager, { seed: 21, storage: runStorage });
+    resumed.resumeSavedRun();
+
+    expect(ticketManager.getPot()).toBe(0);
+    expect(ticketManager.getBalance()).toBe(balance);
+  });
+
+  it('should not charge again to continue a resumed run', () => {
+    playRounds(createGame(), 3);
+    const resumed = createGame();
+    const ticketManager = resumed.getTicketManager()!;
+    const balance = ticketManager.getBalance();
+
+    resumed.resumeSavedRun();
+    expect(resumed.continueToNextRound()).toBe(true);
+
+    expect(ticketManager.getBalance()).toBe(balance);
+    expect(ticketManager.getGamesPlayed()).toBe(1);
+  });
+
+  it('should keep logging the resumed run in the same game record', () => {
+    playRounds(createGame(), 3);
+    const resumed = createGame();
+
+    resumed.resumeSavedRun();
+    resumed.continueToNextRound();
+    playRound(resumed);
+
+    const records = resumed.getTicketManager()!.getHistory().getRecords();
+    expect(records).toHaveLength(1);
+    expect(records[0].roundsCompleted).toBe(4);
+  });
+
+  it('should clear the saved run when the run is lost', () => {
+    const game = createGame();
+    playRounds(game, 2);
+    game.continueToNextRound();
+
+    failRound(game);
+
+    expect(game.hasSavedRun()).toBe(false);
+    expect(runStorage.getItem(RUN_STORAGE_KEY)).toBeNull();
+  });
+
+  it('should replace the saved run when a new run starts', () => {
+    const game = createGame();
+    playRounds(game, 2);
+    game.resetGame();
+
+    game.startGameWithTickets();
+
+    expect(game.hasSavedRun()).toBe(false);
+  });
+
+  it('should only resume from the menu', () => {
+    const game = createGame();
+    playRounds(game, 2);
+
+    expect(game.resumeSavedRun()).toBe(false);
+    expect(game.getRound()).toBe(3);
+  });
+
+  it('should not record a replay for a resumed run', () => {
+    playRounds(createGame(), 2);
+    const resumed = createGame();
+
+    resumed.resumeSavedRun();
+
+    expect(resumed.getReplay()).toBeNull();
+  });
+
+  it('should neither save nor clear runs during playback', () => {
+    const game = createGame();
+    game.startGameWithTickets();
+    failRound(game);
+    const replay = game.getReplay()!;
+    game.resetGame();
+    playRounds(game, 2);
+    const saved = runStorage.getItem(RUN_STORAGE_KEY);
+
+    new ReplayPlayer(replay, game).runToEnd();
+
+    expect(runStorage.getItem(RUN_STORAGE_KEY)).toBe(saved);
+  });
+
+  it('should ignore a saved run from another schema version', () => {
+    const game = createGame();
+    playRounds(game, 2);
+    const snapshot = JSON.parse(runStorage.getItem(RUN_STORAGE_KEY)!) as RunSnapshot;
+    runStorage.setItem(RUN_STORAGE_KEY, JSON.stringify({ ...snapshot, version: RUN_SCHEMA_VERSION + 1 }));
+
+    const fresh = createGame();
+    expect(fresh.getSavedRun()).toBeNull();
+    expect(fresh.resumeSavedRun()).toBe(false);
+    expect(fresh.getState()).toBe(GameState.INITIALIZATION);
+  });
+
+  it('should ignore corrupt or invalid saved runs', () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const game = createGame();
+
+    runStorage.setItem(RUN_STORAGE_KEY, '{not json');
+    expect(game.getSavedRun()).toBeNull();
+    expect(errorSpy).toHaveBeenCalled();
+
+    runStorage.setItem(RUN_STORAGE_KEY, JSON.stringify({ version: RUN_SCHEMA_VERSION, round: 'twelve' }));
+    expect(game.getSavedRun()).toBeNull();
+    expect(game.resumeSavedRun()).toBe(false);
+  });
+});
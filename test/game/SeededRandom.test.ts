@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { SeededRandom } from '@/core/game/SeededRandom';
+import { GameEngine } from '@/core/game/GameEngine';
+import { VariationManager } from '@/core/variations/VariationManager';
+import { GameState, GameVariation, GemstoneType } from '@/core/game/types';
+
+// Play rounds perfectly and collect the pattern and variation of each round
+const playRounds = (game: GameEngine, rounds: number) => {
+  const history: { pattern: GemstoneType[]; variation: GameVariation }[] = [];
+
+  for (let i = 0; i < rounds; i++) {
+    game.startGame();
+    if (game.getState() === GameState.VARIATION_INTRO || game.getState() === GameState.CALIBRATION) {
+      game.startPatternDisplay();
+    }
+    game.startPlayerInput();
+
+    const pattern = game.getPattern();
+    const variation = game.getCurrentVariation();
+    history.push({ pattern, variation });
+
+    const inputPattern = (variation === GameVariation.REVERSE ||
+                          variation === GameVariation.REVERSE_COMBINATION)
+                          ? [...pattern].reverse()
+                          : pattern;
+    inputPattern.forEach(gem => game.handlePlayerInput(gem));
+  }
+
+  return history;
+};
+
+describe('SeededRandom', () => {
+  it('should produce values in [0, 1)', () => {
+    const random = new SeededRandom(123);
+    for (let i = 0; i < 1000; i++) {
+      const value = random.next();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  it('should produce the same sequence for the same seed', () => {
+    const a = new SeededRandom(42);
+    const b = new SeededRandom(42);
+    const sequenceA = Array.from({ length: 20 }, () => a.next());
+    const sequenceB = Array.from({ length: 20 }, () => b.next());
+    expect(sequenceA).toEqual(sequenceB);
+  });
+
+  it('should produce different sequences for different seeds', () => {
+    const a = new SeededRandom(1);
+    const b = new SeededRandom(2);
+    expect(a.next()).not.toBe(b.next());
+  });
+
+  it('should restart the sequence when reseeded', () => {
+    const random = new SeededRandom(7);
+    const first = [random.next(), random.next()];
+    random.setSeed(7);
+    expect([random.next(), random.next()]).toEqual(first);
+    expect(random.getSeed()).toBe(7);
+  });
+
+  it('should generate a seed when none is given', () => {
+    const random = new SeededRandom();
+    expect(Number.isInteger(random.getSeed())).toBe(true);
+  });
+});
+
+describe('Seeded GameEngine', () => {
+  it('should expose the seed it was created with', () => {
+    const game = new GameEngine(undefined, { seed: 1234 });
+    expect(game.getSeed()).toBe(1234);
+    expect(game.getVariationManager().getSeed()).toBe(1234);
+  });
+
+  it('should replay identical patterns and variations for the same seed', () => {
+    const first = playRounds(new GameEngine(undefined, { seed: 99 }), 20);
+    const second = playRounds(new GameEngine(undefined, { seed: 99 }), 20);
+    expect(second).toEqual(first);
+  });
+
+  it('should produce identical variation effects for the same seed', () => {
+    const effectsFor = (seed: number) => {
+      const manager = new VariationManager(new SeededRandom(seed));
+      const pattern = [GemstoneType.EMERALD, GemstoneType.TRILLION, GemstoneType.CUSHION, GemstoneType.MARQUISE];
+      return {
+        variation: manager.selectVariation(17),
+        base: manager.getCombinationBase(),
+        ghost: manager.getGhostIndices(pattern, 3),
+        timings: manager.getChaosTimings(pattern, 9),
+        colors: Array.from(manager.getShuffledColors().entries()),
+        shining: manager.getShiningIndices(pattern, 6)
+      };
+    };
+
+    expect(effectsFor(2024)).toEqual(effectsFor(2024));
+  });
+
+  it('should give each run after a reset its own reproducible seed', () => {
+    const game = new GameEngine(undefined, { seed: 5 });
+    playRounds(game, 3);
+    game.resetGame();
+    const runSeed = game.getSeed();
+    const secondRun = playRounds(game, 10);
+
+    const replayed = playRounds(new GameEngine(undefined, { seed: runSeed }), 10);
+    expect(replayed).toEqual(secondRun);
+  });
+
+  it('should accept an explicit seed on reset', () => {
+    const game = new GameEngine();
+    game.resetGame(77);
+    expect(game.getSeed()).toBe(77);
+  });
+
+  it('should accept an injected random source', () => {
+    const random = new SeededRandom(8);
+    const game = new GameEngine(undefined, { random });
+    expect(game.getSeed()).toBe(8);
+    game.startGame();
+    expect(game.getPattern()).toHaveLength(4);
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { readFileSync } from 'node:fs';
+import yaml from 'js-yaml';
+import { VariationManager } from '@/core/variations/VariationManager';
+import { GameEngine } from '@/core/game/GameEngine';
+import { TicketManager } from '@/core/economy/TicketManager';
+import { RtpSimulator } from '@/core/economy/RtpSimulator';
+import { MemoryStorageAdapter } from '@/core/storage/MemoryStorageAdapter';
+import { GAME_CONFIG } from '@/core/game/constants';
+import { createEmptyEffects } from '@/core/variations/types';
+import { GameState, GameVariation, GemstoneType } from '@/core/game/types';
+import type { GameConfig } from '@/core/game/types';
+import { validateGameConfig } from '@/utils/config-validator';
+import { loadTicketConfig, playRound } from '../helpers';
+
+/**
+ * Config that stacks Speed Chaos and Reverse from round 2
+ */
+const stackingConfig = (): GameConfig => {
+  const config = structuredClone(GAME_CONFIG);
+  config.variations.stacking = {
+    fromRound: 2,
+    pool: [GameVariation.REVERSE, GameVariation.SPEED_CHAOS],
+    size: [{ fromRound: 2, value: 2 }]
+  };
+  return config;
+};
+
+describe('Stacked Variations', () => {
+  let manager: VariationManager;
+
+  beforeEach(() => {
+    manager = new VariationManager();
+  });
+
+  describe('Selection', () => {
+    it('should stack variations from the stacking round', () => {
+      expect(manager.getAvailableVariations(25)).toEqual([GameVariation.REVERSE_COMBINATION]);
+      expect(manager.getAvailableVariations(26)).toEqual([GameVariation.STACKED]);
+    });
+
+    it('should size stacks by round', () => {
+      expect(manager.getStackCandidates(26).every(stack => stack.length === 2)).toBe(true);
+      expect(manager.getStackCandidates(38).every(stack => stack.length === 3)).toBe(true);
+    });
+
+    it('should never stack conflicting variations', () => {
+      expect(manager.areCompatible(GameVariation.GHOST, GameVariation.SELECTIVE_ATTENTION)).toBe(false);
+      expect(manager.areCompatible(GameVariation.SELECTIVE_ATTENTION, GameVariation.GHOST)).toBe(false);
+      expect(manager.areCompatible(GameVariation.GHOST, GameVariation.SPEED_CHAOS)).toBe(true);
+
+      const stacks = manager.getStackCandidates(38);
+      expect(stacks.length).toBeGreaterThan(0);
+      stacks.forEach(stack => {
+        expect(stack.includes(GameVariation.GHOST) && stack.includes(GameVariation.SELECTIVE_ATTENTION)).toBe(false);
+      });
+    });
+
+    it('should apply Reverse last in a stack', () => {
+      manager.getStackCandidates(26)
+        .filter(stack => stack.includes(GameVariation.REVERSE))
+        .forEach(stack => expect(stack[stack.length - 1]).toBe(GameVariation.REVERSE));
+    });
+
+    it('should pick a new stack every variation block', () => {
+      const first = manager.selectVariation(26);
+      const firstStack = manager.getStack();
+
+      expect(first).toBe(GameVariation.STACKED);
+      expect(firstStack).toHaveLength(2);
+      expect(manager.getCombinationBase()).toBeNull();
+
+      expect(manager.selectVariation(27)).toBe(GameVariation.STACKED);
+      expect(manager.getStack()).toEqual(firstStack);
+
+      manager.selectVariation(29);
+      expect(manager.getStack()).not.toEqual(firstStack);
+    });
+
+    it('should fall back to Reverse Combo when stacking is disabled', () => {
+      manager.setDisabledVariations([GameVariation.STACKED]);
+
+      expect(manager.getAvailableVariations(26)).toEqual([GameVariation.REVERSE_COMBINATION]);
+    });
+
+    it('should fall back to Reverse Combo when no stack is left', () => {
+      manager.setDisabledVariations([
+        GameVariation.SPEED_CHAOS,
+        GameVariation.COLOR_SHUFFLE,
+        GameVariation.REVERSE
+      ]);
+
+      // Ghost and Selective Attention are all that is left, and they conflict
+      expect(manager.getStackCandidates(26)).toEqual([]);
+      expect(manager.getAvailableVariations(26)).toEqual([GameVariation.REVERSE_COMBINATION]);
+    });
+
+    it('should save and restore the stack', () => {
+      manager.selectVariation(26);
+      const stack = manager.getStack();
+
+      const restored = new VariationManager();
+      restored.applySnapshot(manager.toSnapshot());
+      expect(restored.getStack()).toEqual(stack);
+
+      restored.reset();
+      expect(restored.getStack()).toEqual([]);
+    });
+  });
+
+  describe('Rules', () => {
+    it('should apply every stacked rule in order', () => {
+      const pattern = [GemstoneType.EMERALD, GemstoneType.TRILLION, GemstoneType.CUSHION, GemstoneType.MARQUISE];
+      const effects = { ...createEmptyEffects(), shiningIndices: [0, 2, 3] };
+      const stack = [GameVariation.SELECTIVE_ATTENTION, GameVariation.REVERSE];
+
+      expect(manager.getExpectedInput(pattern, GameVariation.STACKED, effects, stack))
+        .toEqual([GemstoneType.MARQUISE, GemstoneType.CUSHION, GemstoneType.EMERALD]);
+      expect(manager.validateInput(
+        [GemstoneType.MARQUISE, GemstoneType.CUSHION, GemstoneType.EMERALD],
+        pattern,
+        GameVariation.STACKED,
+        effects,
+        stack
+      )).toBe(true);
+    });
+  });
+
+  describe('Rewards', () => {
+    it('should multiply the bonuses of the stacked variations', () => {
+      const ticketManager = new TicketManager(loadTicketConfig());
+      const base = ticketManager.calculateReward(5, GameVariation.NONE);
+
+      expect(ticketManager.calculateReward(5, GameVariation.STACKED, [GameVariation.GHOST, GameVariation.SPEED_CHAOS]))
+        .toBeCloseTo(base * 1.15 * 1.2, 1);
+      expect(ticketManager.getNextRoundReward(4, GameVariation.STACKED, [GameVariation.GHOST, GameVariation.SPEED_CHAOS]))
+        .toBe(ticketManager.calculateReward(5, GameVariation.STACKED, [GameVariation.GHOST, GameVariation.SPEED_CHAOS]));
+    });
+
+    it('should average stacked rounds over the possible stacks', () => {
+      const ticketManager = new TicketManager(loadTicketConfig());
+      const simulator = new RtpSimulator(loadTicketConfig());
+      const stacks = new VariationManager().getStackCandidates(30);
+      const expected = stacks.reduce(
+        (sum, stack) => sum + ticketManager.calculateReward(30, GameVariation.STACKED, stack),
+        0
+      ) / stacks.length;
+
+      expect(simulator.getVariationPool(30)).toEqual([GameVariation.STACKED]);
+      expect(simulator.getExpectedRoundReward(30)).toBeCloseTo(expected, 6);
+    });
+  });
+
+  describe('Engine', () => {
+    let game: GameEngine;
+
+    const startRound2 = (storage?: MemoryStorageAdapter) => {
+      game = new GameEngine(new TicketManager(loadTicketConfig()), { seed: 5, gameConfig: stackingConfig(), storage });
+      game.startGameWithTickets();
+      playRound(game);
+      game.continueToNextRound();
+    };
+
+    it('should play a round under the whole stack', () => {
+      startRound2();
+
+      expect(game.getCurrentVariation()).toBe(GameVariation.STACKED);
+      expect(game.getVariationStack()).toEqual([GameVariation.SPEED_CHAOS, GameVariation.REVERSE]);
+      expect(game.getVariationEffects().chaosTimings).toHaveLength(game.getPattern().length);
+      expect(game.getExpectedInput()).toEqual([...game.getPattern()].reverse());
+    });
+
+    it('should pay the stacked bonus on completion', () => {
+      startRound2();
+      playRound(game);
+
+      expect(game.getState()).toBe(GameState.ROUND_COMPLETE);
+      expect(game.getLastReward()).toBe(
+        game.getTicketManager()!.calculateReward(2, GameVariation.STACKED, [GameVariation.SPEED_CHAOS, GameVariation.REVERSE])
+      );
+    });
+
+    it('should resume a run with its stack', () => {
+      const storage = new MemoryStorageAdapter();
+      startRound2(storage);
+      playRound(game);
+
+      const resumed = new GameEngine(new TicketManager(loadTicketConfig()), {
+        seed: 5,
+        gameConfig: stackingConfig(),
+        storage
+      });
+      expect(resumed.resumeSavedRun()).toBe(true);
+      expect(resumed.getVariationStack()).toEqual([GameVariation.SPEED_CHAOS, GameVariation.REVERSE]);
+    });
+  });
+
+  describe('Config', () => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let raw: any;
+    const paths = () => validateGameConfig(raw).map(issue => issue.path);
+
+    beforeEach(() => {
+      raw = yaml.load(readFileSync('public/game_config.yml', 'utf8'));
+    });
+
+    it('should reject stacks of fewer than two variations', () => {
+      raw.variations.stacking.size[0].value = 1;
+
+      expect(paths()).toEqual(['variations.stacking.size[0].value']);
+    });
+
+    it('should reject mode variations in the pool', () => {
+      raw.variations.stacking.pool.push('STACKED', 'REVERSE_COMBINATION');
+
+      expect(paths()).toEqual(['variations.stacking.pool[5]', 'variations.stacking.pool[6]']);
+    });
+  });
+});
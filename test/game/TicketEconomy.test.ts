@@ -52,6 +52,7 @@ const createMockConfig = (overrides?: Partial<TicketConfig>): TicketConfig => ({
     speed_chaos: 1.20,
     color_shuffle: 1.15,
     selective: 1.20,
+    mirror: 1.20,
     reverse_combo: 1.35
   },
   disabled_variation_penalties: {
@@ -140,12 +141,7 @@ describe('Ticket Economy Business Logic', () => {
         game.startPlayerInput();
         
         // Simulate correct input
-        const pattern = game.getPattern();
-        const variation = game.getCurrentVariation();
-        const inputPattern = (variation === GameVariation.REVERSE || 
-                             variation === GameVariation.REVERSE_COMBINATION) 
-                             ? [...pattern].reverse() 
-                             : pattern;
+        const inputPattern = game.getRequiredInput();
         
         inputPattern.forEach(gem => {
           const result = game.handlePlayerInput(gem);
@@ -291,12 +287,7 @@ describe('Ticket Economy Business Logic', () => {
           
           game.startPlayerInput();
           
-          const pattern = game.getPattern();
-          const variation = game.getCurrentVariation();
-          const inputPattern = (variation === GameVariation.REVERSE || 
-                               variation === GameVariation.REVERSE_COMBINATION) 
-                               ? [...pattern].reverse() 
-                               : pattern;
+          const inputPattern = game.getRequiredInput();
           
           if (round < targetRound) {
             // Succeed this round
@@ -306,7 +297,7 @@ describe('Ticket Economy Business Logic', () => {
             }
           } else {
             // Fail on target round
-            const wrongGem = pattern[0] === 'EMERALD' ? 'TRILLION' : 'EMERALD';
+            const wrongGem = inputPattern[0] === 'EMERALD' ? 'TRILLION' : 'EMERALD';
             game.handlePlayerInput(wrongGem as any);
           }
         }
@@ -486,6 +477,98 @@ describe('Ticket Economy Business Logic', () => {
     });
   });
 
+  describe('Difficulty Timing', () => {
+    // Complete the current round and start the next one
+    const advanceRound = () => {
+      if (game.getState() === GameState.CALIBRATION || game.getState() === GameState.VARIATION_INTRO) {
+        game.startPatternDisplay();
+      }
+      game.startPlayerInput();
+      game.getPattern().forEach(gem => game.handlePlayerInput(gem));
+      game.startGame();
+    };
+
+    it('should keep standard timings on normal difficulty', () => {
+      game.startGameWithTickets();
+      expect(game.getDisplaySpeed()).toBe(1000);
+      game.startPlayerInput();
+      expect(game.getTimerSeconds()).toBe(10);
+    });
+
+    it('should give more time on easy difficulty', () => {
+      ticketManager.setDifficulty('easy');
+      game.startGameWithTickets();
+      expect(game.getDisplaySpeed()).toBe(1500);
+      game.startPatternDisplay();
+      game.startPlayerInput();
+      expect(game.getTimerSeconds()).toBe(15);
+    });
+
+    it('should give less time on hard difficulty', () => {
+      ticketManager.setDifficulty('hard');
+      game.startGameWithTickets();
+      advanceRound(); // Round 2
+
+      expect(game.getDisplaySpeed()).toBe(350); // (750 - 2 * 25) * 0.5
+      if (game.getState() === GameState.VARIATION_INTRO) {
+        game.startPatternDisplay();
+      }
+      game.startPlayerInput();
+      expect(game.getTimerSeconds()).toBe(3.75); // (8 - 2 * 0.25) * 0.5
+    });
+
+    it('should pick up a difficulty change at the start of a run', () => {
+      ticketManager.setDifficulty('hard');
+      game.startGameWithTickets();
+      expect(game.getDisplaySpeed()).toBe(500);
+
+      game.resetGame();
+      ticketManager.setDifficulty('easy');
+      game.startGameWithTickets();
+      expect(game.getDisplaySpeed()).toBe(1500);
+    });
+
+    it('should scale Speed Chaos timings by the display multiplier', () => {
+      const seed = 2; // Reaches Speed Chaos in round 8
+      const timingsFor = (difficulty: string) => {
+        const tm = new TicketManager(config);
+        tm.setDifficulty(difficulty);
+        const seeded = new GameEngine(tm, { seed });
+        seeded.startGameWithTickets();
+        // Play until Speed Chaos is active
+        for (let i = 0; i < 20 && seeded.getVariationEffects().chaosTimings === null; i++) {
+          if (seeded.getState() === GameState.CALIBRATION || seeded.getState() === GameState.VARIATION_INTRO) {
+            seeded.startPatternDisplay();
+          }
+          seeded.startPlayerInput();
+          const input = seeded.getRequiredInput();
+          input.forEach(gem => seeded.handlePlayerInput(gem));
+          seeded.startGame();
+        }
+        return seeded.getVariationEffects().chaosTimings;
+      };
+
+      const normal = timingsFor('normal');
+      const hard = timingsFor('hard');
+      expect(normal).not.toBeNull();
+      expect(hard).toEqual(normal!.map(t => Math.round(t * 0.5)));
+    });
+  });
+
+  describe('Disabled Variations', () => {
+    it('should play plain rounds when the only available variation is disabled', () => {
+      ticketManager.setVariationEnabled(GameVariation.GHOST, false);
+      game.startGameWithTickets();
+      game.startPatternDisplay();
+      game.startPlayerInput();
+      game.getPattern().forEach(gem => game.handlePlayerInput(gem));
+
+      game.startGame(); // Round 2
+      expect(game.getCurrentVariation()).toBe(GameVariation.NONE);
+      expect(game.getState()).toBe(GameState.PATTERN_DISPLAY);
+    });
+  });
+
   describe('Game-TicketManager Integration', () => {
     it('should properly integrate reward calculation with game progression', () => {
       // Start game
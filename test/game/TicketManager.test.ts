@@ -37,6 +37,7 @@ const mockConfig: TicketConfig = {
     speed_chaos: 1.20,
     color_shuffle: 1.15,
     selective: 1.20,
+    mirror: 1.20,
     reverse_combo: 1.35
   },
   disabled_variation_penalties: {
@@ -291,6 +292,50 @@ describe('TicketManager', () => {
     });
   });
 
+  describe('Disabled Variation Penalty', () => {
+    it('should have no penalty with every variation enabled', () => {
+      expect(ticketManager.getDisabledVariationPenalty()).toBe(0);
+      expect(ticketManager.isVariationEnabled(GameVariation.GHOST)).toBe(true);
+    });
+
+    it('should reduce rewards per disabled variation', () => {
+      ticketManager.setVariationEnabled(GameVariation.GHOST, false);
+      ticketManager.setVariationEnabled(GameVariation.REVERSE, false);
+      expect(ticketManager.getDisabledVariationPenalty()).toBeCloseTo(0.10);
+
+      const reward = ticketManager.calculateReward(5, GameVariation.NONE);
+      // 2.50 * 0.50 * 1.00 * 1.00 * (1 - 0.10) = 1.125, rounded to 1.13
+      expect(reward).toBe(1.13);
+    });
+
+    it('should cap the penalty at max_penalty', () => {
+      [
+        GameVariation.REVERSE,
+        GameVariation.GHOST,
+        GameVariation.SPEED_CHAOS,
+        GameVariation.COLOR_SHUFFLE,
+        GameVariation.SELECTIVE_ATTENTION,
+        GameVariation.REVERSE_COMBINATION
+      ].forEach(variation => ticketManager.setVariationEnabled(variation, false));
+
+      expect(ticketManager.getDisabledVariationPenalty()).toBe(0.25);
+      // 2.50 * 0.50 * (1 - 0.25) = 0.9375, rounded to 0.94
+      expect(ticketManager.calculateReward(5, GameVariation.NONE)).toBe(0.94);
+    });
+
+    it('should lift the penalty when a variation is re-enabled', () => {
+      ticketManager.setVariationEnabled(GameVariation.GHOST, false);
+      ticketManager.setVariationEnabled(GameVariation.GHOST, true);
+      expect(ticketManager.getDisabledVariationPenalty()).toBe(0);
+      expect(ticketManager.getDisabledVariations()).toEqual([]);
+    });
+
+    it('should not allow disabling NONE', () => {
+      ticketManager.setVariationEnabled(GameVariation.NONE, false);
+      expect(ticketManager.getDisabledVariations()).toEqual([]);
+    });
+  });
+
   describe('Statistics Tracking', () => {
     it('should track games played', () => {
       expect(ticketManager.getGamesPlayed()).toBe(0);
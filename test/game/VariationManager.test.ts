@@ -1,6 +1,8 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { VariationManager } from '@/core/variations/VariationManager';
-import { GameVariation, GemstoneType } from '@/core/game/types';
+import { getVariation, registerVariation } from '@/core/variations/VariationRegistry';
+import { GameEngine } from '@/core/game/GameEngine';
+import { GameState, GameVariation, GemstoneType } from '@/core/game/types';
 
 describe('VariationManager', () => {
   let manager: VariationManager;
@@ -42,10 +44,11 @@ describe('VariationManager', () => {
       expect(available).toContain(GameVariation.COLOR_SHUFFLE);
     });
 
-    it('should unlock REVERSE for rounds 14-16', () => {
+    it('should unlock REVERSE and MIRROR for rounds 14-16', () => {
       const available = manager.getAvailableVariations(14);
-      expect(available).toHaveLength(5);
+      expect(available).toHaveLength(6);
       expect(available).toContain(GameVariation.REVERSE);
+      expect(available).toContain(GameVariation.MIRROR);
     });
 
     it('should enable combination mode for round 17+', () => {
@@ -55,6 +58,59 @@ describe('VariationManager', () => {
     });
   });
 
+  describe('Disabled Variations', () => {
+    it('should exclude disabled variations from the available pool', () => {
+      manager.setDisabledVariations([GameVariation.GHOST]);
+      expect(manager.getAvailableVariations(2)).toEqual([]);
+      expect(manager.getAvailableVariations(5)).toEqual([GameVariation.SELECTIVE_ATTENTION]);
+      expect(manager.getAvailableVariations(14)).not.toContain(GameVariation.GHOST);
+    });
+
+    it('should return null when every variation for a round is disabled', () => {
+      manager.setDisabledVariations([GameVariation.GHOST]);
+      expect(manager.selectVariation(2)).toBeNull();
+    });
+
+    it('should never select a disabled variation', () => {
+      for (let i = 0; i < 20; i++) {
+        manager = new VariationManager();
+        manager.setDisabledVariations([GameVariation.GHOST, GameVariation.SPEED_CHAOS]);
+        const variation = manager.selectVariation(14);
+        expect(variation).not.toBe(GameVariation.GHOST);
+        expect(variation).not.toBe(GameVariation.SPEED_CHAOS);
+      }
+    });
+
+    it('should never combine Reverse with a disabled base', () => {
+      manager.setDisabledVariations([GameVariation.GHOST, GameVariation.SPEED_CHAOS, GameVariation.COLOR_SHUFFLE]);
+      manager.selectVariation(17);
+      expect(manager.getCombinationBase()).toBe(GameVariation.SELECTIVE_ATTENTION);
+
+      // The only base left has to repeat for the next block
+      manager.selectVariation(20);
+      expect(manager.getCombinationBase()).toBe(GameVariation.SELECTIVE_ATTENTION);
+    });
+
+    it('should fall back to the full pool when combination mode is disabled', () => {
+      manager.setDisabledVariations([GameVariation.REVERSE_COMBINATION]);
+      const available = manager.getAvailableVariations(17);
+      expect(available).not.toContain(GameVariation.REVERSE_COMBINATION);
+      expect(available).toHaveLength(6);
+      expect(available).toContain(manager.selectVariation(17));
+      expect(manager.getCombinationBase()).toBeNull();
+    });
+
+    it('should fall back to the full pool when every combination base is disabled', () => {
+      manager.setDisabledVariations([
+        GameVariation.GHOST,
+        GameVariation.SPEED_CHAOS,
+        GameVariation.COLOR_SHUFFLE,
+        GameVariation.SELECTIVE_ATTENTION
+      ]);
+      expect(manager.getAvailableVariations(17)).toEqual([GameVariation.REVERSE, GameVariation.MIRROR]);
+    });
+  });
+
   describe('Variation Selection', () => {
     it('should select a variation every 3 rounds', () => {
       // Round 2: Select new variation
@@ -370,6 +426,60 @@ describe('VariationManager', () => {
     });
   });
 
+  describe('Variation Rules', () => {
+    const ghostRule = getVariation(GameVariation.GHOST);
+    const swapped = (gem: GemstoneType) =>
+      gem === GemstoneType.EMERALD ? GemstoneType.MARQUISE :
+      gem === GemstoneType.MARQUISE ? GemstoneType.EMERALD : gem;
+
+    afterEach(() => {
+      registerVariation(ghostRule);
+    });
+
+    it('should leave the pattern as is without a rule change', () => {
+      const pattern = [GemstoneType.EMERALD, GemstoneType.CUSHION];
+
+      expect(manager.getExpectedInput(pattern, GameVariation.GHOST)).toEqual(pattern);
+      expect(manager.getDisplaySequence(pattern, GameVariation.REVERSE)).toEqual(pattern);
+      expect(manager.resolveInput(GemstoneType.CUSHION, GameVariation.COLOR_SHUFFLE)).toBe(GemstoneType.CUSHION);
+    });
+
+    it('should name the reward bonus of every variation', () => {
+      expect(Object.values(GameVariation).map(v => manager.getRule(v).rewardKey)).toEqual([
+        'none', 'reverse', 'ghost', 'speed_chaos', 'color_shuffle', 'selective', 'mirror', 'reverse_combo', 'none'
+      ]);
+    });
+
+    it('should validate input through the rule\'s input transform', () => {
+      registerVariation({ ...ghostRule, transformInput: swapped });
+      const pattern = [GemstoneType.EMERALD, GemstoneType.CUSHION];
+
+      expect(manager.validateInput([GemstoneType.MARQUISE, GemstoneType.CUSHION], pattern, GameVariation.GHOST)).toBe(true);
+      expect(manager.validateInput(pattern, pattern, GameVariation.GHOST)).toBe(false);
+    });
+
+    it('should have the engine enter the pattern by the registered rule', () => {
+      registerVariation({
+        ...ghostRule,
+        expectedSequence: pattern => [...pattern].reverse()
+      });
+      const game = new GameEngine(undefined, { seed: 3 });
+      game.startGame();
+      game.startPlayerInput();
+      game.getPattern().forEach(gem => game.handlePlayerInput(gem));
+      game.continueToNextRound();
+      expect(game.getCurrentVariation()).toBe(GameVariation.GHOST);
+
+      game.startPatternDisplay();
+      game.startPlayerInput();
+      const reversed = [...game.getPattern()].reverse();
+      expect(game.getExpectedInput()).toEqual(reversed);
+      reversed.forEach(gem => game.handlePlayerInput(gem));
+
+      expect(game.getState()).toBe(GameState.ROUND_COMPLETE);
+    });
+  });
+
   describe('Tutorial Tracking', () => {
     it('should track if tutorial was shown for each variation', () => {
       expect(manager.hasShownTutorial(GameVariation.REVERSE)).toBe(false);
@@ -0,0 +1,158 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { readFileSync } from 'node:fs';
+import yaml from 'js-yaml';
+import {
+  getRegisteredVariations,
+  getVariation,
+  isRegisteredVariation,
+  registerVariation,
+  unregisterVariation
+} from '@/core/variations/VariationRegistry';
+import { plainRule } from '@/core/variations/types';
+import type { VariationDefinition } from '@/core/variations/types';
+import { VariationManager } from '@/core/variations/VariationManager';
+import { GameEngine } from '@/core/game/GameEngine';
+import { TicketManager, WALLET_STORAGE_KEY, WALLET_SCHEMA_VERSION } from '@/core/economy/TicketManager';
+import { MemoryStorageAdapter } from '@/core/storage/MemoryStorageAdapter';
+import { GameState, GameVariation, GemstoneType } from '@/core/game/types';
+import { validateGameConfig, validateTicketConfig } from '@/utils/config-validator';
+import { loadTicketConfig } from '../helpers';
+
+// Every gem is entered twice
+const echo: VariationDefinition = {
+  ...plainRule('echo'),
+  id: 'ECHO',
+  name: 'Echo',
+  tutorial: 'Enter every gem twice',
+  unlockRound: 3,
+  expectedSequence: pattern => pattern.flatMap(gem => [gem, gem]),
+  rollEffects: ({ pattern }) => ({ ghostIndices: pattern.map((_, i) => i) })
+};
+
+describe('Variation Registry', () => {
+  afterEach(() => {
+    unregisterVariation(echo.id);
+  });
+
+  it('should describe every built-in variation', () => {
+    expect(getRegisteredVariations()).toEqual(Object.values(GameVariation));
+    expect(getVariation(GameVariation.SELECTIVE_ATTENTION)).toMatchObject({
+      name: 'Selective Attention',
+      tutorial: 'Life is not Monochrome',
+      rewardKey: 'selective'
+    });
+  });
+
+  it('should register and unregister a variation', () => {
+    registerVariation(echo);
+    expect(isRegisteredVariation('ECHO')).toBe(true);
+    expect(getVariation('ECHO').name).toBe('Echo');
+
+    expect(unregisterVariation('ECHO')).toBe(true);
+    expect(isRegisteredVariation('ECHO')).toBe(false);
+    expect(getVariation('ECHO').id).toBe(GameVariation.NONE);
+  });
+
+  it('should keep the built-ins registered', () => {
+    expect(unregisterVariation(GameVariation.GHOST)).toBe(false);
+    expect(isRegisteredVariation(GameVariation.GHOST)).toBe(true);
+  });
+
+  it('should add a variation to the pool from its unlock round', () => {
+    const manager = new VariationManager();
+    registerVariation(echo);
+
+    expect(manager.getAvailableVariations(2)).toEqual([GameVariation.GHOST]);
+    expect(manager.getAvailableVariations(5)).toContain('ECHO');
+
+    manager.setDisabledVariations(['ECHO']);
+    expect(manager.getAvailableVariations(5)).not.toContain('ECHO');
+  });
+
+  it('should offer a combinable variation as a Reverse Combo base', () => {
+    const manager = new VariationManager();
+    registerVariation({ ...echo, combinable: true });
+    manager.setDisabledVariations([
+      GameVariation.GHOST,
+      GameVariation.SPEED_CHAOS,
+      GameVariation.COLOR_SHUFFLE,
+      GameVariation.SELECTIVE_ATTENTION
+    ]);
+
+    expect(manager.selectVariation(17)).toBe(GameVariation.REVERSE_COMBINATION);
+    expect(manager.getCombinationBase()).toBe('ECHO');
+  });
+
+  it('should roll the variation\'s display effects', () => {
+    const manager = new VariationManager();
+    registerVariation(echo);
+
+    const effects = manager.rollEffects(['ECHO'], [GemstoneType.EMERALD, GemstoneType.CUSHION], 5);
+
+    expect(effects.ghostIndices).toEqual([0, 1]);
+    expect(effects.chaosTimings).toBeNull();
+  });
+
+  it('should play a round by the variation\'s rule', () => {
+    registerVariation({ ...echo, unlockRound: 2 });
+    const game = new GameEngine(undefined, { seed: 4 });
+    game.getVariationManager().setDisabledVariations([GameVariation.GHOST]);
+    game.startGame();
+    game.startPlayerInput();
+    game.getPattern().forEach(gem => game.handlePlayerInput(gem));
+    game.continueToNextRound();
+    expect(game.getCurrentVariation()).toBe('ECHO');
+
+    game.startPatternDisplay();
+    game.startPlayerInput();
+    const pattern = game.getPattern();
+    expect(game.getVariationEffects().ghostIndices).toHaveLength(pattern.length);
+    pattern.forEach(gem => {
+      game.handlePlayerInput(gem);
+      game.handlePlayerInput(gem);
+    });
+
+    expect(game.getState()).toBe(GameState.ROUND_COMPLETE);
+  });
+
+  it('should pay the bonus under the variation\'s reward key', () => {
+    registerVariation(echo);
+    const config = loadTicketConfig();
+    config.variation_bonuses.echo = 2;
+    const ticketManager = new TicketManager(config);
+
+    expect(ticketManager.calculateReward(5, 'ECHO')).toBe(ticketManager.calculateReward(5, GameVariation.NONE) * 2);
+    expect(validateTicketConfig(config)).toEqual([]);
+  });
+
+  it('should keep a saved disabled variation registered after the wallet loads', () => {
+    const config = loadTicketConfig();
+    const storage = new MemoryStorageAdapter();
+    storage.setItem(WALLET_STORAGE_KEY, JSON.stringify({
+      version: WALLET_SCHEMA_VERSION,
+      balance: 50,
+      difficulty: config.default_difficulty,
+      disabledVariations: ['ECHO']
+    }));
+    const ticketManager = new TicketManager(config, storage);
+    ticketManager.setDifficulty(config.default_difficulty);
+
+    expect(ticketManager.getDisabledVariationPenalty()).toBe(0);
+    expect(JSON.parse(storage.getItem(WALLET_STORAGE_KEY)!).disabledVariations).toEqual(['ECHO']);
+
+    registerVariation(echo);
+    expect(ticketManager.getDisabledVariations()).toEqual(['ECHO']);
+    expect(ticketManager.getDisabledVariationPenalty())
+      .toBe(config.disabled_variation_penalties.per_variation_penalty);
+  });
+
+  it('should let game_config.yml schedule a registered variation', () => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const raw: any = yaml.load(readFileSync('public/game_config.yml', 'utf8'));
+    raw.variations.unlocks[0].variations.push('ECHO');
+    expect(validateGameConfig(raw).map(issue => issue.path)).toEqual(['variations.unlocks[0].variations[1]']);
+
+    registerVariation(echo);
+    expect(validateGameConfig(raw)).toEqual([]);
+  });
+});
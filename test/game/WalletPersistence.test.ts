@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  TicketManager,
+  HISTORY_STORAGE_KEY,
+  WALLET_STORAGE_KEY,
+  WALLET_SCHEMA_VERSION
+} from '@/core/economy/TicketManager';
+import { MemoryStorageAdapter } from '@/core/storage/MemoryStorageAdapter';
+import { GameVariation } from '@/core/game/types';
+import type { TicketConfig } from '@/utils/yaml-loader';
+import { loadTicketConfig } from '../helpers';
+
+describe('Wallet Persistence', () => {
+  let config: TicketConfig;
+  let storage: MemoryStorageAdapter;
+
+  beforeEach(() => {
+    config = loadTicketConfig();
+    storage = new MemoryStorageAdapter();
+  });
+
+  it('should start from the configured balance with empty storage', () => {
+    const ticketManager = new TicketManager(config, storage);
+    expect(ticketManager.getBalance()).toBe(config.demo.starting_balance);
+  });
+
+  it('should restore balance and statistics after a reload', () => {
+    const first = new TicketManager(config, storage);
+    first.deductGameCost();
+    first.addReward(4.5);
+    first.updateHighestRound(7);
+
+    const reloaded = new TicketManager(config, storage);
+    expect(reloaded.getBalance()).toBe(94.5);
+    expect(reloaded.getTotalSpent()).toBe(10);
+    expect(reloaded.getTotalEarned()).toBe(4.5);
+    expect(reloaded.getGamesPlayed()).toBe(1);
+    expect(reloaded.getHighestRound()).toBe(7);
+  });
+
+  it('should restore difficulty and disabled variations', () => {
+    const first = new TicketManager(config, storage);
+    first.setDifficulty('hard');
+    first.setVariationEnabled(GameVariation.GHOST, false);
+
+    const reloaded = new TicketManager(config, storage);
+    expect(reloaded.getCurrentDifficulty()).toBe('hard');
+    expect(reloaded.getDisabledVariations()).toEqual([GameVariation.GHOST]);
+  });
+
+  it('should restore the game history', () => {
+    const first = new TicketManager(config, storage);
+    first.deductGameCost();
+    first.recordRoundResult(1, GameVariation.NONE, 0.5);
+    first.endGameRecord();
+
+    const reloaded = new TicketManager(config, storage);
+    const records = reloaded.getHistory().getRecords();
+    expect(records).toHaveLength(1);
+    expect(records[0].rounds).toEqual([
+      { round: 1, variation: GameVariation.NONE, reward: 0.5, success: true, averageReactionMs: null }
+    ]);
+  });
+
+  it('should save the history apart from the wallet', () => {
+    const first = new TicketManager(config, storage);
+    first.deductGameCost();
+    first.recordRoundResult(1, GameVariation.NONE, 0.5);
+    const history = storage.getItem(HISTORY_STORAGE_KEY);
+
+    first.addReward(0.5);
+    first.setDifficulty('hard');
+
+    expect(JSON.parse(storage.getItem(WALLET_STORAGE_KEY)!).history).toBeUndefined();
+    expect(storage.getItem(HISTORY_STORAGE_KEY)).toBe(history);
+    expect(JSON.parse(history!).records[0].rounds).toHaveLength(1);
+  });
+
+  it('should restore the history of a wallet saved before it had its own key', () => {
+    const first = new TicketManager(config, storage);
+    first.deductGameCost();
+    first.recordRoundResult(1, GameVariation.NONE, 0.5);
+    const records = JSON.parse(storage.getItem(HISTORY_STORAGE_KEY)!).records;
+    storage.removeItem(HISTORY_STORAGE_KEY);
+    storage.setItem(WALLET_STORAGE_KEY, JSON.stringify({
+      ...JSON.parse(storage.getItem(WALLET_STORAGE_KEY)!),
+      history: records
+    }));
+
+    const reloaded = new TicketManager(config, storage);
+    expect(reloaded.getHistory().getRecords()).toHaveLength(1);
+  });
+
+  it('should persist a reset', () => {
+    const first = new TicketManager(config, storage);
+    first.deductGameCost();
+    first.reset();
+
+    const reloaded = new TicketManager(config, storage);
+    expect(reloaded.getBalance()).toBe(config.demo.starting_balance);
+    expect(reloaded.getGamesPlayed()).toBe(0);
+  });
+
+  it('should not save statistics when save_statistics is off', () => {
+    config.tracking.save_statistics = false;
+    const first = new TicketManager(config, storage);
+    first.deductGameCost();
+    first.updateHighestRound(3);
+
+    const saved = JSON.parse(storage.getItem(WALLET_STORAGE_KEY)!);
+    expect(saved.statistics).toBeUndefined();
+
+    const reloaded = new TicketManager(config, storage);
+    expect(reloaded.getBalance()).toBe(90);
+    expect(reloaded.getGamesPlayed()).toBe(0);
+    expect(reloaded.getHighestRound()).toBe(0);
+  });
+
+  it('should ignore a wallet saved with an unknown schema version', () => {
+    storage.setItem(WALLET_STORAGE_KEY, JSON.stringify({
+      version: WALLET_SCHEMA_VERSION + 1,
+      balance: 5000
+    }));
+
+    const ticketManager = new TicketManager(config, storage);
+    expect(ticketManager.getBalance()).toBe(config.demo.starting_balance);
+  });
+
+  it('should ignore corrupt saved data', () => {
+    storage.setItem(WALLET_STORAGE_KEY, '{not json');
+    const ticketManager = new TicketManager(config, storage);
+    expect(ticketManager.getBalance()).toBe(config.demo.starting_balance);
+  });
+
+  it('should drop values no longer valid for the current config', () => {
+    storage.setItem(WALLET_STORAGE_KEY, JSON.stringify({
+      version: WALLET_SCHEMA_VERSION,
+      balance: 1e9,
+      difficulty: 'nightmare',
+      disabledVariations: ['GHOST', 'TELEPORT']
+    }));
+
+    const ticketManager = new TicketManager(config, storage);
+    expect(ticketManager.getBalance()).toBe(config.limits.max_balance);
+    expect(ticketManager.getCurrentDifficulty()).toBe(config.default_difficulty);
+    expect(ticketManager.getDisabledVariations()).toEqual([GameVariation.GHOST]);
+  });
+
+  it('should reject negative or non-numeric amounts', () => {
+    storage.setItem(WALLET_STORAGE_KEY, JSON.stringify({
+      version: WALLET_SCHEMA_VERSION,
+      balance: -50,
+      statistics: { totalEarned: 'lots', totalSpent: 20, gamesPlayed: 2, highestRound: 4 }
+    }));
+
+    const ticketManager = new TicketManager(config, storage);
+    expect(ticketManager.getBalance()).toBe(config.demo.starting_balance);
+    expect(ticketManager.getTotalEarned()).toBe(0);
+    expect(ticketManager.getTotalSpent()).toBe(20);
+  });
+
+  it('should not touch storage without an adapter', () => {
+    const ticketManager = new TicketManager(config);
+    ticketManager.deductGameCost();
+    expect(storage.getItem(WALLET_STORAGE_KEY)).toBeNull();
+  });
+});
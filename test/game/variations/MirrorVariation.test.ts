@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { VariationManager } from '@/core/variations/VariationManager';
+import { GameEngine } from '@/core/game/GameEngine';
+import { TicketManager } from '@/core/economy/TicketManager';
+import { GAME_CONFIG } from '@/core/game/constants';
+import { GameState, GameVariation, GemstoneType } from '@/core/game/types';
+import { parseTicketConfig } from '@/utils/yaml-loader';
+import { validateTicketConfig } from '@/utils/config-validator';
+import { loadTicketConfig } from '../../helpers';
+
+describe('MIRROR Variation', () => {
+  let manager: VariationManager;
+
+  beforeEach(() => {
+    manager = new VariationManager();
+  });
+
+  describe('Input Mirroring', () => {
+    it('should swap the left and right gems', () => {
+      expect(manager.resolveInput(GemstoneType.CUSHION, GameVariation.MIRROR)).toBe(GemstoneType.TRILLION);
+      expect(manager.resolveInput(GemstoneType.TRILLION, GameVariation.MIRROR)).toBe(GemstoneType.CUSHION);
+    });
+
+    it('should keep the top and bottom gems', () => {
+      expect(manager.resolveInput(GemstoneType.EMERALD, GameVariation.MIRROR)).toBe(GemstoneType.EMERALD);
+      expect(manager.resolveInput(GemstoneType.MARQUISE, GameVariation.MIRROR)).toBe(GemstoneType.MARQUISE);
+    });
+
+    it('should show and expect the pattern as is', () => {
+      const pattern = [GemstoneType.CUSHION, GemstoneType.EMERALD, GemstoneType.TRILLION];
+
+      expect(manager.getDisplaySequence(pattern, GameVariation.MIRROR)).toEqual(pattern);
+      expect(manager.getExpectedInput(pattern, GameVariation.MIRROR)).toEqual(pattern);
+    });
+
+    it('should require the mirror image of each expected gem', () => {
+      const pattern = [GemstoneType.CUSHION, GemstoneType.EMERALD, GemstoneType.TRILLION];
+
+      expect(manager.getRequiredInput(pattern, GameVariation.MIRROR))
+        .toEqual([GemstoneType.TRILLION, GemstoneType.EMERALD, GemstoneType.CUSHION]);
+      expect(manager.validateInput(manager.getRequiredInput(pattern, GameVariation.MIRROR), pattern, GameVariation.MIRROR))
+        .toBe(true);
+    });
+
+    it('should validate mirrored input', () => {
+      const pattern = [GemstoneType.CUSHION, GemstoneType.EMERALD, GemstoneType.TRILLION];
+      const mirrored = [GemstoneType.TRILLION, GemstoneType.EMERALD, GemstoneType.CUSHION];
+
+      expect(manager.validateInput(mirrored, pattern, GameVariation.MIRROR)).toBe(true);
+      expect(manager.validateInput(pattern, pattern, GameVariation.MIRROR)).toBe(false);
+    });
+
+    it('should mirror the reversed pattern under Reverse Combo', () => {
+      const pattern = [GemstoneType.CUSHION, GemstoneType.EMERALD, GemstoneType.MARQUISE];
+
+      expect(manager.validateInput(
+        [GemstoneType.MARQUISE, GemstoneType.EMERALD, GemstoneType.TRILLION],
+        pattern,
+        GameVariation.REVERSE_COMBINATION,
+        undefined,
+        [GameVariation.MIRROR]
+      )).toBe(true);
+    });
+  });
+
+  describe('Schedule', () => {
+    it('should unlock from round 14', () => {
+      expect(manager.getAvailableVariations(13)).not.toContain(GameVariation.MIRROR);
+      expect(manager.getAvailableVariations(14)).toContain(GameVariation.MIRROR);
+    });
+
+    it('should introduce itself with a tutorial', () => {
+      expect(manager.getRule(GameVariation.MIRROR).tutorial).toBe('Mirror. Left is right and right is left!');
+    });
+  });
+
+  describe('Rewards', () => {
+    it('should pay the mirror bonus', () => {
+      const config = loadTicketConfig();
+      const ticketManager = new TicketManager(config);
+
+      expect(config.variation_bonuses.mirror).toBe(1.2);
+      expect(ticketManager.calculateReward(5, GameVariation.MIRROR))
+        .toBeCloseTo(ticketManager.calculateReward(5, GameVariation.NONE) * 1.2, 1);
+    });
+
+    it('should pay 1.00 with a ticket_config.yml written before the mirror bonus', () => {
+      const config = parseTicketConfig(readFileSync('public/ticket_config.yml', 'utf8').replace(/^ *mirror:.*\n/m, ''));
+      const ticketManager = new TicketManager(config);
+
+      expect(config.variation_bonuses.mirror).toBe(1);
+      expect(ticketManager.calculateReward(5, GameVariation.MIRROR))
+        .toBe(ticketManager.calculateReward(5, GameVariation.NONE));
+    });
+
+    it('should reject an invalid mirror bonus', () => {
+      const config = loadTicketConfig();
+      (config.variation_bonuses as Record<string, unknown>).mirror = 'high';
+
+      expect(validateTicketConfig(config).map(issue => issue.path)).toEqual(['variation_bonuses.mirror']);
+    });
+  });
+
+  describe('Engine Enforcement', () => {
+    const startMirrorRound = (): GameEngine => {
+      const config = structuredClone(GAME_CONFIG);
+      config.variations.unlocks = [{ fromRound: 2, variations: [GameVariation.MIRROR] }];
+      const game = new GameEngine(undefined, { seed: 3, gameConfig: config });
+      game.startGame();
+      game.startPlayerInput();
+      game.getPattern().forEach(gem => game.handlePlayerInput(gem));
+      game.continueToNextRound();
+      return game;
+    };
+
+    it('should intro the variation, then take the mirrored gems', () => {
+      const game = startMirrorRound();
+      expect(game.getState()).toBe(GameState.VARIATION_INTRO);
+      expect(game.getCurrentVariation()).toBe(GameVariation.MIRROR);
+
+      game.startPatternDisplay();
+      game.startPlayerInput();
+      game.getRequiredInput().forEach(gem => game.handlePlayerInput(gem));
+
+      expect(game.getState()).toBe(GameState.ROUND_COMPLETE);
+    });
+
+    it('should fail the round on an unmirrored side gem', () => {
+      const game = startMirrorRound();
+      game.startPatternDisplay();
+      game.startPlayerInput();
+
+      const pattern = game.getPattern();
+      const side = pattern.findIndex(gem => gem === GemstoneType.CUSHION || gem === GemstoneType.TRILLION);
+      expect(side).toBeGreaterThanOrEqual(0);
+      pattern.slice(0, side).forEach(gem => game.handlePlayerInput(manager.resolveInput(gem, GameVariation.MIRROR)));
+      game.handlePlayerInput(pattern[side]);
+
+      expect(game.getState()).toBe(GameState.ROUND_FAILED);
+    });
+  });
+});
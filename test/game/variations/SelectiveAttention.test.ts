@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { VariationManager } from '@/core/variations/VariationManager';
-import { GameVariation, GemstoneType } from '@/core/game/types';
+import { GameEngine } from '@/core/game/GameEngine';
+import { GAME_CONFIG } from '@/core/game/constants';
+import { GameState, GameVariation, GemstoneType } from '@/core/game/types';
 
 describe('SELECTIVE_ATTENTION Variation', () => {
   let manager: VariationManager;
@@ -386,4 +388,76 @@ describe('SELECTIVE_ATTENTION Variation', () => {
       });
     });
   });
+
+  describe('Engine Enforcement', () => {
+    /**
+     * Engine whose round 2 runs the given variation, waiting for input
+     */
+    const startRound2 = (variation: GameVariation, combinationBase?: GameVariation): GameEngine => {
+      const config = structuredClone(GAME_CONFIG);
+      config.variations.unlocks = [{ fromRound: 2, variations: [variation] }];
+      if (combinationBase) {
+        config.variations.combination = { fromRound: 2, bases: [combinationBase] };
+      }
+      const game = new GameEngine(undefined, { seed: 12, gameConfig: config });
+      game.startGame();
+      game.startPlayerInput();
+      game.getPattern().forEach(gem => game.handlePlayerInput(gem));
+      game.continueToNextRound();
+      game.startPatternDisplay();
+      game.startPlayerInput();
+      return game;
+    };
+
+    it('should expect only the shining gems, in order', () => {
+      const game = startRound2(GameVariation.SELECTIVE_ATTENTION);
+      const { shiningIndices } = game.getVariationEffects();
+
+      expect(shiningIndices).toHaveLength(2);
+      expect(game.getExpectedInput()).toEqual(shiningIndices.map(index => game.getPattern()[index]));
+    });
+
+    it('should complete the round once the shining gems are entered', () => {
+      const game = startRound2(GameVariation.SELECTIVE_ATTENTION);
+
+      game.getRequiredInput().forEach(gem => game.handlePlayerInput(gem));
+
+      expect(game.getState()).toBe(GameState.ROUND_COMPLETE);
+      expect(game.getPlayerInput()).toHaveLength(2);
+    });
+
+    it('should fail on a gem that did not shine', () => {
+      const game = startRound2(GameVariation.SELECTIVE_ATTENTION);
+      const expected = game.getRequiredInput()[0];
+
+      game.handlePlayerInput(expected === GemstoneType.EMERALD ? GemstoneType.CUSHION : GemstoneType.EMERALD);
+
+      expect(game.getState()).toBe(GameState.ROUND_FAILED);
+    });
+
+    it('should shorten the timer with the input', () => {
+      const game = startRound2(GameVariation.SELECTIVE_ATTENTION);
+
+      // (8 - 2 * 0.25) * 2 of 4 gems
+      expect(game.getTimerSeconds()).toBe(3.75);
+    });
+
+    it('should reverse the shining gems in Reverse Combo', () => {
+      const game = startRound2(GameVariation.SELECTIVE_ATTENTION, GameVariation.SELECTIVE_ATTENTION);
+      const { shiningIndices } = game.getVariationEffects();
+
+      expect(game.getCurrentVariation()).toBe(GameVariation.REVERSE_COMBINATION);
+      expect(game.getExpectedInput()).toEqual(shiningIndices.map(index => game.getPattern()[index]).reverse());
+    });
+
+    it('should validate against the shining gems given the effects', () => {
+      const pattern = [GemstoneType.EMERALD, GemstoneType.TRILLION, GemstoneType.CUSHION];
+      const effects = { ghostIndices: [], shiningIndices: [0, 2], chaosTimings: null, colorMap: null };
+
+      expect(manager.validateInput(
+        [GemstoneType.EMERALD, GemstoneType.CUSHION], pattern, GameVariation.SELECTIVE_ATTENTION, effects
+      )).toBe(true);
+      expect(manager.validateInput(pattern, pattern, GameVariation.SELECTIVE_ATTENTION, effects)).toBe(false);
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,42 @@
+import { readFileSync } from 'node:fs';
+import { GameEngine } from '@/core/game/GameEngine';
+import { GameState, GemstoneType } from '@/core/game/types';
+import { parseTicketConfig } from '@/utils/yaml-loader';
+import type { TicketConfig } from '@/utils/yaml-loader';
+
+/**
+ * The shipped ticket_config.yml, parsed afresh so tests can change it
+ */
+export const loadTicketConfig = (): TicketConfig =>
+  parseTicketConfig(readFileSync('public/ticket_config.yml', 'utf8'));
+
+/**
+ * Play the current round through to ROUND_COMPLETE
+ */
+export const playRound = (game: GameEngine): void => {
+  if (game.getState() === GameState.VARIATION_INTRO) game.startPatternDisplay();
+  game.startPlayerInput();
+  game.getRequiredInput().forEach(gem => game.handlePlayerInput(gem));
+};
+
+/**
+ * Lose the current round on a wrong first gem
+ */
+export const failRound = (game: GameEngine): void => {
+  if (game.getState() === GameState.VARIATION_INTRO) game.startPatternDisplay();
+  game.startPlayerInput();
+  const required = game.getRequiredInput()[0];
+  game.handlePlayerInput(required === GemstoneType.EMERALD ? GemstoneType.CUSHION : GemstoneType.EMERALD);
+};
+
+/**
+ * Pay for a run and complete the given number of rounds
+ */
+export const playRounds = (game: GameEngine, rounds: number): void => {
+  game.startGameWithTickets();
+  playRound(game);
+  for (let i = 1; i < rounds; i++) {
+    game.continueToNextRound();
+    playRound(game);
+  }
+};
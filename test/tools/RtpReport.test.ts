@@ -0,0 +1,43 @@
+import { describe, it } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { RtpSimulator } from '@/core/economy/RtpSimulator';
+import { parseTicketConfig, parseGameConfig } from '@/utils/yaml-loader';
+
+/**
+ * RTP report for tuning ticket_config.yml, skipped in the regular suite.
+ * Run with: npm run rtp
+ * Optional: RTP_CONFIG and RTP_GAME_CONFIG (paths), RTP_GAMES, RTP_SEED,
+ * RTP_CASH_OUT_AFTER (round players cash out after, with cash_out enabled)
+ */
+describe.skipIf(!process.env.RTP_REPORT)('RTP Report', () => {
+  it('prints analytic and simulated RTP', () => {
+    const configPath = process.env.RTP_CONFIG || 'public/ticket_config.yml';
+    const config = parseTicketConfig(readFileSync(configPath, 'utf8'));
+    const gameConfigPath = process.env.RTP_GAME_CONFIG || 'public/game_config.yml';
+    const variationSchedule = parseGameConfig(readFileSync(gameConfigPath, 'utf8')).variations;
+    const games = Number(process.env.RTP_GAMES) || 100000;
+    const seed = process.env.RTP_SEED ? Number(process.env.RTP_SEED) : undefined;
+    const cashOutAfter = process.env.RTP_CASH_OUT_AFTER ? Number(process.env.RTP_CASH_OUT_AFTER) : undefined;
+    const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
+    const signed = (value: number) => `${value >= 0 ? '+' : ''}${percent(value)}`;
+
+    console.log(`Config: ${configPath} (target RTP ${percent(config.rtp_target)})`);
+
+    Object.keys(config.difficulty_settings).forEach(difficulty => {
+      const simulator = new RtpSimulator(config, { difficulty, variationSchedule, cashOutAfter });
+      const analytic = simulator.calculateExpectedRtp();
+      console.log(`\n[${difficulty}] analytic RTP ${percent(analytic.rtp)}, expected payout ${analytic.expectedPayout.toFixed(2)}`);
+
+      [0.5, 1, 2].forEach(skill => {
+        const result = simulator.simulate({ games, skill, seed });
+        console.log(
+          `  skill ${skill}: RTP ${percent(result.rtp)} (${signed(result.rtp - result.rtpTarget)} vs target), ` +
+          `sd ${result.standardDeviation.toFixed(2)}, ` +
+          `p50 ${result.percentiles.p50.toFixed(2)}, p90 ${result.percentiles.p90.toFixed(2)}, ` +
+          `p99 ${result.percentiles.p99.toFixed(2)}, max ${result.maxPayout.toFixed(2)}, ` +
+          `avg rounds ${result.averageRoundsCompleted.toFixed(2)}, seed ${result.seed}`
+        );
+      });
+    });
+  });
+});